@@ -0,0 +1,201 @@
+import { randomUUID } from 'crypto'
+import { networkInterfaces } from 'os'
+import { WebSocketServer, WebSocket } from 'ws'
+import { HOST_GRACE_PERIOD, HOST_PEER, PROTOCOL_VERSION, RELAY_SENDER, type P2PMessage } from '../src/lib/game-transport'
+import { isRelayRequest } from '../src/lib/message-schema'
+import type { RelayFrame } from '../src/lib/websocket-transport'
+
+// Self-hostable relay for Jotto games. It only forwards message envelopes
+// between the peers of each game; the host's browser still runs the game.
+
+const PORT = Number(process.env.PORT) || 3001
+
+interface RelayGame {
+  hostId: string
+  // Given to the host when it registers; only its holder can resume the game
+  hostKey: string
+  peers: Map<string, WebSocket>
+  // Set while the host is gone; the game ends unless it comes back first
+  hostAwayTimer: ReturnType<typeof setTimeout> | null
+}
+
+interface RelaySession {
+  gameId: string | null
+  peerId: string | null
+}
+
+const games = new Map<string, RelayGame>()
+
+function sendFrame(socket: WebSocket, frame: RelayFrame) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(frame))
+  }
+}
+
+// Message originating from the relay itself, e.g. when a peer drops
+function relayMessage(type: P2PMessage['type'], data: unknown): RelayFrame {
+  return {
+    kind: 'message',
+    message: { version: PROTOCOL_VERSION, type, data, senderId: RELAY_SENDER, timestamp: Date.now() }
+  }
+}
+
+function handleFrame(socket: WebSocket, session: RelaySession, frame: RelayFrame) {
+  // One peer per connection, so nobody can hold several identities at once
+  if ((frame.kind === 'host' || frame.kind === 'join') && session.peerId) {
+    sendFrame(socket, { kind: 'error', message: 'This connection is already in a game.' })
+    return
+  }
+
+  switch (frame.kind) {
+    case 'host': {
+      const existing = games.get(frame.gameId)
+      const isResuming = !!existing?.hostAwayTimer && frame.hostKey === existing.hostKey
+      if (existing && (!isResuming || existing.peers.has(frame.peerId))) {
+        sendFrame(socket, { kind: 'error', message: 'Game ID is already in use on this relay.' })
+        return
+      }
+
+      if (existing?.hostAwayTimer) {
+        // The host is back within the grace period and takes over its game again
+        clearTimeout(existing.hostAwayTimer)
+        existing.hostAwayTimer = null
+        existing.hostId = frame.peerId
+        // Before the host sends anything, so players accept it from the new ID
+        existing.peers.forEach(peer => sendFrame(peer, { kind: 'host-resumed', hostId: frame.peerId }))
+        existing.peers.set(frame.peerId, socket)
+        console.log(`Game ${frame.gameId} resumed by ${frame.peerId}`)
+      } else {
+        games.set(frame.gameId, {
+          hostId: frame.peerId,
+          hostKey: randomUUID(),
+          peers: new Map([[frame.peerId, socket]]),
+          hostAwayTimer: null
+        })
+        console.log(`Game ${frame.gameId} hosted by ${frame.peerId}`)
+      }
+
+      session.gameId = frame.gameId
+      session.peerId = frame.peerId
+      const game = games.get(frame.gameId)!
+      sendFrame(socket, { kind: 'joined', gameId: frame.gameId, hostId: game.hostId, hostKey: game.hostKey })
+      break
+    }
+
+    case 'join': {
+      const game = games.get(frame.gameId)
+      if (!game) {
+        sendFrame(socket, { kind: 'error', message: 'Game not found. The host may have left or the game may not exist.' })
+        return
+      }
+
+      // Taking over a peer's ID would let us receive and send as them. The
+      // host's ID stays reserved while it's away, and so do the special IDs.
+      if (game.peers.has(frame.peerId) || [game.hostId, HOST_PEER, RELAY_SENDER].includes(frame.peerId)) {
+        sendFrame(socket, { kind: 'error', message: 'That peer ID is already in use in this game.' })
+        return
+      }
+
+      game.peers.set(frame.peerId, socket)
+      session.gameId = frame.gameId
+      session.peerId = frame.peerId
+      sendFrame(socket, { kind: 'joined', gameId: frame.gameId, hostId: game.hostId })
+      console.log(`Peer ${frame.peerId} joined game ${frame.gameId}`)
+      break
+    }
+
+    case 'message': {
+      const game = session.gameId ? games.get(session.gameId) : undefined
+      if (!game || !session.peerId) {
+        sendFrame(socket, { kind: 'error', message: 'Join a game before sending messages.' })
+        return
+      }
+
+      // Peers can't speak for each other
+      const outgoing: RelayFrame = {
+        kind: 'message',
+        message: { ...frame.message, senderId: session.peerId }
+      }
+
+      if (frame.message.to) {
+        const target = game.peers.get(frame.message.to === HOST_PEER ? game.hostId : frame.message.to)
+        if (target) sendFrame(target, outgoing)
+        return
+      }
+
+      game.peers.forEach((peer, peerId) => {
+        if (peerId !== session.peerId) sendFrame(peer, outgoing)
+      })
+      break
+    }
+
+    default:
+      sendFrame(socket, { kind: 'error', message: 'Unknown frame.' })
+  }
+}
+
+function handleClose(session: RelaySession) {
+  const game = session.gameId ? games.get(session.gameId) : undefined
+  if (!game || !session.peerId) return
+
+  game.peers.delete(session.peerId)
+
+  if (session.peerId === game.hostId) {
+    const gameId = session.gameId!
+
+    if (game.peers.size === 0) {
+      games.delete(gameId)
+      console.log(`Game ${gameId} ended: host left`)
+      return
+    }
+
+    // The host runs the game, so give it a chance to come back before ending it
+    const resumeBy = Date.now() + HOST_GRACE_PERIOD
+    game.peers.forEach(peer => sendFrame(peer, relayMessage('game:host-away', resumeBy)))
+    game.hostAwayTimer = setTimeout(() => {
+      game.peers.forEach(peer => sendFrame(peer, relayMessage('game:terminated', null)))
+      games.delete(gameId)
+      console.log(`Game ${gameId} ended: host did not return`)
+    }, HOST_GRACE_PERIOD)
+    console.log(`Host of game ${gameId} left, waiting for it to return`)
+    return
+  }
+
+  game.peers.forEach(peer => sendFrame(peer, relayMessage('game:player-left', session.peerId)))
+  console.log(`Peer ${session.peerId} left game ${session.gameId}`)
+}
+
+const server = new WebSocketServer({ port: PORT })
+
+server.on('connection', (socket) => {
+  const session: RelaySession = { gameId: null, peerId: null }
+
+  socket.on('message', (raw) => {
+    let frame: unknown
+    try {
+      frame = JSON.parse(raw.toString())
+    } catch {
+      frame = null
+    }
+
+    if (!isRelayRequest(frame)) {
+      sendFrame(socket, { kind: 'error', message: 'Malformed frame.' })
+      return
+    }
+
+    handleFrame(socket, session, frame)
+  })
+
+  socket.on('close', () => handleClose(session))
+})
+
+server.on('listening', () => {
+  console.log(`Jotto relay listening on ws://localhost:${PORT}`)
+
+  // Show LAN addresses so players on other machines know where to connect
+  Object.values(networkInterfaces()).flat().forEach(address => {
+    if (address && address.family === 'IPv4' && !address.internal) {
+      console.log(`  on your network: ws://${address.address}:${PORT}`)
+    }
+  })
+})
@@ -0,0 +1,243 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { GameBoard } from '@/components/game/game-board'
+import { GameInstructions } from '@/components/game/game-instructions'
+import { SolverAnalysis } from '@/components/game/solver-analysis'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ArrowLeft, CalendarDays, Flame, Share2 } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { usePracticeGame } from '@/hooks/use-practice-game'
+import { createGameView } from '@/lib/game-logic'
+import {
+  DAILY_SETTINGS,
+  DailyResult,
+  formatShareText,
+  getDailyStats,
+  getDailyWord,
+  getDateKey,
+  getPuzzleNumber,
+  loadDailyResults,
+  saveDailyResult,
+  toDailyResult
+} from '@/lib/daily'
+import { useRouter } from 'next/navigation'
+
+export default function DailyPage() {
+  const [dateKey, setDateKey] = useState<string | null>(null)
+  const [results, setResults] = useState<Record<string, DailyResult>>({})
+  const [isLoadingWord, setIsLoadingWord] = useState(false)
+  const { toast } = useToast()
+  const router = useRouter()
+
+  const {
+    gameState,
+    currentPlayer,
+    timeElapsed,
+    startGame,
+    makeGuess
+  } = usePracticeGame()
+
+  // The date and saved results only exist in the browser, not at build time
+  useEffect(() => {
+    setDateKey(getDateKey())
+    setResults(loadDailyResults())
+  }, [])
+
+  // Record the result as soon as the word is found
+  useEffect(() => {
+    if (!dateKey || !currentPlayer || gameState?.status !== 'finished') return
+    saveDailyResult(dateKey, toDailyResult(currentPlayer))
+    setResults(loadDailyResults())
+  }, [dateKey, gameState, currentPlayer])
+
+  const gameView = useMemo(() => gameState && createGameView(gameState), [gameState])
+
+  const playToday = async () => {
+    if (!dateKey) return
+
+    setIsLoadingWord(true)
+    try {
+      startGame(DAILY_SETTINGS, await getDailyWord(dateKey))
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load today's puzzle.",
+        variant: "destructive"
+      })
+    } finally {
+      setIsLoadingWord(false)
+    }
+  }
+
+  const shareResult = async (result: DailyResult) => {
+    if (!dateKey) return
+
+    const text = formatShareText(dateKey, result)
+    if (navigator.share) {
+      try {
+        await navigator.share({ text })
+        return
+      } catch {
+        // Cancelled or unsupported, so fall back to the clipboard
+      }
+    }
+    await navigator.clipboard.writeText(text)
+    toast({
+      title: "Copied!",
+      description: "Your result is ready to paste"
+    })
+  }
+
+  if (!dateKey) {
+    return (
+      <div className="max-w-md mx-auto">
+        <Card>
+          <CardContent className="flex items-center justify-center py-8">
+            <div className="text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+              <p>Loading...</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const todaysResult = results[dateKey]
+  const stats = getDailyStats(results, dateKey)
+  const title = `Daily Jotto #${getPuzzleNumber(dateKey)}`
+
+  const statsCard = (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Flame className="h-5 w-5" />
+          Your Stats
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div>
+            <p className="text-2xl font-bold">{stats.played}</p>
+            <p className="text-xs text-muted-foreground">Played</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">{stats.streak}</p>
+            <p className="text-xs text-muted-foreground">Current Streak</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">{stats.maxStreak}</p>
+            <p className="text-xs text-muted-foreground">Best Streak</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+
+  // Today's puzzle is done: show the result, not the game
+  if (todaysResult) {
+    return (
+      <>
+        <GameInstructions settings={DAILY_SETTINGS} />
+        <div className="max-w-md mx-auto space-y-6">
+          <Button variant="outline" onClick={() => router.push('/')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+
+          <Card className="border-green-200 bg-green-50 dark:border-green-800 dark:bg-green-950">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-green-800 dark:text-green-200">
+                <CalendarDays className="h-5 w-5" />
+                {title}
+              </CardTitle>
+              <CardDescription>
+                Solved in {todaysResult.guesses} guesses
+                and {Math.floor(todaysResult.timeUsed / 60)}:{(todaysResult.timeUsed % 60).toString().padStart(2, '0')}.
+                Come back tomorrow for a new word!
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {gameState?.hostWord && (
+                <p className="text-center">
+                  The word was <span className="font-mono tracking-widest font-medium">{gameState.hostWord}</span>
+                </p>
+              )}
+              <pre className="rounded bg-muted p-3 text-center font-mono text-sm">
+                {formatShareText(dateKey, todaysResult)}
+              </pre>
+              <Button onClick={() => shareResult(todaysResult)} className="w-full">
+                <Share2 className="h-4 w-4 mr-2" />
+                Share Result
+              </Button>
+            </CardContent>
+          </Card>
+
+          {statsCard}
+
+          {gameView && currentPlayer && (
+            <SolverAnalysis gameState={gameView} player={currentPlayer} />
+          )}
+        </div>
+      </>
+    )
+  }
+
+  if (!gameState || !currentPlayer) {
+    return (
+      <>
+        <GameInstructions settings={DAILY_SETTINGS} />
+        <div className="max-w-md mx-auto space-y-6">
+          <Button variant="outline" onClick={() => router.push('/')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarDays className="h-5 w-5" />
+                {title}
+              </CardTitle>
+              <CardDescription>
+                Everyone gets the same {DAILY_SETTINGS.wordLength}-letter word today. How few guesses can you find it in?
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button onClick={playToday} className="w-full" size="lg" disabled={isLoadingWord}>
+                {isLoadingWord ? 'Loading...' : "Play Today's Puzzle"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          {statsCard}
+        </div>
+      </>
+    )
+  }
+
+  return (
+    <>
+      <GameInstructions settings={gameState.settings} />
+      <div className="max-w-md mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="outline" onClick={() => router.push('/')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <h1 className="text-xl font-bold">{title}</h1>
+        </div>
+
+        <GameBoard
+          guesses={currentPlayer.guesses}
+          onGuess={makeGuess}
+          settings={gameState.settings}
+          isGameFinished={gameState.status === 'finished'}
+          timeElapsed={timeElapsed}
+        />
+      </div>
+    </>
+  )
+}
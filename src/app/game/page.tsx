@@ -4,12 +4,22 @@ import { useState, useEffect } from 'react'
 import { GameBoard } from '@/components/game/game-board'
 import { Leaderboard } from '@/components/game/leaderboard'
 import { Button } from '@/components/ui/button'
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { ArrowLeft, Copy, Users } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ArrowLeft, Copy, Eye, SkipForward } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
 import { useP2PGame } from '@/hooks/use-p2p-game'
 import { GameInstructions } from '@/components/game/game-instructions'
 import { QRGenerator } from '@/components/qr/qr-generator'
+import { AnswerDisplay } from '@/components/qr/answer-display'
+import { FairnessBadge } from '@/components/game/fairness-badge'
+import { SecretWordForm } from '@/components/game/secret-word-form'
+import { SolverAnalysis } from '@/components/game/solver-analysis'
+import { BotControls } from '@/components/game/bot-controls'
+import { Lobby } from '@/components/game/lobby'
+import { MatchStandings } from '@/components/game/match-standings'
+import { GameMasterDashboard } from '@/components/game/game-master-dashboard'
+import { LiveGuesses } from '@/components/game/live-guesses'
+import { describeScore, getGuessTarget, getMatchStandings, isGameMaster, isSetter } from '@/lib/game-logic'
 
 export default function GamePage() {
   const [gameId, setGameId] = useState<string | null>(null)
@@ -37,14 +47,34 @@ export default function GamePage() {
     isConnected, 
     timeElapsed, 
     makeGuess, 
+    setSecretWord,
+    requestHint,
+    addBot,
+    startGame,
+    kickPlayer,
+    unbanPlayer,
+    updateSettings,
+    nextRound,
+    pauseGame,
+    resumeGame,
+    revealWord,
+    countdown,
+    hint,
     leaveGame,
     generateQRData,
-    isHost
+    acceptAnswer,
+    pendingAnswer,
+    network,
+    fairness,
+    hostAwayUntil,
+    isHost,
+    isSpectator
   } = useP2PGame(gameId || '')
 
   // Monitor connection state and show errors after timeout
   useEffect(() => {
-    if (!gameId) return
+    // WebRTC players wait for the host to paste their answer, however long that takes
+    if (!gameId || pendingAnswer) return
 
     const timeout = setTimeout(() => {
       if (!gameState && !currentPlayer && !isConnected) {
@@ -52,13 +82,13 @@ export default function GamePage() {
       }
     }, 10000) // 10 second timeout
 
-    if (gameState && currentPlayer) {
+    if (gameState && (currentPlayer || isSpectator)) {
       setConnectionError(null)
       clearTimeout(timeout)
     }
 
     return () => clearTimeout(timeout)
-  }, [gameId, gameState, currentPlayer, isConnected])
+  }, [gameId, gameState, currentPlayer, isSpectator, isConnected, pendingAnswer])
 
   const copyGameId = () => {
     if (gameId) {
@@ -118,9 +148,10 @@ export default function GamePage() {
     )
   }
 
-  if (!gameState || !currentPlayer) {
+  if (!gameState || (!currentPlayer && !isSpectator)) {
     return (
-      <div className="max-w-md mx-auto">
+      <div className="max-w-md mx-auto space-y-6">
+        {pendingAnswer && <AnswerDisplay answer={pendingAnswer} />}
         <Card>
           <CardContent className="flex items-center justify-center py-8">
             <div className="text-center">
@@ -133,9 +164,43 @@ export default function GamePage() {
     )
   }
 
+  // Classic games: who we're guessing, whose turn it is and who won
+  const classic = gameState.classic
+  const playerName = (playerId?: string) => gameState.players.find(p => p.id === playerId)?.name
+  const isInTurnOrder = !!currentPlayer && !!classic && classic.turnOrder.includes(currentPlayer.id)
+  const needsSecret = !!currentPlayer && !!classic && !isInTurnOrder && gameState.status === 'waiting'
+
+  // Matches: who sets this round's word, and whether there are more rounds
+  const match = gameState.match
+  const isSettingWord = !!currentPlayer && isSetter(gameState, currentPlayer.id)
+  const needsRoundWord = !!match && isSettingWord && !match.wordSet
+  const hasNextRound = !!match && match.round < (gameState.settings.rounds ?? 1)
+
+  // A game master runs the game from the dashboard instead of playing
+  const isRunningGame = !!currentPlayer && isGameMaster(gameState, currentPlayer.id)
+  const competitors = gameState.players.filter(p => !isGameMaster(gameState, p.id))
+
+  const isMyTurn = gameState.status === 'playing' && !gameState.pausedAt && !isSettingWord &&
+    (!classic || classic.turnOrder[classic.turn] === currentPlayer?.id)
+  let turnNotice: string | undefined
+  if (match && !match.wordSet) {
+    turnNotice = `Waiting for ${playerName(match.setterId)} to pick this round's word`
+  } else if (gameState.status === 'waiting') {
+    turnNotice = 'Waiting for the host to start the game'
+  } else if (isSettingWord && gameState.status === 'playing') {
+    turnNotice = "You set this round's word. Watch the others look for it!"
+  } else if (currentPlayer && classic && !isInTurnOrder && gameState.status === 'playing') {
+    turnNotice = 'The game started before you joined. You can play in the next one.'
+  } else if (currentPlayer && classic && gameState.status === 'playing') {
+    const targetName = playerName(getGuessTarget(classic, currentPlayer.id))
+    turnNotice = isMyTurn
+      ? `Your turn: guess ${targetName}'s word`
+      : `${playerName(classic.turnOrder[classic.turn])} is guessing. You're after ${targetName}'s word.`
+  }
+
   return (
     <>
-      <GameInstructions />
+      <GameInstructions settings={gameState?.settings} />
       <div className="max-w-6xl mx-auto space-y-6">
         {/* Header */}
         <div className="flex items-center justify-between">
@@ -147,7 +212,9 @@ export default function GamePage() {
         <div className="text-center">
           <h1 className="text-xl font-bold">Game: {gameId}</h1>
           <p className="text-sm text-muted-foreground">
-            {gameState.players.length} player(s)
+            {competitors.length} player(s)
+            {match && ` · Round ${match.round} of ${gameState.settings.rounds}`}
+            {gameState.spectators.length > 0 && ` · ${gameState.spectators.length} watching`}
           </p>
         </div>
         
@@ -168,50 +235,159 @@ export default function GamePage() {
         </Card>
       )}
 
+      {hostAwayUntil && (
+        <Card className="border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-950">
+          <CardContent className="py-4">
+            <p className="text-center text-yellow-800 dark:text-yellow-200">
+              The host disconnected. Waiting until {new Date(hostAwayUntil).toLocaleTimeString()} for them to come back...
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {gameState.pausedAt && gameState.status === 'playing' && (
+        <Card className="border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-950">
+          <CardContent className="py-4">
+            <p className="text-center text-yellow-800 dark:text-yellow-200">
+              The game is paused. The clock stops until the host resumes it.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Lobby */}
+      {gameState.status === 'waiting' && (
+        <Lobby
+          gameState={gameState}
+          currentPlayerId={currentPlayer?.id}
+          isHost={isHost}
+          countdown={countdown}
+          onStart={startGame}
+          onKick={kickPlayer}
+          onUnban={unbanPlayer}
+          onUpdateSettings={updateSettings}
+        />
+      )}
+
       {/* Game Content */}
       <div className="grid gap-6 md:grid-cols-2">
         {/* Game Board */}
         <div>
-          <GameBoard
-            guesses={currentPlayer.guesses}
-            onGuess={makeGuess}
-            isGameFinished={currentPlayer.status === 'finished'}
-            timeElapsed={timeElapsed}
-          />
+          {!currentPlayer ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Eye className="h-5 w-5" />
+                  Watching
+                </CardTitle>
+                <CardDescription>
+                  {gameState.settings.spectatorDelay && gameState.status !== 'finished'
+                    ? `Guesses show up ${gameState.settings.spectatorDelay} seconds after they're made`
+                    : "You're spectating, so you can follow every guess but not make any"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <LiveGuesses gameState={gameState} />
+              </CardContent>
+            </Card>
+          ) : needsSecret ? (
+            <SecretWordForm settings={gameState.settings} onSubmit={setSecretWord} />
+          ) : needsRoundWord ? (
+            <SecretWordForm
+              settings={gameState.settings}
+              onSubmit={setSecretWord}
+              description="Everyone else will race to find this round's"
+            />
+          ) : isRunningGame ? (
+            <GameMasterDashboard
+              gameState={gameState}
+              timeElapsed={timeElapsed}
+              onPause={pauseGame}
+              onResume={resumeGame}
+              onReveal={revealWord}
+            />
+          ) : (
+            <GameBoard
+              guesses={currentPlayer.guesses}
+              onGuess={makeGuess}
+              settings={gameState.settings}
+              isGameFinished={currentPlayer.status === 'finished' || currentPlayer.status === 'out' || gameState.status === 'finished'}
+              timeElapsed={timeElapsed}
+              turnNotice={turnNotice}
+              isMyTurn={isMyTurn}
+              onHint={gameState.settings.hints && gameState.status === 'playing' ? requestHint : undefined}
+              hint={hint}
+            />
+          )}
         </div>
 
         {/* Leaderboard */}
         <div className="space-y-6">
-          <Leaderboard players={gameState.players} />
+          <MatchStandings gameState={gameState} />
+
+          <Leaderboard players={competitors} setterId={match?.setterId} />
           
           {/* QR Code for Host */}
           {isHost && gameState.status === 'waiting' && (
             <QRGenerator 
               gameId={gameId} 
               onGenerateQR={generateQRData}
+              onAcceptAnswer={network === 'webrtc' ? acceptAnswer : undefined}
             />
           )}
+
+          {isHost && (gameState.status === 'waiting' || (!classic && gameState.status === 'playing')) && (
+            <BotControls onAddBot={addBot} />
+          )}
         </div>
       </div>
 
-      {/* Game Status */}
-      {gameState.status === 'waiting' && (
+      {gameState.status === 'finished' && gameState.hostWord && (
         <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Users className="h-5 w-5" />
-              Waiting for Game to Start
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-muted-foreground">
-              Share the game ID with other players to get started!
-            </p>
+          <CardContent className="py-4 text-center space-y-2">
+            {classic ? (
+              <>
+                <p className="font-medium">{playerName(classic.winnerId) ?? 'Nobody'} wins!</p>
+                {classic.turnOrder.map(playerId => (
+                  <p key={playerId} className="text-sm">
+                    {playerName(playerId)}&apos;s word was{' '}
+                    <span className="font-mono tracking-widest">
+                      {playerId === gameState.hostId ? gameState.hostWord : classic.secrets?.[playerId]}
+                    </span>
+                  </p>
+                ))}
+              </>
+            ) : (
+              <p className="font-medium">
+                {match ? `${playerName(match.setterId)}'s word was` : 'The word was'}{' '}
+                <span className="font-mono tracking-widest">{gameState.hostWord}</span>
+              </p>
+            )}
+            {currentPlayer?.score && !isRunningGame && (
+              <p className="text-sm">
+                You scored <span className="font-semibold">{currentPlayer.score.points} points</span>{' '}
+                ({describeScore(currentPlayer.score)})
+              </p>
+            )}
+            {fairness && <FairnessBadge fairness={fairness} />}
+            {match && !hasNextRound && (
+              <p className="font-medium">{getMatchStandings(gameState)[0]?.player.name} wins the match!</p>
+            )}
+            {isHost && hasNextRound && (
+              <Button onClick={nextRound}>
+                <SkipForward className="h-4 w-4 mr-2" />
+                Next Round
+              </Button>
+            )}
           </CardContent>
         </Card>
       )}
 
-      {currentPlayer.status === 'finished' && (
+      {currentPlayer && gameState.status === 'finished' && (
+        <SolverAnalysis gameState={gameState} player={currentPlayer} />
+      )}
+
+      {currentPlayer?.status === 'finished' && (
         <Card className="border-green-200 bg-green-50 dark:border-green-800 dark:bg-green-950">
           <CardContent className="py-4">
             <p className="text-center text-green-800 dark:text-green-200 font-medium">
@@ -221,6 +397,16 @@ export default function GamePage() {
           </CardContent>
         </Card>
       )}
+
+      {currentPlayer?.status === 'out' && gameState.status !== 'finished' && (
+        <Card className="border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-950">
+          <CardContent className="py-4">
+            <p className="text-center text-yellow-800 dark:text-yellow-200 font-medium">
+              You&apos;re out of guesses. The word is revealed when the game ends.
+            </p>
+          </CardContent>
+        </Card>
+      )}
       </div>
     </>
   )
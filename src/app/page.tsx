@@ -4,12 +4,15 @@ import { useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
-import { GamepadIcon, Users, Plus, QrCode } from 'lucide-react'
+import { GamepadIcon, Users, Plus, QrCode, Dumbbell, CalendarDays } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
-import { validateWord } from '@/lib/game-logic'
-import { p2pGameManager } from '@/lib/p2p-game-manager'
+import { DEFAULT_SETTINGS, GameSettings } from '@/lib/game-logic'
+import { checkWord } from '@/lib/dictionary'
+import { p2pGameManager, GameNetwork } from '@/lib/p2p-game-manager'
+import { getDefaultRelayUrl } from '@/lib/websocket-transport'
 import { useRouter } from 'next/navigation'
 import { GameInstructions } from '@/components/game/game-instructions'
+import { SettingsForm } from '@/components/game/settings-form'
 import { QRScanner } from '@/components/qr/qr-scanner'
 
 export default function Home() {
@@ -19,14 +22,37 @@ export default function Home() {
   const [playerName, setPlayerName] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [showQRScanner, setShowQRScanner] = useState(false)
+  const [network, setNetwork] = useState<GameNetwork>('local')
+  const [relayUrl, setRelayUrl] = useState('')
+  const [useRelay, setUseRelay] = useState(false)
+  const [spectate, setSpectate] = useState(false)
+  const [settings, setSettings] = useState<GameSettings>(DEFAULT_SETTINGS)
+  const { wordLength } = settings
   const { toast } = useToast()
   const router = useRouter()
 
+  const changeSettings = (newSettings: GameSettings) => {
+    setSettings(newSettings)
+    setHostWord(hostWord.slice(0, newSettings.wordLength))
+  }
+
   const handleCreateGame = async () => {
-    if (!validateWord(hostWord)) {
+    let wordError: string | null
+    try {
+      wordError = await checkWord(hostWord, settings, 'secret')
+    } catch (error) {
+      console.error('Failed to load dictionary:', error)
+      toast({
+        title: "Error",
+        description: "Couldn't load the word list. Please try again.",
+        variant: "destructive"
+      })
+      return
+    }
+    if (wordError) {
       toast({
         title: "Invalid Word",
-        description: "Please enter a valid 5-letter word",
+        description: wordError,
         variant: "destructive"
       })
       return
@@ -45,7 +71,13 @@ export default function Home() {
     
     try {
       // Create P2P game
-      const newGameId = await p2pGameManager.createGame(hostWord, playerName)
+      const newGameId = await p2pGameManager.createGame(
+        hostWord,
+        playerName,
+        settings,
+        network,
+        network === 'relay' ? relayUrl.trim() || getDefaultRelayUrl() : undefined
+      )
       
       toast({
         title: "Game Created!",
@@ -87,11 +119,16 @@ export default function Home() {
     
     try {
       // Join P2P game
-      await p2pGameManager.joinGame(gameId.toUpperCase(), playerName)
+      await p2pGameManager.joinGame(
+        gameId.toUpperCase(),
+        playerName,
+        useRelay ? relayUrl.trim() || getDefaultRelayUrl() : undefined,
+        spectate
+      )
       
       toast({
         title: "Joined Game!",
-        description: `Successfully joined ${gameId.toUpperCase()}`
+        description: spectate ? `Watching ${gameId.toUpperCase()}` : `Successfully joined ${gameId.toUpperCase()}`
       })
       
       router.push(`/game?id=${gameId.toUpperCase()}`)
@@ -126,13 +163,23 @@ export default function Home() {
           return
         }
 
-        // Join via QR code data (simplified for BroadcastChannel)
-        await p2pGameManager.joinGame(qrData.gameId, playerName)
-        
-        toast({
-          title: "Joined Game!",
-          description: `Successfully joined via QR code`
-        })
+        if (qrData.offer) {
+          // WebRTC invite: the host still needs our answer before the game opens
+          await p2pGameManager.joinWithInvite(data, playerName, spectate)
+
+          toast({
+            title: "Invite Accepted",
+            description: "Send your answer to the host to finish joining"
+          })
+        } else {
+          // Join via QR code data, through the relay if the host uses one
+          await p2pGameManager.joinGame(qrData.gameId, playerName, qrData.relayUrl, spectate)
+
+          toast({
+            title: "Joined Game!",
+            description: `Successfully joined via QR code`
+          })
+        }
         
         router.push(`/game?id=${qrData.gameId}`)
       } else {
@@ -160,7 +207,7 @@ export default function Home() {
             <h1 className="text-3xl font-bold">Jotto Game</h1>
           </div>
           <p className="text-muted-foreground">
-            Guess the 5-letter word and compete with friends!
+            Guess the secret word and compete with friends!
           </p>
         </div>
 
@@ -216,6 +263,50 @@ export default function Home() {
               </Button>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Dumbbell className="h-5 w-5" />
+                Practice Solo
+              </CardTitle>
+              <CardDescription>
+                Find a word the computer picks, no other players needed
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button
+                onClick={() => router.push('/practice')}
+                className="w-full"
+                variant="outline"
+                size="lg"
+              >
+                Start Practice
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarDays className="h-5 w-5" />
+                Daily Jotto
+              </CardTitle>
+              <CardDescription>
+                One word a day, the same for everyone. Keep your streak going!
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button
+                onClick={() => router.push('/daily')}
+                className="w-full"
+                variant="outline"
+                size="lg"
+              >
+                Play Today&apos;s Puzzle
+              </Button>
+            </CardContent>
+          </Card>
         </div>
       )}
 
@@ -224,7 +315,7 @@ export default function Home() {
           <CardHeader>
             <CardTitle>Create New Game</CardTitle>
             <CardDescription>
-              Choose your 5-letter word and enter your name
+              Choose your {wordLength}-letter word and enter your name
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -237,15 +328,61 @@ export default function Home() {
               />
             </div>
             <div>
-              <label className="text-sm font-medium">Secret Word (5 letters)</label>
+              <label className="text-sm font-medium">Secret Word ({wordLength} letters)</label>
               <Input
                 placeholder="Enter secret word"
                 value={hostWord}
                 onChange={(e) => setHostWord(e.target.value.toUpperCase())}
-                maxLength={5}
+                maxLength={wordLength}
                 className="font-mono tracking-widest"
               />
             </div>
+            <SettingsForm settings={settings} onChange={changeSettings} />
+            <div>
+              <label className="text-sm font-medium">Players Join From</label>
+              <div className="flex gap-2 mt-1">
+                <Button
+                  type="button"
+                  variant={network === 'local' ? 'default' : 'outline'}
+                  className="flex-1"
+                  onClick={() => setNetwork('local')}
+                >
+                  This Browser
+                </Button>
+                <Button
+                  type="button"
+                  variant={network === 'webrtc' ? 'default' : 'outline'}
+                  className="flex-1"
+                  onClick={() => setNetwork('webrtc')}
+                >
+                  Other Devices
+                </Button>
+                <Button
+                  type="button"
+                  variant={network === 'relay' ? 'default' : 'outline'}
+                  className="flex-1"
+                  onClick={() => setNetwork('relay')}
+                >
+                  Relay Server
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {network === 'local' && 'Players open the game in other tabs of this browser'}
+                {network === 'webrtc' && 'Players on the same WiFi join with an invite QR code'}
+                {network === 'relay' && 'Players on your network join through the relay from npm run dev:server'}
+              </p>
+            </div>
+            {network === 'relay' && (
+              <div>
+                <label className="text-sm font-medium">Relay Address</label>
+                <Input
+                  placeholder={getDefaultRelayUrl()}
+                  value={relayUrl}
+                  onChange={(e) => setRelayUrl(e.target.value)}
+                  className="font-mono"
+                />
+              </div>
+            )}
             <div className="flex gap-2">
               <Button 
                 onClick={() => setView('menu')} 
@@ -292,6 +429,34 @@ export default function Home() {
                 className="font-mono tracking-widest"
               />
             </div>
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  checked={useRelay}
+                  onChange={(e) => setUseRelay(e.target.checked)}
+                />
+                Join through a relay server
+              </label>
+              {useRelay && (
+                <Input
+                  placeholder={getDefaultRelayUrl()}
+                  value={relayUrl}
+                  onChange={(e) => setRelayUrl(e.target.value)}
+                  className="mt-1 font-mono"
+                />
+              )}
+            </div>
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  checked={spectate}
+                  onChange={(e) => setSpectate(e.target.checked)}
+                />
+                Just watch (join as a spectator)
+              </label>
+            </div>
             <div className="flex gap-2">
               <Button 
                 onClick={() => setView('menu')} 
@@ -0,0 +1,217 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { GameBoard } from '@/components/game/game-board'
+import { GameInstructions } from '@/components/game/game-instructions'
+import { SolverAnalysis } from '@/components/game/solver-analysis'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ArrowLeft, Dumbbell, RotateCcw } from 'lucide-react'
+import { usePracticeGame } from '@/hooks/use-practice-game'
+import { DEFAULT_SETTINGS, GameSettings, WORD_LENGTHS, WordRule, createGameView, describeScore } from '@/lib/game-logic'
+import { useRouter } from 'next/navigation'
+
+export default function PracticePage() {
+  const [wordRule, setWordRule] = useState<WordRule>(DEFAULT_SETTINGS.wordRule)
+  const [wordLength, setWordLength] = useState(DEFAULT_SETTINGS.wordLength)
+  const [distinctLetters, setDistinctLetters] = useState(DEFAULT_SETTINGS.distinctLetters)
+  const [positionalFeedback, setPositionalFeedback] = useState(DEFAULT_SETTINGS.positionalFeedback)
+  const [hints, setHints] = useState(DEFAULT_SETTINGS.hints)
+  const settings: GameSettings = { ...DEFAULT_SETTINGS, wordRule, wordLength, distinctLetters, positionalFeedback, hints }
+  const router = useRouter()
+
+  const {
+    gameState,
+    currentPlayer,
+    timeElapsed,
+    isStarting,
+    startGame,
+    makeGuess,
+    requestHint,
+    hint,
+    endGame
+  } = usePracticeGame()
+
+  // The analysis reruns whenever its game changes, so keep the view stable
+  const gameView = useMemo(() => gameState && createGameView(gameState), [gameState])
+
+  if (!gameState || !gameView || !currentPlayer) {
+    return (
+      <>
+        <GameInstructions settings={settings} />
+        <div className="max-w-md mx-auto space-y-6">
+          <Button variant="outline" onClick={() => router.push('/')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Dumbbell className="h-5 w-5" />
+                Solo Practice
+              </CardTitle>
+              <CardDescription>
+                The computer picks a {wordLength}-letter word for you to find
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <label className="text-sm font-medium">Word Length</label>
+                <div className="flex gap-2 mt-1">
+                  {WORD_LENGTHS.map(length => (
+                    <Button
+                      key={length}
+                      type="button"
+                      variant={wordLength === length ? 'default' : 'outline'}
+                      className="flex-1"
+                      onClick={() => setWordLength(length)}
+                    >
+                      {length}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Allowed Guesses</label>
+                <div className="flex gap-2 mt-1">
+                  <Button
+                    type="button"
+                    variant={wordRule === 'dictionary' ? 'default' : 'outline'}
+                    className="flex-1"
+                    onClick={() => setWordRule('dictionary')}
+                  >
+                    Dictionary Only
+                  </Button>
+                  <Button
+                    type="button"
+                    variant={wordRule === 'any' ? 'default' : 'outline'}
+                    className="flex-1"
+                    onClick={() => setWordRule('any')}
+                  >
+                    Anything Goes
+                  </Button>
+                </div>
+              </div>
+              <div>
+                <label className="text-sm font-medium">No Repeated Letters</label>
+                <div className="flex gap-4 mt-1">
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={distinctLetters.secret}
+                      onChange={(e) => setDistinctLetters({ ...distinctLetters, secret: e.target.checked })}
+                    />
+                    In the secret word
+                  </label>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={distinctLetters.guesses}
+                      onChange={(e) => setDistinctLetters({ ...distinctLetters, guesses: e.target.checked })}
+                    />
+                    In guesses
+                  </label>
+                </div>
+              </div>
+              <div>
+                <label className="flex items-center gap-2 text-sm font-medium">
+                  <input
+                    type="checkbox"
+                    checked={positionalFeedback}
+                    onChange={(e) => setPositionalFeedback(e.target.checked)}
+                  />
+                  Jotto+ (also show letters in the right position)
+                </label>
+              </div>
+              <div>
+                <label className="flex items-center gap-2 text-sm font-medium">
+                  <input
+                    type="checkbox"
+                    checked={hints}
+                    onChange={(e) => setHints(e.target.checked)}
+                  />
+                  Allow hints ({DEFAULT_SETTINGS.scoring.hintPenalty} points each)
+                </label>
+              </div>
+              <Button
+                onClick={() => startGame(settings)}
+                className="w-full"
+                size="lg"
+                disabled={isStarting}
+              >
+                {isStarting ? 'Picking a word...' : 'Start Practice'}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </>
+    )
+  }
+
+  const isFinished = gameState.status === 'finished'
+
+  return (
+    <>
+      <GameInstructions settings={gameState.settings} />
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <Button variant="outline" onClick={endGame}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+
+          <div className="text-center">
+            <h1 className="text-xl font-bold">Solo Practice</h1>
+            <p className="text-sm text-muted-foreground">
+              {gameState.settings.wordLength}-letter word
+            </p>
+          </div>
+
+          <Button variant="outline" onClick={() => startGame(gameState.settings)} disabled={isStarting}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            New Word
+          </Button>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <div>
+            <GameBoard
+              guesses={currentPlayer.guesses}
+              onGuess={makeGuess}
+              settings={gameState.settings}
+              isGameFinished={isFinished}
+              timeElapsed={timeElapsed}
+              onHint={gameState.settings.hints ? requestHint : undefined}
+              hint={hint}
+            />
+          </div>
+
+          <div className="space-y-6">
+            {isFinished && (
+              <Card className="border-green-200 bg-green-50 dark:border-green-800 dark:bg-green-950">
+                <CardContent className="py-4 text-center space-y-2 text-green-800 dark:text-green-200">
+                  <p className="font-medium">
+                    🎉 You found <span className="font-mono tracking-widest">{gameState.hostWord}</span> in{' '}
+                    {currentPlayer.guesses.length} guesses
+                    and {Math.floor(currentPlayer.timeUsed / 60)}:{(currentPlayer.timeUsed % 60).toString().padStart(2, '0')}!
+                  </p>
+                  {currentPlayer.score && (
+                    <p className="text-sm">
+                      Score: {currentPlayer.score.points} points ({describeScore(currentPlayer.score)})
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {isFinished && (
+              <SolverAnalysis gameState={gameView} player={currentPlayer} />
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
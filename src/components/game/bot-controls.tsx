@@ -0,0 +1,41 @@
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { BotLevel } from '@/lib/game-logic'
+import { BOT_LEVELS } from '@/lib/bots'
+import { Bot } from 'lucide-react'
+
+interface BotControlsProps {
+  onAddBot: (level: BotLevel) => void
+}
+
+// Host only: fill out the game with computer players
+export function BotControls({ onAddBot }: BotControlsProps) {
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bot className="h-5 w-5" />
+          Add a Bot
+        </CardTitle>
+        <CardDescription>
+          Bots run in your browser and play by the same rules as everyone else
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {BOT_LEVELS.map(({ level, label, description }) => (
+          <Button
+            key={level}
+            variant="outline"
+            className="w-full h-auto py-2 flex-col items-start"
+            onClick={() => onAddBot(level)}
+          >
+            <span className="font-medium">{label}</span>
+            <span className="text-xs text-muted-foreground font-normal">{description}</span>
+          </Button>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
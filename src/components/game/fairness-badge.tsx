@@ -0,0 +1,31 @@
+'use client'
+
+import { ShieldAlert, ShieldCheck } from 'lucide-react'
+import { FairnessResult } from '@/lib/commitment'
+
+interface FairnessBadgeProps {
+  fairness: FairnessResult
+}
+
+export function FairnessBadge({ fairness }: FairnessBadgeProps) {
+  if (fairness.status === 'verified') {
+    return (
+      <div className="inline-flex items-center gap-1 rounded-full border border-green-200 bg-green-50 px-3 py-1 text-sm font-medium text-green-800 dark:border-green-800 dark:bg-green-950 dark:text-green-200">
+        <ShieldCheck className="h-4 w-4" />
+        Verified fair
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="inline-flex items-center gap-1 rounded-full border border-red-200 bg-red-50 px-3 py-1 text-sm font-medium text-red-800 dark:border-red-800 dark:bg-red-950 dark:text-red-200">
+        <ShieldAlert className="h-4 w-4" />
+        Tampered
+      </div>
+      {fairness.reason && (
+        <p className="text-xs text-red-700 dark:text-red-300">{fairness.reason}</p>
+      )}
+    </div>
+  )
+}
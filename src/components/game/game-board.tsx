@@ -3,23 +3,71 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
-import { useState } from 'react'
-import { Guess } from '@/lib/game-logic'
+import { useEffect, useState } from 'react'
+import { GameSettings, Guess } from '@/lib/game-logic'
+import { checkWord, loadDictionary } from '@/lib/dictionary'
+import { useToast } from '@/hooks/use-toast'
+import { Hint } from '@/lib/solver'
+import { Lightbulb } from 'lucide-react'
 
 interface GameBoardProps {
   guesses: Guess[]
   onGuess: (word: string) => void
+  settings: GameSettings
   isGameFinished: boolean
   timeElapsed: number
+  // Classic games: whose word we're after and whether we may guess right now
+  turnNotice?: string
+  isMyTurn?: boolean
+  // Shown when the host allows hints
+  onHint?: () => void
+  hint?: Hint | null
 }
 
-export function GameBoard({ guesses, onGuess, isGameFinished, timeElapsed }: GameBoardProps) {
+export function GameBoard({
+  guesses,
+  onGuess,
+  settings,
+  isGameFinished,
+  timeElapsed,
+  turnNotice,
+  isMyTurn = true,
+  onHint,
+  hint
+}: GameBoardProps) {
   const [currentGuess, setCurrentGuess] = useState('')
+  const [guessError, setGuessError] = useState<string | null>(null)
+  const { toast } = useToast()
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Fetch the word list before the first guess rather than during it
+  useEffect(() => {
+    if (settings.wordRule === 'dictionary' || onHint) {
+      loadDictionary().catch(error => console.error('Failed to load dictionary:', error))
+    }
+  }, [settings.wordRule, onHint])
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (currentGuess.length === 5 && !isGameFinished) {
-      onGuess(currentGuess.toUpperCase())
+    if (currentGuess.length === settings.wordLength && !isGameFinished && isMyTurn) {
+      const word = currentGuess.toUpperCase()
+      let wordError: string | null
+      try {
+        wordError = await checkWord(word, settings)
+      } catch (error) {
+        console.error('Failed to load dictionary:', error)
+        toast({
+          title: "Error",
+          description: "Couldn't load the word list. Please try again.",
+          variant: "destructive"
+        })
+        return
+      }
+      if (wordError) {
+        setGuessError(wordError)
+        return
+      }
+
+      onGuess(word)
       setCurrentGuess('')
     }
   }
@@ -35,30 +83,65 @@ export function GameBoard({ guesses, onGuess, isGameFinished, timeElapsed }: Gam
       <Card>
         <CardHeader>
           <CardTitle className="text-center text-xl">
-            Time: {formatTime(timeElapsed)}
+            {settings.timeLimit
+              ? `Time left: ${formatTime(Math.max(0, settings.timeLimit - timeElapsed))}`
+              : `Time: ${formatTime(timeElapsed)}`}
           </CardTitle>
           <p className="text-center text-sm text-muted-foreground">
-            Guesses: {guesses.length}
+            {settings.maxGuesses
+              ? `Guesses: ${guesses.length} of ${settings.maxGuesses}`
+              : `Guesses: ${guesses.length}`}
           </p>
+          {turnNotice && (
+            <p className="text-center text-sm font-medium">{turnNotice}</p>
+          )}
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
             <Input
               type="text"
-              placeholder="Enter 5-letter word"
+              placeholder={`Enter ${settings.wordLength}-letter word`}
               value={currentGuess}
-              onChange={(e) => setCurrentGuess(e.target.value.toUpperCase())}
-              maxLength={5}
-              disabled={isGameFinished}
+              onChange={(e) => {
+                setCurrentGuess(e.target.value.toUpperCase())
+                setGuessError(null)
+              }}
+              maxLength={settings.wordLength}
+              disabled={isGameFinished || !isMyTurn}
               className="text-center text-lg font-mono tracking-widest"
             />
+            {guessError && (
+              <p className="text-sm text-destructive text-center">{guessError}</p>
+            )}
             <Button 
               type="submit" 
               className="w-full"
-              disabled={currentGuess.length !== 5 || isGameFinished}
+              disabled={currentGuess.length !== settings.wordLength || isGameFinished || !isMyTurn}
             >
               Guess
             </Button>
+            {onHint && (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={onHint}
+                disabled={isGameFinished}
+              >
+                <Lightbulb className="h-4 w-4 mr-2" />
+                Hint (-{settings.scoring.hintPenalty} points)
+              </Button>
+            )}
+            {hint && hint.afterGuesses === guesses.length && (
+              <p className="text-sm text-center text-muted-foreground">
+                {hint.candidates === 0
+                  ? 'No dictionary word fits your results. The secret may not be a real word.'
+                  : `${hint.candidates} possible word${hint.candidates === 1 ? '' : 's'} left. `}
+                {hint.suggestion && (
+                  <>Try <span className="font-mono font-semibold text-foreground">{hint.suggestion}</span></>
+                )}
+              </p>
+            )}
           </form>
         </CardContent>
       </Card>
@@ -80,8 +163,15 @@ export function GameBoard({ guesses, onGuess, isGameFinished, timeElapsed }: Gam
                   className="flex justify-between items-center p-2 rounded bg-muted"
                 >
                   <span className="font-mono text-lg">{guess.word}</span>
-                  <span className="font-semibold text-primary">
-                    {guess.commonLetters} common
+                  <span className="text-right">
+                    <span className="font-semibold text-primary">
+                      {guess.commonLetters} common
+                    </span>
+                    {guess.exactPositions !== undefined && (
+                      <span className="block text-xs text-muted-foreground">
+                        {guess.exactPositions} in place
+                      </span>
+                    )}
                   </span>
                 </div>
               ))
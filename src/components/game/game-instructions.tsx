@@ -4,10 +4,50 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { HelpCircle, X } from 'lucide-react'
 import { useState } from 'react'
+import {
+  DEFAULT_SETTINGS,
+  GameSettings,
+  MAX_WORD_LENGTH,
+  MIN_WORD_LENGTH,
+  calculateCommonLetters,
+  getGuessAllowance,
+  getTimeAllowance,
+  isMatch
+} from '@/lib/game-logic'
 
-export function GameInstructions() {
+// A near miss for each word length, to show how letters are counted
+const EXAMPLES: Record<number, { secret: string; guess: string }> = {
+  4: { secret: 'LAKE', guess: 'CAKE' },
+  5: { secret: 'HOUSE', guess: 'MOUSE' },
+  6: { secret: 'PLANET', guess: 'PLANTS' },
+  7: { secret: 'GARDENS', guess: 'DANGERS' }
+}
+
+interface GameInstructionsProps {
+  // Rules of the current game; without them the instructions cover every option
+  settings?: GameSettings
+}
+
+export function GameInstructions({ settings }: GameInstructionsProps) {
   const [isOpen, setIsOpen] = useState(false)
 
+  const wordDescription = settings
+    ? `${settings.wordLength}-letter word`
+    : `word of ${MIN_WORD_LENGTH} to ${MAX_WORD_LENGTH} letters`
+  const example = EXAMPLES[settings?.wordLength ?? 5]
+  const { wordLength, scoring } = settings ?? DEFAULT_SETTINGS
+  const spell = (word: string) => word.split('').join(', ')
+
+  const distinct = settings?.distinctLetters
+  let distinctRule: string | null = null
+  if (distinct?.secret && distinct.guesses) {
+    distinctRule = 'Neither secret words nor guesses may use a letter twice, so each common letter is a different letter of the secret word.'
+  } else if (distinct?.secret) {
+    distinctRule = 'Secret words never use a letter twice. Guesses may, but a repeated letter in a guess only counts once.'
+  } else if (distinct?.guesses) {
+    distinctRule = 'Guesses may not use a letter twice, so each letter you guess counts at most once.'
+  }
+
   return (
     <>
       <Button 
@@ -42,35 +82,109 @@ export function GameInstructions() {
               <div>
                 <h4 className="font-semibold mb-2">🎯 Objective</h4>
                 <p className="text-sm text-muted-foreground">
-                  Guess the secret 5-letter word faster than other players!
+                  {settings?.mode === 'classic'
+                    ? `Find your opponent's secret ${wordDescription} before anyone finds yours!`
+                    : `Guess the secret ${wordDescription} faster than other players!`}
                 </p>
               </div>
               
-              <div>
-                <h4 className="font-semibold mb-2">🎮 How to Play</h4>
-                <ul className="text-sm text-muted-foreground space-y-1 list-disc list-inside">
-                  <li>The host creates a game with a secret 5-letter word</li>
-                  <li>Players join using the game ID</li>
-                  <li>Make guesses by entering 5-letter words</li>
-                  <li>Each guess shows how many letters match the secret word</li>
-                  <li>Use the clues to narrow down the answer</li>
-                </ul>
-              </div>
+              {settings?.mode !== 'classic' && (
+                <div>
+                  <h4 className="font-semibold mb-2">🎮 How to Play</h4>
+                  <ul className="text-sm text-muted-foreground space-y-1 list-disc list-inside">
+                    <li>The host creates a game with a secret {wordDescription}</li>
+                    <li>Players join using the game ID</li>
+                    <li>Make guesses by entering words of the same length</li>
+                    <li>Each guess shows how many letters match the secret word</li>
+                    <li>Use the clues to narrow down the answer</li>
+                  </ul>
+                </div>
+              )}
+
+              {settings?.mode !== 'race' && (
+                <div>
+                  <h4 className="font-semibold mb-2">⚔️ Classic Mode</h4>
+                  <ul className="text-sm text-muted-foreground space-y-1 list-disc list-inside">
+                    <li>Every player picks their own secret word when they join</li>
+                    <li>Players take turns, one guess per turn</li>
+                    <li>You guess the word of the player after you in turn order</li>
+                    <li>The first player to find their opponent&apos;s word wins</li>
+                  </ul>
+                </div>
+              )}
+
+              {settings?.positionalFeedback && (
+                <div>
+                  <h4 className="font-semibold mb-2">➕ Jotto+</h4>
+                  <p className="text-sm text-muted-foreground">
+                    Each guess also shows how many of its letters are in the same position as in the secret
+                    word, without saying which ones.
+                  </p>
+                </div>
+              )}
+
+              {settings?.hints && (
+                <div>
+                  <h4 className="font-semibold mb-2">💡 Hints</h4>
+                  <p className="text-sm text-muted-foreground">
+                    The hint button shows how many words still fit your results and suggests the guess that
+                    narrows them down most. Each hint costs {scoring.hintPenalty} points.
+                  </p>
+                </div>
+              )}
+
+              {distinctRule && (
+                <div>
+                  <h4 className="font-semibold mb-2">🔤 No Repeated Letters</h4>
+                  <p className="text-sm text-muted-foreground">{distinctRule}</p>
+                </div>
+              )}
+
+              {settings && isMatch(settings) && (
+                <div>
+                  <h4 className="font-semibold mb-2">🔁 Match</h4>
+                  <p className="text-sm text-muted-foreground">
+                    This match has {settings.rounds} rounds. Each round a different player sets the word and sits
+                    out while everyone else races to find it. Points from every round add up, and the most points
+                    at the end wins the match.
+                  </p>
+                </div>
+              )}
+
+              {(settings?.timeLimit || settings?.maxGuesses) && (
+                <div>
+                  <h4 className="font-semibold mb-2">⏱️ Limits</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {settings.timeLimit && `The game ends after ${settings.timeLimit / 60} minutes. `}
+                    {settings.maxGuesses && `Each player gets ${settings.maxGuesses} guesses. `}
+                    Run out and you&apos;re out; the word is revealed when the game ends.
+                  </p>
+                </div>
+              )}
 
               <div>
                 <h4 className="font-semibold mb-2">🏆 Scoring</h4>
                 <p className="text-sm text-muted-foreground">
-                  The fastest player with the fewest guesses wins!
+                  Find the word to score {scoring.timeWeight} point{scoring.timeWeight === 1 ? '' : 's'} for every
+                  second under {getTimeAllowance(wordLength) / 60} minutes and {scoring.guessWeight} for every guess
+                  under {getGuessAllowance(wordLength)}.{' '}
+                  {scoring.dnf === 'partial'
+                    ? `If you don't find it, you still get ${scoring.guessWeight} for each letter your closest guess had in common.`
+                    : "If you don't find it, you score nothing."}
+                  {' '}The most points wins!
                 </p>
               </div>
 
               <div>
                 <h4 className="font-semibold mb-2">💡 Example</h4>
                 <div className="bg-muted p-3 rounded-md text-sm">
-                  <p className="font-mono">Secret word: HOUSE</p>
-                  <p className="font-mono">Your guess: MOUSE → 4 common letters</p>
+                  <p className="font-mono">Secret word: {example.secret}</p>
+                  <p className="font-mono">
+                    Your guess: {example.guess} → {calculateCommonLetters(example.secret, example.guess)} common letters
+                  </p>
                   <p className="text-xs text-muted-foreground mt-1">
-                    The letters M, O, U, S, E share 4 letters with H, O, U, S, E
+                    The letters {spell(example.guess)} share {calculateCommonLetters(example.secret, example.guess)} letters
+                    with {spell(example.secret)}
                   </p>
                 </div>
               </div>
@@ -0,0 +1,75 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { LiveGuesses } from '@/components/game/live-guesses'
+import { GameView } from '@/lib/game-logic'
+import { Crown, Eye, EyeOff, Flag, Pause, Play } from 'lucide-react'
+
+interface GameMasterDashboardProps {
+  // The host's own state, so it includes the word
+  gameState: GameView
+  timeElapsed: number
+  onPause: () => void
+  onResume: () => void
+  onReveal: () => void
+}
+
+// What a host who isn't playing sees: everyone's guesses as they come in, how
+// close each player is, and the controls to pause or end the game. It's made
+// to go up on a projector, so the word stays hidden until asked for.
+export function GameMasterDashboard({ gameState, timeElapsed, onPause, onResume, onReveal }: GameMasterDashboardProps) {
+  const [showWord, setShowWord] = useState(false)
+
+  const isPlaying = gameState.status === 'playing'
+  const isPaused = !!gameState.pausedAt
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60)
+    const secs = seconds % 60
+    return `${mins}:${secs.toString().padStart(2, '0')}`
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Crown className="h-5 w-5" />
+          Game Master
+        </CardTitle>
+        <CardDescription>
+          {isPaused ? 'Paused' : isPlaying ? `Time: ${formatTime(timeElapsed)}` : 'Every guess shows up here as it comes in'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between p-2 rounded bg-muted text-sm">
+          <span>
+            Secret word:{' '}
+            <span className="font-mono tracking-widest font-medium">
+              {showWord ? gameState.hostWord : '•'.repeat(gameState.settings.wordLength)}
+            </span>
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => setShowWord(!showWord)} title={showWord ? 'Hide word' : 'Show word'}>
+            {showWord ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        {isPlaying && (
+          <div className="flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={isPaused ? onResume : onPause}>
+              {isPaused ? <Play className="h-4 w-4 mr-2" /> : <Pause className="h-4 w-4 mr-2" />}
+              {isPaused ? 'Resume' : 'Pause'}
+            </Button>
+            <Button variant="destructive" className="flex-1" onClick={onReveal}>
+              <Flag className="h-4 w-4 mr-2" />
+              Reveal Word
+            </Button>
+          </div>
+        )}
+
+        <LiveGuesses gameState={gameState} />
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,18 +1,25 @@
 'use client'
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Player } from '@/lib/game-logic'
-import { Trophy, Clock, Target } from 'lucide-react'
+import { Player, describeScore } from '@/lib/game-logic'
+import { getBotLabel } from '@/lib/bots'
+import { Trophy, Clock, Target, Bot, Star } from 'lucide-react'
 
 interface LeaderboardProps {
   players: Player[]
+  // Match rounds: the player who set the word and isn't guessing
+  setterId?: string
 }
 
-export function Leaderboard({ players }: LeaderboardProps) {
+export function Leaderboard({ players, setterId }: LeaderboardProps) {
   const sortedPlayers = [...players].sort((a, b) => {
-    // Finished players first, then by time, then by guess count
+    // Finished players first, then by points, then by time, then by guess count
     if (a.status === 'finished' && b.status !== 'finished') return -1
     if (b.status === 'finished' && a.status !== 'finished') return 1
+
+    const pointsA = a.score?.points ?? 0
+    const pointsB = b.score?.points ?? 0
+    if (pointsA !== pointsB) return pointsB - pointsA
     
     if (a.status === 'finished' && b.status === 'finished') {
       if (a.timeUsed !== b.timeUsed) return a.timeUsed - b.timeUsed
@@ -57,15 +64,41 @@ export function Leaderboard({ players }: LeaderboardProps) {
                     #{index + 1}
                   </div>
                   <div>
-                    <p className="font-medium">{player.name}</p>
+                    <p className="font-medium flex items-center gap-2">
+                      <span
+                        className={`h-2 w-2 rounded-full ${
+                          player.status === 'disconnected' ? 'bg-gray-400' : 'bg-green-500'
+                        }`}
+                        title={player.status === 'disconnected' ? 'Offline' : 'Online'}
+                      />
+                      {player.name}
+                      {player.bot && (
+                        <span
+                          className="inline-flex items-center gap-1 rounded bg-primary/10 px-1.5 py-0.5 text-xs text-primary"
+                          title={`${getBotLabel(player.bot)} computer player`}
+                        >
+                          <Bot className="h-3 w-3" />
+                          Bot
+                        </span>
+                      )}
+                    </p>
                     <p className="text-xs text-muted-foreground">
-                      {player.status === 'finished' ? 'Finished' : 
-                       player.status === 'playing' ? 'Playing' : 'Disconnected'}
+                      {player.id === setterId ? 'Set the word' :
+                       player.status === 'finished' ? 'Finished' : 
+                       player.status === 'playing' ? 'Playing' :
+                       player.status === 'out' ? 'Out' : 'Disconnected'}
                     </p>
+                    {player.score && (
+                      <p className="text-xs text-muted-foreground">{describeScore(player.score)}</p>
+                    )}
                   </div>
                 </div>
                 
                 <div className="flex items-center gap-4 text-sm">
+                  <div className="flex items-center gap-1 font-semibold" title="Points">
+                    <Star className="h-3 w-3" />
+                    <span>{player.score?.points ?? 0}</span>
+                  </div>
                   <div className="flex items-center gap-1">
                     <Clock className="h-3 w-3" />
                     <span>{formatTime(player.timeUsed)}</span>
@@ -0,0 +1,71 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { GameView, describeGuessResult, isGameMaster, isSetter } from '@/lib/game-logic'
+import { loadDictionary } from '@/lib/dictionary'
+import { filterCandidates, getSecretPool } from '@/lib/solver'
+
+interface LiveGuessesProps {
+  gameState: GameView
+}
+
+// Every player's guesses as they come in, with how many words still fit them
+export function LiveGuesses({ gameState }: LiveGuessesProps) {
+  const [secretPool, setSecretPool] = useState<string[] | null>(null)
+
+  const { settings } = gameState
+  useEffect(() => {
+    let cancelled = false
+    loadDictionary().then(dictionary => {
+      if (!cancelled) setSecretPool(getSecretPool(dictionary.all, settings))
+    }).catch(error => console.error('Failed to load dictionary:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [settings])
+
+  const players = gameState.players.filter(p => !isGameMaster(gameState, p.id))
+  if (players.length === 0) {
+    return <p className="text-muted-foreground text-center py-4">No players yet</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {players.map(player => {
+        // Classic players only narrow down the word they're after now
+        const lastGuess = player.guesses[player.guesses.length - 1]
+        const guesses = player.guesses.filter(guess => guess.targetId === lastGuess?.targetId)
+        const candidates = secretPool && filterCandidates(secretPool, guesses).length
+
+        return (
+          <div key={player.id} className="p-3 rounded-lg border space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{player.name}</span>
+              <span className="text-muted-foreground">
+                {isSetter(gameState, player.id) ? 'Set the word' : (
+                  <>
+                    {player.guesses.length} guesses
+                    {candidates !== null && ` · ${candidates} word${candidates === 1 ? '' : 's'} left`}
+                    {player.status === 'finished' && ' · found it!'}
+                    {player.status === 'out' && ' · out'}
+                  </>
+                )}
+              </span>
+            </div>
+            {player.guesses.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {player.guesses.map((guess, index) => (
+                  <span key={index} className="rounded bg-muted px-2 py-0.5 text-xs">
+                    <span className="font-mono font-semibold">{guess.word}</span>{' '}
+                    <span className="text-muted-foreground">{describeGuessResult(guess)}</span>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
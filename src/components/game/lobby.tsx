@@ -0,0 +1,179 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { SettingsForm } from '@/components/game/settings-form'
+import { GameSettings, GameView, getStartError, isGameMaster } from '@/lib/game-logic'
+import { Ban, Play, Settings, UserX, Users } from 'lucide-react'
+
+interface LobbyProps {
+  gameState: GameView
+  // Spectators have no player of their own
+  currentPlayerId?: string
+  isHost: boolean
+  // Seconds until play begins, once the host has pressed Start
+  countdown: number | null
+  onStart: () => void
+  onKick: (playerId: string, ban: boolean) => void
+  onUnban: (name: string) => void
+  // Resolves to whether the new settings were accepted
+  onUpdateSettings: (settings: GameSettings, hostWord: string) => Promise<boolean>
+}
+
+// The game before it starts: who's in, and for the host, the controls to
+// tidy up the player list, adjust the rules and start everyone together
+export function Lobby({
+  gameState,
+  currentPlayerId,
+  isHost,
+  countdown,
+  onStart,
+  onKick,
+  onUnban,
+  onUpdateSettings
+}: LobbyProps) {
+  const [draft, setDraft] = useState<{ settings: GameSettings; hostWord: string } | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { classic, match } = gameState
+  const startError = getStartError(gameState)
+  // A match's rules are fixed once its first round has been played
+  const canEditSettings = !match || match.round === 1
+
+  const saveSettings = async () => {
+    if (!draft) return
+
+    setIsSaving(true)
+    const saved = await onUpdateSettings(draft.settings, draft.hostWord)
+    setIsSaving(false)
+    if (saved) setDraft(null)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          {match && match.round > 1 ? `Round ${match.round} of ${gameState.settings.rounds}` : 'Lobby'}
+        </CardTitle>
+        <CardDescription>
+          {isHost
+            ? 'Start the game once everyone is here. The clock starts for all players at the same time.'
+            : 'Waiting for the host to start the game. Share the game ID to invite more players!'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {countdown !== null && (
+          <p className="text-center text-4xl font-bold">Starting in {countdown}...</p>
+        )}
+
+        <div className="space-y-2">
+          {gameState.players.map(player => (
+            <div key={player.id} className="flex items-center justify-between p-2 rounded bg-muted text-sm">
+              <span>
+                <span className="font-medium">{player.name}</span>
+                {player.id === gameState.hostId && (
+                  <span className="text-muted-foreground">
+                    {isGameMaster(gameState, player.id) ? ' (game master)' : ' (host)'}
+                  </span>
+                )}
+                {player.id === currentPlayerId && <span className="text-muted-foreground"> (you)</span>}
+                {classic && !classic.turnOrder.includes(player.id) && (
+                  <span className="text-muted-foreground"> · picking a word</span>
+                )}
+                {match?.setterId === player.id && (
+                  <span className="text-muted-foreground">
+                    {match.wordSet ? " · set this round's word" : ' · picking a word'}
+                  </span>
+                )}
+              </span>
+              {isHost && player.id !== gameState.hostId && countdown === null && (
+                <span className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => onKick(player.id, false)} title="Remove from the lobby">
+                    <UserX className="h-4 w-4" />
+                  </Button>
+                  {!player.bot && (
+                    <Button variant="ghost" size="sm" onClick={() => onKick(player.id, true)} title="Remove and ban this name">
+                      <Ban className="h-4 w-4" />
+                    </Button>
+                  )}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {isHost && gameState.bannedNames.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Banned</p>
+            {gameState.bannedNames.map(name => (
+              <div key={name} className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>{name}</span>
+                <Button variant="link" size="sm" onClick={() => onUnban(name)}>
+                  Unban
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isHost && draft && (
+          <div className="space-y-4 border-t pt-4">
+            <div>
+              <label className="text-sm font-medium">Secret Word ({draft.settings.wordLength} letters)</label>
+              <Input
+                value={draft.hostWord}
+                onChange={(e) => setDraft({ ...draft, hostWord: e.target.value.toUpperCase() })}
+                maxLength={draft.settings.wordLength}
+                className="font-mono tracking-widest"
+              />
+            </div>
+            <SettingsForm
+              settings={draft.settings}
+              onChange={(settings) => setDraft({
+                settings,
+                hostWord: draft.hostWord.slice(0, settings.wordLength)
+              })}
+              showMode={false}
+            />
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button className="flex-1" onClick={saveSettings} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Settings'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isHost && !draft && (
+          <div className="space-y-2">
+            {startError && countdown === null && (
+              <p className="text-sm text-muted-foreground text-center">{startError}</p>
+            )}
+            <div className="flex gap-2">
+              {canEditSettings && (
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => setDraft({ settings: gameState.settings, hostWord: gameState.hostWord ?? '' })}
+                  disabled={countdown !== null}
+                >
+                  <Settings className="h-4 w-4 mr-2" />
+                  Edit Settings
+                </Button>
+              )}
+              <Button className="flex-1" onClick={onStart} disabled={!!startError || countdown !== null}>
+                <Play className="h-4 w-4 mr-2" />
+                Start Game
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,52 @@
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { GameView, getMatchStandings } from '@/lib/game-logic'
+import { Medal } from 'lucide-react'
+
+interface MatchStandingsProps {
+  gameState: GameView
+}
+
+// Points across every round of a match, next to the leaderboard for this one
+export function MatchStandings({ gameState }: MatchStandingsProps) {
+  const { match, settings } = gameState
+  if (!match) return null
+
+  const standings = getMatchStandings(gameState)
+  const isOver = gameState.status === 'finished' && match.round >= (settings.rounds ?? 1)
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Medal className="h-5 w-5" />
+          Match Standings
+        </CardTitle>
+        <CardDescription>
+          {isOver ? 'Final standings' : `Round ${match.round} of ${settings.rounds}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {standings.map(({ player, points }, index) => (
+            <div
+              key={player.id}
+              className={`flex items-center justify-between p-2 rounded text-sm ${
+                isOver && index === 0
+                  ? 'bg-yellow-50 border border-yellow-200 dark:bg-yellow-950 dark:border-yellow-800'
+                  : 'bg-muted'
+              }`}
+            >
+              <span className="flex items-center gap-3">
+                <span className="font-semibold w-6">#{index + 1}</span>
+                <span className="font-medium">{player.name}</span>
+              </span>
+              <span className="font-semibold">{points} points</span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
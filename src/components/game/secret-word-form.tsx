@@ -0,0 +1,81 @@
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { useState } from 'react'
+import { GameSettings } from '@/lib/game-logic'
+import { checkWord } from '@/lib/dictionary'
+import { KeyRound } from 'lucide-react'
+
+interface SecretWordFormProps {
+  settings: GameSettings
+  onSubmit: (word: string) => void
+  // Who will be looking for the word
+  description?: string
+}
+
+// Classic games: each player picks the word their opponent has to find.
+// Matches: each round's setter picks the word everyone else races for.
+export function SecretWordForm({
+  settings,
+  onSubmit,
+  description = 'Another player will try to find this'
+}: SecretWordFormProps) {
+  const [secretWord, setSecretWord] = useState('')
+  const [wordError, setWordError] = useState<string | null>(null)
+  const [isSubmitted, setIsSubmitted] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const word = secretWord.toUpperCase()
+    const error = await checkWord(word, settings, 'secret')
+    if (error) {
+      setWordError(error)
+      return
+    }
+
+    onSubmit(word)
+    setIsSubmitted(true)
+  }
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Pick Your Secret Word
+        </CardTitle>
+        <CardDescription>
+          {description} {settings.wordLength}-letter word. Only the host sees it until the game ends.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            type="text"
+            placeholder="Enter secret word"
+            value={secretWord}
+            onChange={(e) => {
+              setSecretWord(e.target.value.toUpperCase())
+              setWordError(null)
+              setIsSubmitted(false)
+            }}
+            maxLength={settings.wordLength}
+            className="text-center text-lg font-mono tracking-widest"
+          />
+          {wordError && (
+            <p className="text-sm text-destructive text-center">{wordError}</p>
+          )}
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={secretWord.length !== settings.wordLength || isSubmitted}
+          >
+            {isSubmitted ? 'Waiting for the host...' : 'Set Secret Word'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,297 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { GameSettings, WORD_LENGTHS } from '@/lib/game-logic'
+
+interface SettingsFormProps {
+  settings: GameSettings
+  onChange: (settings: GameSettings) => void
+  // The mode can only be picked when creating a game
+  showMode?: boolean
+}
+
+// The rules a host picks for a game, when creating it and again in the lobby
+export function SettingsForm({ settings, onChange, showMode = true }: SettingsFormProps) {
+  const {
+    mode,
+    wordRule,
+    wordLength,
+    distinctLetters,
+    positionalFeedback,
+    hints,
+    scoring,
+    timeLimit,
+    maxGuesses,
+    rounds,
+    gameMaster,
+    spectatorDelay
+  } = settings
+
+  const update = (changes: Partial<GameSettings>) => onChange({ ...settings, ...changes })
+
+  // Weights and penalties can't go negative
+  const setScoringValue = (key: 'timeWeight' | 'guessWeight' | 'hintPenalty', value: string) => {
+    update({ scoring: { ...scoring, [key]: Math.max(0, Number(value) || 0) } })
+  }
+
+  // A blank or zero limit means no limit
+  const toLimit = (value: string, scale = 1) => {
+    const limit = Math.floor(Number(value) * scale)
+    return limit > 0 ? limit : undefined
+  }
+
+  return (
+    <div className="space-y-4">
+      {showMode && (
+        <div>
+          <label className="text-sm font-medium">Game Mode</label>
+          <div className="flex gap-2 mt-1">
+            <Button
+              type="button"
+              variant={mode === 'race' ? 'default' : 'outline'}
+              className="flex-1"
+              onClick={() => update({ mode: 'race' })}
+            >
+              Race
+            </Button>
+            <Button
+              type="button"
+              variant={mode === 'classic' ? 'default' : 'outline'}
+              className="flex-1"
+              onClick={() => update({ mode: 'classic' })}
+            >
+              Classic
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {mode === 'race'
+              ? 'Everyone races to find your secret word'
+              : 'Every player picks a secret word and players take turns guessing each other\'s'}
+          </p>
+        </div>
+      )}
+      {mode === 'race' && (
+        <div>
+          <label className="text-sm font-medium">Rounds</label>
+          <Input
+            type="number"
+            min={1}
+            placeholder="1"
+            value={rounds ?? ''}
+            onChange={(e) => update({ rounds: toLimit(e.target.value) })}
+            className="mt-1"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            {(rounds ?? 1) > 1
+              ? 'Each round a different player sets the word and sits out. Points add up across the match.'
+              : 'One word, set by you'}
+          </p>
+        </div>
+      )}
+      {mode === 'race' && (
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <input
+              type="checkbox"
+              checked={!!gameMaster}
+              onChange={(e) => update({ gameMaster: e.target.checked || undefined })}
+            />
+            Game master (run the game without playing)
+          </label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Follow every guess live and pause or end the game, e.g. on a projector for a team event
+          </p>
+        </div>
+      )}
+      <div>
+        <label className="text-sm font-medium">Word Length</label>
+        <div className="flex gap-2 mt-1">
+          {WORD_LENGTHS.map(length => (
+            <Button
+              key={length}
+              type="button"
+              variant={wordLength === length ? 'default' : 'outline'}
+              className="flex-1"
+              onClick={() => update({ wordLength: length })}
+            >
+              {length}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <label className="text-sm font-medium">Allowed Words</label>
+        <div className="flex gap-2 mt-1">
+          <Button
+            type="button"
+            variant={wordRule === 'dictionary' ? 'default' : 'outline'}
+            className="flex-1"
+            onClick={() => update({ wordRule: 'dictionary' })}
+          >
+            Dictionary Only
+          </Button>
+          <Button
+            type="button"
+            variant={wordRule === 'any' ? 'default' : 'outline'}
+            className="flex-1"
+            onClick={() => update({ wordRule: 'any' })}
+          >
+            Anything Goes
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          {wordRule === 'dictionary'
+            ? 'The secret word and every guess must be real English words'
+            : `Any ${wordLength} letters are accepted, real word or not`}
+        </p>
+      </div>
+      <div>
+        <label className="text-sm font-medium">No Repeated Letters</label>
+        <div className="flex gap-4 mt-1">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={distinctLetters.secret}
+              onChange={(e) => update({ distinctLetters: { ...distinctLetters, secret: e.target.checked } })}
+            />
+            In secret words
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={distinctLetters.guesses}
+              onChange={(e) => update({ distinctLetters: { ...distinctLetters, guesses: e.target.checked } })}
+            />
+            In guesses
+          </label>
+        </div>
+      </div>
+      <div>
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            checked={positionalFeedback}
+            onChange={(e) => update({ positionalFeedback: e.target.checked })}
+          />
+          Jotto+ (also show letters in the right position)
+        </label>
+        <p className="text-xs text-muted-foreground mt-1">
+          An easier start for new players, without turning it into Wordle
+        </p>
+      </div>
+      <div>
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            checked={hints}
+            onChange={(e) => update({ hints: e.target.checked })}
+          />
+          Allow hints ({scoring.hintPenalty} points each)
+        </label>
+      </div>
+      <div>
+        <label className="text-sm font-medium">Limits</label>
+        <div className="grid grid-cols-2 gap-2 mt-1">
+          <label className="text-xs text-muted-foreground">
+            Time limit (minutes)
+            <Input
+              type="number"
+              min={1}
+              placeholder="None"
+              value={timeLimit ? timeLimit / 60 : ''}
+              onChange={(e) => update({ timeLimit: toLimit(e.target.value, 60) })}
+            />
+          </label>
+          <label className="text-xs text-muted-foreground">
+            Guesses per player
+            <Input
+              type="number"
+              min={1}
+              placeholder="None"
+              value={maxGuesses ?? ''}
+              onChange={(e) => update({ maxGuesses: toLimit(e.target.value) })}
+            />
+          </label>
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          Players who run out of time or guesses are out, and the game ends once nobody is left looking
+        </p>
+      </div>
+      <div>
+        <label className="text-xs text-muted-foreground">
+          Spectator delay (seconds)
+          <Input
+            type="number"
+            min={1}
+            placeholder="None"
+            value={spectatorDelay ?? ''}
+            onChange={(e) => update({ spectatorDelay: toLimit(e.target.value) })}
+          />
+        </label>
+        <p className="text-xs text-muted-foreground mt-1">
+          Spectators see each guess this long after it&apos;s made, so they can&apos;t coach the players
+        </p>
+      </div>
+      <div>
+        <label className="text-sm font-medium">Scoring</label>
+        <div className="grid grid-cols-3 gap-2 mt-1">
+          <label className="text-xs text-muted-foreground">
+            Points per second saved
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              value={scoring.timeWeight}
+              onChange={(e) => setScoringValue('timeWeight', e.target.value)}
+            />
+          </label>
+          <label className="text-xs text-muted-foreground">
+            Points per guess saved
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              value={scoring.guessWeight}
+              onChange={(e) => setScoringValue('guessWeight', e.target.value)}
+            />
+          </label>
+          <label className="text-xs text-muted-foreground">
+            Points per hint used
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              value={scoring.hintPenalty}
+              onChange={(e) => setScoringValue('hintPenalty', e.target.value)}
+              disabled={!hints}
+            />
+          </label>
+        </div>
+        <div className="flex gap-2 mt-2">
+          <Button
+            type="button"
+            variant={scoring.dnf === 'zero' ? 'default' : 'outline'}
+            className="flex-1"
+            onClick={() => update({ scoring: { ...scoring, dnf: 'zero' } })}
+          >
+            No Points
+          </Button>
+          <Button
+            type="button"
+            variant={scoring.dnf === 'partial' ? 'default' : 'outline'}
+            className="flex-1"
+            onClick={() => update({ scoring: { ...scoring, dnf: 'partial' } })}
+          >
+            Partial Credit
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          {scoring.dnf === 'zero'
+            ? "Players who don't find the word score nothing"
+            : "Players who don't find the word score for their closest guess's common letters"}
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useEffect, useState } from 'react'
+import { GameView, Player, getGuessSecret } from '@/lib/game-logic'
+import { loadDictionary } from '@/lib/dictionary'
+import { AnalysisStep, analyzeGuesses, findSolverPath, getGuessPool, getSecretPool } from '@/lib/solver'
+import { Route } from 'lucide-react'
+
+interface SolverAnalysisProps {
+  gameState: GameView
+  player: Player
+}
+
+interface Analysis {
+  secret: string
+  steps: AnalysisStep[]
+  solverPath: string[]
+}
+
+// Post-game look at a player's guesses next to what the solver would have done
+export function SolverAnalysis({ gameState, player }: SolverAnalysisProps) {
+  const [analysis, setAnalysis] = useState<Analysis | null>(null)
+
+  const lastGuess = player.guesses[player.guesses.length - 1]
+  const secret = lastGuess ? getGuessSecret(gameState, lastGuess) : undefined
+
+  useEffect(() => {
+    if (!lastGuess || !secret) return
+
+    let cancelled = false
+    loadDictionary().then(dictionary => {
+      if (cancelled) return
+
+      const { settings } = gameState
+      const secretPool = getSecretPool(dictionary.all, settings)
+      const guessPool = getGuessPool(dictionary.all, settings)
+      // Classic players only count guesses at the word they ended up after
+      const guesses = player.guesses.filter(guess => guess.targetId === lastGuess.targetId)
+
+      setAnalysis({
+        secret,
+        steps: analyzeGuesses(secretPool, guessPool, guesses, secret, settings),
+        solverPath: findSolverPath(secret, secretPool, guessPool, settings)
+      })
+    }).catch(error => console.error('Failed to analyze game:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [gameState, player, lastGuess, secret])
+
+  if (!secret || !analysis) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Route className="h-5 w-5" />
+          Optimal Path
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {analysis.steps.map((step, index) => (
+            <div key={index} className="flex justify-between items-center p-2 rounded bg-muted text-sm">
+              <div>
+                <span className="font-mono font-semibold">{step.guess.word}</span>
+                <span className="text-muted-foreground">
+                  {' '}{step.candidatesBefore} → {step.candidatesAfter} words ({step.information.toFixed(1)} bits)
+                </span>
+              </div>
+              {step.best && step.best.word !== step.guess.word && (
+                <span className="text-xs text-muted-foreground">
+                  Best: <span className="font-mono">{step.best.word}</span> ({step.best.information.toFixed(1)} bits)
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {analysis.solverPath.length > 0 ? (
+            <>
+              The solver finds {analysis.secret} in {analysis.solverPath.length} guesses:{' '}
+              <span className="font-mono">{analysis.solverPath.join(' → ')}</span>
+            </>
+          ) : (
+            `${analysis.secret} isn't in the dictionary, so the solver can't find it.`
+          )}
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,54 @@
+'use client'
+
+import QRCode from 'react-qr-code'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Copy } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+
+interface AnswerDisplayProps {
+  answer: string
+}
+
+export function AnswerDisplay({ answer }: AnswerDisplayProps) {
+  const { toast } = useToast()
+
+  const copyAnswer = () => {
+    navigator.clipboard.writeText(answer)
+    toast({
+      title: "Copied!",
+      description: "Answer copied to clipboard"
+    })
+  }
+
+  return (
+    <Card className="w-full max-w-sm mx-auto">
+      <CardHeader className="text-center">
+        <CardTitle className="text-lg">Send Your Answer</CardTitle>
+        <CardDescription>
+          Give this answer to the host to finish connecting
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex justify-center p-4 bg-white rounded-lg">
+          <QRCode
+            value={answer}
+            size={200}
+            style={{ height: "auto", maxWidth: "100%", width: "100%" }}
+            className="border rounded"
+          />
+        </div>
+
+        <Button variant="outline" className="w-full" onClick={copyAnswer}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy Answer
+        </Button>
+
+        <div className="text-xs text-muted-foreground text-center space-y-1">
+          <p>• The host pastes this answer into their invite card</p>
+          <p>• The game opens as soon as the connection is made</p>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
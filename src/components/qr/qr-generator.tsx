@@ -4,17 +4,22 @@ import { useState, useEffect } from 'react'
 import QRCode from 'react-qr-code'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Copy, RefreshCw } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Copy, RefreshCw, Link } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
 
 interface QRGeneratorProps {
   gameId: string
   onGenerateQR: () => Promise<string>
+  // Set for WebRTC games, where each QR code is an invite the player answers
+  onAcceptAnswer?: (answer: string) => Promise<void>
 }
 
-export function QRGenerator({ gameId, onGenerateQR }: QRGeneratorProps) {
+export function QRGenerator({ gameId, onGenerateQR, onAcceptAnswer }: QRGeneratorProps) {
   const [qrData, setQRData] = useState<string>('')
   const [isGenerating, setIsGenerating] = useState(false)
+  const [answer, setAnswer] = useState('')
+  const [isConnecting, setIsConnecting] = useState(false)
   const { toast } = useToast()
 
   const generateQR = async () => {
@@ -38,6 +43,31 @@ export function QRGenerator({ gameId, onGenerateQR }: QRGeneratorProps) {
     generateQR()
   }, [gameId])
 
+  const acceptAnswer = async () => {
+    if (!onAcceptAnswer || !answer.trim()) return
+
+    setIsConnecting(true)
+    try {
+      await onAcceptAnswer(answer.trim())
+      setAnswer('')
+      toast({
+        title: "Connecting...",
+        description: "Player answer accepted. A new invite is ready for the next player."
+      })
+      // Invites are single-use, so prepare one for the next player
+      await generateQR()
+    } catch (error) {
+      console.error('Failed to accept answer:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to connect player",
+        variant: "destructive"
+      })
+    } finally {
+      setIsConnecting(false)
+    }
+  }
+
   const copyGameId = () => {
     navigator.clipboard.writeText(gameId)
     toast({
@@ -118,12 +148,43 @@ export function QRGenerator({ gameId, onGenerateQR }: QRGeneratorProps) {
           </Button>
         </div>
 
+        {/* Player Answer */}
+        {onAcceptAnswer && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Player Answer</label>
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Paste the answer from the player"
+                value={answer}
+                onChange={(e) => setAnswer(e.target.value)}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={acceptAnswer}
+                disabled={!answer.trim() || isConnecting}
+              >
+                <Link className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Instructions */}
-        <div className="text-xs text-muted-foreground text-center space-y-1">
-          <p>• Players scan the QR code to join instantly</p>
-          <p>• Or manually enter the Game ID</p>
-          <p>• Make sure you&apos;re on the same WiFi network</p>
-        </div>
+        {onAcceptAnswer ? (
+          <div className="text-xs text-muted-foreground text-center space-y-1">
+            <p>• Each invite connects one player</p>
+            <p>• The player scans or pastes the invite, then sends back an answer</p>
+            <p>• Paste their answer above to connect them</p>
+            <p>• Make sure you&apos;re on the same WiFi network</p>
+          </div>
+        ) : (
+          <div className="text-xs text-muted-foreground text-center space-y-1">
+            <p>• Players scan the QR code to join instantly</p>
+            <p>• Or manually enter the Game ID</p>
+            <p>• Make sure you&apos;re on the same WiFi network</p>
+          </div>
+        )}
       </CardContent>
     </Card>
   )
@@ -1,27 +1,55 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
-import { p2pGameManager } from '@/lib/p2p-game-manager'
-import { GameState, Player, Guess } from '@/lib/game-logic'
+import { p2pGameManager, GameNetwork } from '@/lib/p2p-game-manager'
+import { BotLevel, GameSettings, GameView, Player, Guess, describeGuessResult } from '@/lib/game-logic'
+import { FairnessResult } from '@/lib/commitment'
+import { Hint } from '@/lib/solver'
 import { useToast } from './use-toast'
 
 interface UseP2PGameReturn {
-  gameState: GameState | null
+  gameState: GameView | null
   currentPlayer: Player | null
   isConnected: boolean
   timeElapsed: number
   makeGuess: (word: string) => void
+  setSecretWord: (word: string) => void
+  requestHint: () => void
+  addBot: (level: BotLevel) => void
+  startGame: () => void
+  kickPlayer: (playerId: string, ban: boolean) => void
+  unbanPlayer: (name: string) => void
+  updateSettings: (settings: GameSettings, hostWord: string) => Promise<boolean>
+  nextRound: () => void
+  pauseGame: () => void
+  resumeGame: () => void
+  revealWord: () => void
+  // Seconds until play begins, while the start countdown runs
+  countdown: number | null
+  hint: Hint | null
   leaveGame: () => void
   generateQRData: () => Promise<string>
+  acceptAnswer: (answer: string) => Promise<void>
+  pendingAnswer: string | null
+  network: GameNetwork
+  fairness: FairnessResult | null
+  hostAwayUntil: number | null
   isHost: boolean
+  // Watching without a player of our own
+  isSpectator: boolean
 }
 
 export function useP2PGame(gameId: string): UseP2PGameReturn {
-  const [gameState, setGameState] = useState<GameState | null>(null)
+  const [gameState, setGameState] = useState<GameView | null>(null)
   const [currentPlayer, setCurrentPlayer] = useState<Player | null>(null)
   const [isConnected, setIsConnected] = useState(false)
   const [timeElapsed, setTimeElapsed] = useState(0)
   const [connectionAttempted, setConnectionAttempted] = useState(false)
+  const [fairness, setFairness] = useState<FairnessResult | null>(null)
+  const [hostAwayUntil, setHostAwayUntil] = useState<number | null>(null)
+  const [hint, setHint] = useState<Hint | null>(null)
+  const [countdownEnd, setCountdownEnd] = useState<number | null>(null)
+  const [countdown, setCountdown] = useState<number | null>(null)
   const { toast } = useToast()
 
   // Connection effect - handles gameId parameter
@@ -45,6 +73,10 @@ export function useP2PGame(gameId: string): UseP2PGameReturn {
                 setIsConnected(true)
                 return
               }
+              if (currentGameState.spectators.some(s => s.id === playerId)) {
+                setIsConnected(true)
+                return
+              }
             }
           }
         }
@@ -64,7 +96,7 @@ export function useP2PGame(gameId: string): UseP2PGameReturn {
 
   // Timer effect
   useEffect(() => {
-    if (!gameState || gameState.status !== 'playing' || !currentPlayer || currentPlayer.status === 'finished') {
+    if (!gameState || gameState.status !== 'playing' || gameState.pausedAt || !currentPlayer || currentPlayer.status !== 'playing') {
       return
     }
 
@@ -75,10 +107,45 @@ export function useP2PGame(gameId: string): UseP2PGameReturn {
     return () => clearInterval(interval)
   }, [gameState, currentPlayer])
 
+  // Countdown effect: tick down to the host's start, measured on our own clock
+  useEffect(() => {
+    if (countdownEnd === null) return
+
+    const tick = () => {
+      const remaining = Math.ceil((countdownEnd - Date.now()) / 1000)
+      if (remaining <= 0) {
+        setCountdown(null)
+        setCountdownEnd(null)
+      } else {
+        setCountdown(remaining)
+      }
+    }
+    tick()
+
+    const interval = setInterval(tick, 250)
+    return () => clearInterval(interval)
+  }, [countdownEnd])
+
+  // A new match round starts the clock, hints and fairness check over
+  const round = gameState?.match?.round
+  useEffect(() => {
+    setTimeElapsed(0)
+    setHint(null)
+    setFairness(null)
+  }, [round])
+
+  // Verify the host once the word is revealed
+  useEffect(() => {
+    if (gameState?.status === 'finished') {
+      setFairness(p2pGameManager.verifyFairness())
+    }
+  }, [gameState])
+
   // P2P game event listeners
   useEffect(() => {
-    const handleGameState = (newGameState: GameState) => {
+    const handleGameState = (newGameState: GameView) => {
       setGameState(newGameState)
+      setHostAwayUntil(null)
       
       // Find current player
       const playerId = p2pGameManager.getMyId()
@@ -86,8 +153,8 @@ export function useP2PGame(gameId: string): UseP2PGameReturn {
         const player = newGameState.players.find(p => p.id === playerId)
         if (player) {
           setCurrentPlayer(player)
-        } else {
-          // Player not found in game state - connection issue
+        } else if (!newGameState.spectators.some(s => s.id === playerId)) {
+          // Neither playing nor watching - connection issue
           setIsConnected(false)
           return
         }
@@ -126,7 +193,7 @@ export function useP2PGame(gameId: string): UseP2PGameReturn {
         if (player) {
           toast({
             title: "New Guess",
-            description: `${player.name} guessed ${guess.word} (${guess.commonLetters} common)`
+            description: `${player.name} guessed ${guess.word} (${describeGuessResult(guess)})`
           })
         }
       }
@@ -151,13 +218,27 @@ export function useP2PGame(gameId: string): UseP2PGameReturn {
       }
     }
 
+    const handleHostAway = (resumeBy: number) => {
+      setHostAwayUntil(resumeBy)
+    }
+
+    const handleHint = (newHint: Hint) => {
+      setHint(newHint)
+    }
+
+    const handleCountdown = (duration: number) => {
+      setCountdownEnd(Date.now() + duration)
+    }
+
+    // Most errors are the host turning down something we did, like a guess
+    // out of turn, so they don't mean we've lost the game. Whether we're
+    // still in it comes from the game state.
     const handleError = (message: string) => {
       toast({
         title: "Error",
         description: message,
         variant: "destructive"
       })
-      setIsConnected(false)
     }
 
     // Set up event listeners
@@ -167,6 +248,9 @@ export function useP2PGame(gameId: string): UseP2PGameReturn {
     p2pGameManager.onGuess(handleGuess)
     p2pGameManager.onPlayerFinished(handlePlayerFinished)
     p2pGameManager.onError(handleError)
+    p2pGameManager.onHostAway(handleHostAway)
+    p2pGameManager.onHint(handleHint)
+    p2pGameManager.onCountdown(handleCountdown)
 
     // Get initial game state
     const initialGameState = p2pGameManager.getGameState()
@@ -182,6 +266,9 @@ export function useP2PGame(gameId: string): UseP2PGameReturn {
       p2pGameManager.offGuess(handleGuess)
       p2pGameManager.offPlayerFinished(handlePlayerFinished)
       p2pGameManager.offError(handleError)
+      p2pGameManager.offHostAway(handleHostAway)
+      p2pGameManager.offHint(handleHint)
+      p2pGameManager.offCountdown(handleCountdown)
     }
   }, [gameId, gameState, toast])
 
@@ -189,6 +276,84 @@ export function useP2PGame(gameId: string): UseP2PGameReturn {
     p2pGameManager.makeGuess(word)
   }, [])
 
+  const setSecretWord = useCallback((word: string) => {
+    p2pGameManager.setSecretWord(word)
+  }, [])
+
+  const requestHint = useCallback(() => {
+    p2pGameManager.requestHint()
+  }, [])
+
+  const addBot = useCallback((level: BotLevel) => {
+    p2pGameManager.addBot(level).catch(error => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add bot.",
+        variant: "destructive"
+      })
+    })
+  }, [toast])
+
+  const startGame = useCallback(() => {
+    try {
+      p2pGameManager.startGame()
+    } catch (error) {
+      toast({
+        title: "Can't Start Yet",
+        description: error instanceof Error ? error.message : "Failed to start the game.",
+        variant: "destructive"
+      })
+    }
+  }, [toast])
+
+  const kickPlayer = useCallback((playerId: string, ban: boolean) => {
+    p2pGameManager.kickPlayer(playerId, ban)
+  }, [])
+
+  const unbanPlayer = useCallback((name: string) => {
+    p2pGameManager.unbanPlayer(name)
+  }, [])
+
+  const updateSettings = useCallback(async (settings: GameSettings, hostWord: string): Promise<boolean> => {
+    try {
+      await p2pGameManager.updateSettings(settings, hostWord)
+      toast({
+        title: "Settings Saved",
+        description: "Everyone in the lobby now sees the new rules"
+      })
+      return true
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update settings.",
+        variant: "destructive"
+      })
+      return false
+    }
+  }, [toast])
+
+  const nextRound = useCallback(() => {
+    p2pGameManager.nextRound().catch(error => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start the next round.",
+        variant: "destructive"
+      })
+    })
+  }, [toast])
+
+  const pauseGame = useCallback(() => {
+    p2pGameManager.pauseGame()
+  }, [])
+
+  const resumeGame = useCallback(() => {
+    p2pGameManager.resumeGame()
+  }, [])
+
+  const revealWord = useCallback(() => {
+    p2pGameManager.revealWord()
+  }, [])
+
   const leaveGame = useCallback(() => {
     p2pGameManager.leaveGame()
   }, [])
@@ -197,14 +362,37 @@ export function useP2PGame(gameId: string): UseP2PGameReturn {
     return await p2pGameManager.generateQRData()
   }, [])
 
+  const acceptAnswer = useCallback(async (answer: string): Promise<void> => {
+    await p2pGameManager.acceptAnswer(answer)
+  }, [])
+
   return {
     gameState,
     currentPlayer,
     isConnected,
     timeElapsed,
     makeGuess,
+    setSecretWord,
+    requestHint,
+    addBot,
+    startGame,
+    kickPlayer,
+    unbanPlayer,
+    updateSettings,
+    nextRound,
+    pauseGame,
+    resumeGame,
+    revealWord,
+    countdown,
+    hint,
     leaveGame,
     generateQRData,
-    isHost: p2pGameManager.isHostPlayer()
+    acceptAnswer,
+    pendingAnswer: gameState ? null : p2pGameManager.getPendingAnswer(),
+    network: p2pGameManager.getNetwork(),
+    fairness,
+    hostAwayUntil,
+    isHost: p2pGameManager.isHostPlayer(),
+    isSpectator: p2pGameManager.isSpectating()
   }
 }
\ No newline at end of file
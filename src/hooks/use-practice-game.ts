@@ -0,0 +1,129 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { GameSettings, GameState, Player } from '@/lib/game-logic'
+import { createPracticeGame, getPracticePlayer, makePracticeGuess, requestPracticeHint } from '@/lib/practice-game'
+import { Hint } from '@/lib/solver'
+import { useToast } from './use-toast'
+
+interface UsePracticeGameReturn {
+  gameState: GameState | null
+  currentPlayer: Player | null
+  timeElapsed: number
+  isStarting: boolean
+  startGame: (settings: GameSettings, secretWord?: string) => void
+  makeGuess: (word: string) => void
+  requestHint: () => void
+  hint: Hint | null
+  endGame: () => void
+}
+
+export function usePracticeGame(): UsePracticeGameReturn {
+  const [gameState, setGameState] = useState<GameState | null>(null)
+  const [timeElapsed, setTimeElapsed] = useState(0)
+  const [isStarting, setIsStarting] = useState(false)
+  const [hint, setHint] = useState<Hint | null>(null)
+  // Guesses and hints are async, so they build on the latest state rather
+  // than the one from the render that started them
+  const gameStateRef = useRef<GameState | null>(null)
+  const queueRef = useRef<Promise<void>>(Promise.resolve())
+  const { toast } = useToast()
+
+  const updateGameState = useCallback((newGameState: GameState | null) => {
+    gameStateRef.current = newGameState
+    setGameState(newGameState)
+  }, [])
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    })
+  }, [toast])
+
+  const currentPlayer = gameState ? getPracticePlayer(gameState) : null
+
+  // Timer effect
+  useEffect(() => {
+    if (!gameState || gameState.status !== 'playing') return
+
+    const interval = setInterval(() => {
+      setTimeElapsed(prev => prev + 1)
+    }, 1000)
+
+    return () => clearInterval(interval)
+  }, [gameState])
+
+  const startGame = useCallback((settings: GameSettings, secretWord?: string) => {
+    setIsStarting(true)
+    createPracticeGame(settings, secretWord)
+      .then(newGameState => {
+        setHint(null)
+        setTimeElapsed(0)
+        updateGameState(newGameState)
+      })
+      .catch(error => showError(error, "Failed to start practice game."))
+      .finally(() => setIsStarting(false))
+  }, [updateGameState, showError])
+
+  // Run guesses and hints one at a time, each on the state the last one left
+  const runInOrder = useCallback((task: (current: GameState) => Promise<void>, fallback: string) => {
+    queueRef.current = queueRef.current.then(async () => {
+      const current = gameStateRef.current
+      if (!current) return
+      try {
+        await task(current)
+      } catch (error) {
+        showError(error, fallback)
+      }
+    })
+  }, [showError])
+
+  const makeGuess = useCallback((word: string) => {
+    runInOrder(async current => {
+      const newGameState = await makePracticeGuess(current, word)
+      // The game may have been ended or restarted in the meantime
+      if (gameStateRef.current !== current) return
+      updateGameState(newGameState)
+
+      const player = getPracticePlayer(newGameState)
+      if (player.status === 'finished') {
+        setTimeElapsed(player.timeUsed)
+        toast({
+          title: "🎉 Congratulations!",
+          description: `You found the word in ${Math.floor(player.timeUsed / 60)}:${(player.timeUsed % 60).toString().padStart(2, '0')}!`
+        })
+      }
+    }, "Failed to make guess.")
+  }, [runInOrder, updateGameState, toast])
+
+  const requestHint = useCallback(() => {
+    runInOrder(async current => {
+      if (!current.settings.hints || current.status !== 'playing') return
+
+      const result = await requestPracticeHint(current)
+      if (gameStateRef.current !== current) return
+      updateGameState(result.gameState)
+      setHint(result.hint)
+    }, "Failed to get a hint.")
+  }, [runInOrder, updateGameState])
+
+  const endGame = useCallback(() => {
+    setHint(null)
+    setTimeElapsed(0)
+    updateGameState(null)
+  }, [updateGameState])
+
+  return {
+    gameState,
+    currentPlayer,
+    timeElapsed,
+    isStarting,
+    startGame,
+    makeGuess,
+    requestHint,
+    hint,
+    endGame
+  }
+}
@@ -0,0 +1,47 @@
+import { BotLevel, GameSettings, Guess } from './game-logic'
+import { filterCandidates, suggestGuess } from './solver'
+
+// Computer players, run by the host. Every level only guesses words that fit
+// its results so far; they differ in how they pick among them.
+
+export const BOT_LEVELS: { level: BotLevel; label: string; description: string }[] = [
+  { level: 'random', label: 'Easy', description: 'Guesses any word that fits its results' },
+  { level: 'greedy', label: 'Medium', description: 'Guesses the possible answer that narrows things down most' },
+  { level: 'optimal', label: 'Hard', description: 'Guesses whatever word narrows things down most' }
+]
+
+export function getBotLabel(level: BotLevel): string {
+  return BOT_LEVELS.find(option => option.level === level)?.label ?? level
+}
+
+// How long a bot "thinks" before each guess, so humans can keep up
+export const BOT_MIN_DELAY = 2000
+export const BOT_MAX_DELAY = 5000
+
+export function chooseBotGuess(
+  level: BotLevel,
+  secretPool: string[],
+  guessPool: string[],
+  guesses: Guess[],
+  settings: Pick<GameSettings, 'wordLength' | 'distinctLetters' | 'positionalFeedback'>,
+  random: () => number = Math.random
+): string | undefined {
+  const guessable = new Set(guessPool)
+  const candidates = filterCandidates(secretPool, guesses).filter(word => guessable.has(word))
+
+  // The secret isn't a dictionary word, so there's nothing to narrow down
+  if (candidates.length === 0) {
+    const guessed = new Set(guesses.map(guess => guess.word))
+    const unguessed = guessPool.filter(word => !guessed.has(word))
+    return unguessed[Math.floor(random() * unguessed.length)]
+  }
+
+  switch (level) {
+    case 'random':
+      return candidates[Math.floor(random() * candidates.length)]
+    case 'greedy':
+      return suggestGuess(candidates, candidates, settings)?.word
+    case 'optimal':
+      return suggestGuess(candidates, guessPool, settings)?.word
+  }
+}
@@ -0,0 +1,171 @@
+import {
+  GameView,
+  Guess,
+  calculateCommonLetters,
+  calculateExactPositions,
+  getGuessSecret,
+  hasFoundSecret
+} from './game-logic'
+
+export interface FairnessResult {
+  status: 'verified' | 'tampered'
+  reason?: string
+}
+
+// Guess results a player saw during the game, checked again once the word is revealed
+export interface ObservedGuess {
+  playerId: string
+  guess: Guess
+}
+
+const K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]
+
+// SHA-256 in plain JavaScript. crypto.subtle only exists on secure origins, and
+// games on a LAN are usually served over plain http.
+export function sha256(message: string): string {
+  const bytes = Array.from(new TextEncoder().encode(message))
+  const bitLength = bytes.length * 8
+
+  // Pad to a multiple of 64 bytes, ending with the 64-bit message length
+  bytes.push(0x80)
+  while (bytes.length % 64 !== 56) bytes.push(0)
+  for (let i = 7; i >= 0; i--) {
+    bytes.push(i >= 4 ? 0 : (bitLength >>> (i * 8)) & 0xff)
+  }
+
+  const hash = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ]
+  const w = new Array<number>(64)
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n))
+
+  for (let offset = 0; offset < bytes.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4
+      w[i] = (bytes[j] << 24) | (bytes[j + 1] << 16) | (bytes[j + 2] << 8) | bytes[j + 3]
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3)
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10)
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)
+      const ch = (e & f) ^ (~e & g)
+      const temp1 = (h + S1 + ch + K[i] + w[i]) | 0
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)
+      const maj = (a & b) ^ (a & c) ^ (b & c)
+      const temp2 = (S0 + maj) | 0
+
+      h = g
+      g = f
+      f = e
+      e = (d + temp1) | 0
+      d = c
+      c = b
+      b = a
+      a = (temp1 + temp2) | 0
+    }
+
+    hash[0] = (hash[0] + a) | 0
+    hash[1] = (hash[1] + b) | 0
+    hash[2] = (hash[2] + c) | 0
+    hash[3] = (hash[3] + d) | 0
+    hash[4] = (hash[4] + e) | 0
+    hash[5] = (hash[5] + f) | 0
+    hash[6] = (hash[6] + g) | 0
+    hash[7] = (hash[7] + h) | 0
+  }
+
+  return hash.map(value => (value >>> 0).toString(16).padStart(8, '0')).join('')
+}
+
+// Unguessable hex string from the browser's secure random source
+export function randomHex(byteLength: number = 16): string {
+  const bytes = new Uint8Array(byteLength)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export function generateSalt(): string {
+  return randomHex(16)
+}
+
+// Commitment the host publishes at game creation, before anyone guesses
+export function createCommitment(word: string, salt: string): string {
+  return sha256(`${salt}:${word.toUpperCase()}`)
+}
+
+// Check the revealed word against the commitment seen when the game started,
+// then recompute every guess result the host reported. In classic games the
+// other players' words have no commitment, but guesses against them are still
+// checked once they're revealed.
+export function verifyFairness(
+  gameView: GameView,
+  commitment: string,
+  observedGuesses: ObservedGuess[] = []
+): FairnessResult {
+  const { hostWord, salt } = gameView
+  if (!hostWord || !salt) {
+    return { status: 'tampered', reason: 'The host did not reveal the word and salt.' }
+  }
+
+  if (gameView.commitment !== commitment) {
+    return { status: 'tampered', reason: 'The commitment changed during the game.' }
+  }
+
+  if (createCommitment(hostWord, salt) !== commitment) {
+    return { status: 'tampered', reason: 'The revealed word does not match the commitment.' }
+  }
+
+  const reported: ObservedGuess[] = [
+    ...observedGuesses,
+    ...gameView.players.flatMap(player => player.guesses.map(guess => ({ playerId: player.id, guess })))
+  ]
+
+  for (const { playerId, guess } of reported) {
+    const player = gameView.players.find(p => p.id === playerId)
+    const secret = getGuessSecret(gameView, guess)
+    if (!secret) {
+      return {
+        status: 'tampered',
+        reason: `The host did not reveal the word ${player?.name ?? 'a player'}'s guess ${guess.word} was scored against.`
+      }
+    }
+
+    if (calculateCommonLetters(secret, guess.word) !== guess.commonLetters) {
+      return {
+        status: 'tampered',
+        reason: `${player?.name ?? 'A player'}'s guess ${guess.word} was scored ${guess.commonLetters}, ` +
+          `but it has ${calculateCommonLetters(secret, guess.word)} letters in common with ${secret}.`
+      }
+    }
+
+    if (guess.exactPositions !== undefined && calculateExactPositions(secret, guess.word) !== guess.exactPositions) {
+      return {
+        status: 'tampered',
+        reason: `${player?.name ?? 'A player'}'s guess ${guess.word} had ${guess.exactPositions} letters reported in place, ` +
+          `but ${calculateExactPositions(secret, guess.word)} match the positions in ${secret}.`
+      }
+    }
+  }
+
+  for (const player of gameView.players) {
+    if (player.status === 'finished' && !hasFoundSecret(gameView, player)) {
+      return { status: 'tampered', reason: `${player.name} finished without finding the secret word.` }
+    }
+  }
+
+  return { status: 'verified' }
+}
@@ -0,0 +1,113 @@
+import { DEFAULT_SETTINGS, GameSettings, Player } from './game-logic'
+import { sha256 } from './commitment'
+import { loadDictionary, pickSecretWord } from './dictionary'
+
+// Daily Jotto: everyone gets the same word on the same calendar date. The word
+// is a seeded pick from the bundled list, so it works offline with no server,
+// and results are only kept in this browser.
+
+export const DAILY_SETTINGS: GameSettings = { ...DEFAULT_SETTINGS }
+
+const RESULTS_KEY = 'jotto-daily-results'
+// Daily Jotto #1
+const FIRST_DAY = '2025-01-01'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// How a player did on one day's puzzle. Only results are kept, never the word.
+export interface DailyResult {
+  guesses: number
+  commonLetters: number[]
+  timeUsed: number
+}
+
+export interface DailyStats {
+  played: number
+  streak: number
+  maxStreak: number
+}
+
+// The player's local calendar date, e.g. "2025-03-14"
+export function getDateKey(date: Date = new Date()): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0')
+  const day = date.getDate().toString().padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function toDayNumber(dateKey: string): number {
+  return Math.round(Date.parse(`${dateKey}T00:00:00Z`) / DAY_MS)
+}
+
+export function getPuzzleNumber(dateKey: string): number {
+  return toDayNumber(dateKey) - toDayNumber(FIRST_DAY) + 1
+}
+
+// Small fast PRNG (mulberry32), so the same seed always gives the same picks
+function seededRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export async function getDailyWord(dateKey: string): Promise<string> {
+  const seed = parseInt(sha256(`jotto-daily:${dateKey}`).slice(0, 8), 16)
+  const word = pickSecretWord(await loadDictionary(), DAILY_SETTINGS, seededRandom(seed))
+  if (!word) {
+    throw new Error('No daily word is available.')
+  }
+  return word
+}
+
+export function toDailyResult(player: Player): DailyResult {
+  return {
+    guesses: player.guesses.length,
+    commonLetters: player.guesses.map(guess => guess.commonLetters),
+    timeUsed: player.timeUsed
+  }
+}
+
+export function loadDailyResults(): Record<string, DailyResult> {
+  try {
+    return JSON.parse(localStorage.getItem(RESULTS_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+export function saveDailyResult(dateKey: string, result: DailyResult) {
+  const results = loadDailyResults()
+  // The first finish of the day is the one that counts
+  if (results[dateKey]) return
+  localStorage.setItem(RESULTS_KEY, JSON.stringify({ ...results, [dateKey]: result }))
+}
+
+// Streaks count consecutive days solved. Today's streak is still alive if
+// yesterday was solved and today hasn't been played yet.
+export function getDailyStats(results: Record<string, DailyResult>, today: string): DailyStats {
+  const days = Object.keys(results).map(toDayNumber).sort((a, b) => a - b)
+
+  let maxStreak = 0
+  let run = 0
+  days.forEach((day, index) => {
+    run = index > 0 && day === days[index - 1] + 1 ? run + 1 : 1
+    maxStreak = Math.max(maxStreak, run)
+  })
+
+  const todayNumber = toDayNumber(today)
+  const lastDay = days[days.length - 1]
+  const streak = lastDay === todayNumber || lastDay === todayNumber - 1 ? run : 0
+
+  return { played: days.length, streak, maxStreak }
+}
+
+// Result to paste into chat: how many guesses and the common-letter counts,
+// which give nothing away about the word
+export function formatShareText(dateKey: string, result: DailyResult): string {
+  return [
+    `Daily Jotto #${getPuzzleNumber(dateKey)}: ${result.guesses} guess${result.guesses === 1 ? '' : 'es'}`,
+    result.commonLetters.join(' ')
+  ].join('\n')
+}
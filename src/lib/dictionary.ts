@@ -0,0 +1,77 @@
+import { GameSettings, WordKind, findRepeatedLetter, getWordError } from './game-logic'
+
+// The bundled word list, split into sets for constant-time lookups. The list
+// is a separate chunk, so it's only downloaded once a game needs it.
+export interface Dictionary {
+  // Everyday words, fit to be secret words
+  common: Set<string>
+  // Every word the dictionary accepts, common ones included
+  all: Set<string>
+}
+
+let dictionary: Dictionary | null = null
+let loading: Promise<Dictionary> | null = null
+
+function toWords(list: string): string[] {
+  return list.trim().split(/\s+/).map(word => word.toUpperCase())
+}
+
+export function loadDictionary(): Promise<Dictionary> {
+  if (dictionary) return Promise.resolve(dictionary)
+
+  if (!loading) {
+    loading = import('./word-list')
+      .then(({ COMMON_WORDS, EXTRA_WORDS }) => {
+        const common = new Set(toWords(COMMON_WORDS))
+        dictionary = { common, all: new Set([...common, ...toWords(EXTRA_WORDS)]) }
+        return dictionary
+      })
+      .catch(error => {
+        // Let the next caller try again, e.g. after a flaky network
+        loading = null
+        throw error
+      })
+  }
+
+  return loading
+}
+
+export function isInDictionary(dictionary: Dictionary, word: string): boolean {
+  return dictionary.all.has(word.toUpperCase())
+}
+
+// A random everyday word that could be the secret under the game's settings,
+// for when the computer picks the word
+export function pickSecretWord(
+  dictionary: Dictionary,
+  settings: Pick<GameSettings, 'wordLength' | 'distinctLetters'>,
+  random: () => number = Math.random
+): string | undefined {
+  const pool = Array.from(dictionary.common).filter(word =>
+    word.length === settings.wordLength && !(settings.distinctLetters.secret && findRepeatedLetter(word))
+  )
+  return pool[Math.floor(random() * pool.length)]
+}
+
+// Why a word can't be played under the game's settings, or null if it can
+export async function checkWord(
+  word: string,
+  settings: GameSettings,
+  kind: WordKind = 'guess'
+): Promise<string | null> {
+  const shapeError = getWordError(word, settings.wordLength)
+  if (shapeError) return shapeError
+
+  const mustBeDistinct = kind === 'secret' ? settings.distinctLetters.secret : settings.distinctLetters.guesses
+  const repeated = mustBeDistinct ? findRepeatedLetter(word) : undefined
+  if (repeated) {
+    const words = kind === 'secret' ? 'Secret words' : 'Guesses'
+    return `${words} can't repeat letters, and ${word.toUpperCase()} has more than one ${repeated}.`
+  }
+
+  if (settings.wordRule === 'dictionary' && !isInDictionary(await loadDictionary(), word)) {
+    return `${word.toUpperCase()} is not in the dictionary.`
+  }
+
+  return null
+}
@@ -1,9 +1,160 @@
 export interface GameState {
   gameId: string
+  // Peer ID of the host, where players send guesses
+  hostId: string
   hostWord: string
   players: Player[]
+  // 'waiting' is the lobby, until the host starts the game
   status: 'waiting' | 'playing' | 'finished'
+  // When play began, after the host's start countdown. Moved on by the length
+  // of any pause, so time used never counts a pause.
   startTime?: number
+  // Set while the host has paused play
+  pausedAt?: number
+  // Salted hash of hostWord, published before anyone guesses
+  commitment: string
+  // Revealed with hostWord at the end so players can check the commitment
+  salt: string
+  settings: GameSettings
+  // Names the host has banned from joining
+  bannedNames: string[]
+  // People watching without playing
+  spectators: Spectator[]
+  // Only in classic games
+  classic?: ClassicState
+  // Only in race games of more than one round
+  match?: MatchState
+}
+
+// Head-to-head play: every player holds a secret word and, on their turn,
+// guesses the word of the player after them in turn order
+export interface ClassicState {
+  // Player ID -> secret word, held by the host until the game ends. The host's
+  // own secret is hostWord.
+  secrets: Record<string, string>
+  // Players who have set a secret, in the order they take turns
+  turnOrder: string[]
+  // Index into turnOrder of the player whose turn it is
+  turn: number
+  winnerId?: string
+}
+
+// A race played over several rounds. Each round a different player sets the
+// word, which is hostWord for that round, and sits out while everyone else
+// looks for it. Points carry over from round to round.
+export interface MatchState {
+  // Counts from 1 up to settings.rounds
+  round: number
+  // The player who sets this round's word
+  setterId: string
+  // Whether the setter has picked this round's word yet
+  wordSet: boolean
+  // Player ID -> points from the rounds before this one
+  totals: Record<string, number>
+}
+
+// 'race' has everyone racing to find the host's word; 'classic' is
+// traditional Jotto where players guess each other's words
+export type GameMode = 'race' | 'classic'
+
+// 'dictionary' only accepts words from the bundled word list; 'any' accepts
+// any string of letters
+export type WordRule = 'dictionary' | 'any'
+
+// Rules the host picks when creating a game
+export interface GameSettings {
+  mode: GameMode
+  wordRule: WordRule
+  // Letters in the secret word and every guess
+  wordLength: number
+  // Words that must be isograms, with no letter used twice
+  distinctLetters: { secret: boolean; guesses: boolean }
+  // Jotto+: guesses also report how many letters are in the right position
+  positionalFeedback: boolean
+  // Players may ask the host's solver for a hint, at a cost to their score
+  hints: boolean
+  scoring: ScoringSettings
+  // Seconds from the start until the game ends, if the host sets a limit
+  timeLimit?: number
+  // Guesses each player gets before they're out, if the host sets a limit
+  maxGuesses?: number
+  // Race games only: play a match of this many rounds instead of one word
+  rounds?: number
+  // Race games only: the host runs the game without playing in it
+  gameMaster?: boolean
+  // Seconds spectators wait to see each guess, so they can't coach players
+  spectatorDelay?: number
+}
+
+// How the host works out points. Players who find the word earn points for
+// every second and every guess they have left of the allowances, which grow
+// with word length (5 minutes and 20 guesses for 5 letters).
+export interface ScoringSettings {
+  // Points per second left of the time allowance
+  timeWeight: number
+  // Points per guess left of the guess allowance
+  guessWeight: number
+  // Points taken off for every hint
+  hintPenalty: number
+  dnf: DnfScoring
+}
+
+// Players who don't find the word: 'zero' scores nothing, 'partial' gives
+// guessWeight points per letter their closest guess had in common
+export type DnfScoring = 'zero' | 'partial'
+
+// A player's points, as computed by the host
+export interface PlayerScore {
+  points: number
+  timeBonus: number
+  guessBonus: number
+  // Only for players who didn't find the word
+  partialCredit: number
+  hintPenalty: number
+  finished: boolean
+}
+
+// Secret words and guesses can be held to different rules
+export type WordKind = 'secret' | 'guess'
+
+export const MIN_WORD_LENGTH = 4
+export const MAX_WORD_LENGTH = 7
+export const WORD_LENGTHS = [4, 5, 6, 7]
+
+// Points taken off a player's score for every hint they use, by default
+export const HINT_PENALTY = 50
+
+export const DEFAULT_SCORING: ScoringSettings = {
+  timeWeight: 1,
+  guessWeight: 10,
+  hintPenalty: HINT_PENALTY,
+  dnf: 'zero'
+}
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  mode: 'race',
+  wordRule: 'dictionary',
+  wordLength: 5,
+  distinctLetters: { secret: false, guesses: false },
+  positionalFeedback: false,
+  hints: false,
+  scoring: DEFAULT_SCORING
+}
+
+// What a player receives from the host: the game without the secret words and
+// salt, which are only included once the game has finished
+export type GameView = Omit<GameState, 'hostWord' | 'salt' | 'classic'> & {
+  hostWord?: string
+  salt?: string
+  classic?: Omit<ClassicState, 'secrets'> & { secrets?: Record<string, string> }
+}
+
+// Someone who joined to watch. Spectators never guess, aren't ranked and
+// only ever see the game through createSpectatorView.
+export interface Spectator {
+  id: string
+  name: string
+  joinedAt: number
 }
 
 export interface Player {
@@ -11,18 +162,199 @@ export interface Player {
   name: string
   guesses: Guess[]
   timeUsed: number
-  status: 'playing' | 'finished' | 'disconnected'
+  // 'out' players hit the time or guess limit without finding the word, or
+  // were still looking when the game master revealed it
+  status: 'playing' | 'finished' | 'out' | 'disconnected'
   joinedAt: number
+  hintsUsed: number
+  // Set for computer players, which the host runs itself
+  bot?: BotLevel
+  // Kept up to date by the host
+  score?: PlayerScore
 }
 
+// 'random' guesses any word that fits its results, 'greedy' the possible
+// answer that splits the rest best, 'optimal' the best word overall
+export type BotLevel = 'random' | 'greedy' | 'optimal'
+
 export interface Guess {
   word: string
   commonLetters: number
   timestamp: number
+  // Jotto+ games: how many letters are in the same position as in the secret
+  exactPositions?: number
+  // Classic games: the player whose word this guess was scored against
+  targetId?: string
+}
+
+export function createGameView(gameState: GameState): GameView {
+  const { hostWord, salt, classic, ...view } = gameState
+  if (gameState.status === 'finished') {
+    return { ...view, hostWord, salt, classic }
+  }
+  return classic ? { ...view, classic: { ...classic, secrets: undefined } } : view
+}
+
+// What spectators receive: the players' view, with every guess held back
+// until it's spectatorDelay seconds old. Once the game is over there's
+// nothing left to coach, so they see it all.
+export function createSpectatorView(gameState: GameState, now: number = Date.now()): GameView {
+  const view = createGameView(gameState)
+  const delay = (gameState.settings.spectatorDelay ?? 0) * 1000
+  if (gameState.status === 'finished' || delay === 0) return view
+
+  return {
+    ...view,
+    players: view.players.map(player => ({
+      ...player,
+      guesses: player.guesses.filter(guess => guess.timestamp <= now - delay)
+    }))
+  }
+}
+
+// Why the host can't start the game yet, or null if it's ready
+export function getStartError(game: GameView): string | null {
+  if (game.classic) {
+    return game.classic.turnOrder.length < 2 ? 'At least two players need to pick a secret word.' : null
+  }
+  // A game master needs someone to play, a match someone to set the next word
+  const competitors = game.players.filter(p => !isGameMaster(game, p.id))
+  if (competitors.length < (isGameMaster(game, game.hostId) && !game.match ? 1 : 2)) {
+    return competitors.length === 0 ? 'Wait for a player to join.' : 'Wait for at least one more player to join.'
+  }
+  if (game.match && !game.match.wordSet) {
+    const setter = game.players.find(p => p.id === game.match?.setterId)
+    return `Waiting for ${setter?.name ?? 'the setter'} to pick this round's word.`
+  }
+  return null
+}
+
+// Whether a game is played as a match of several rounds
+export function isMatch(settings: Pick<GameSettings, 'mode' | 'rounds'>): boolean {
+  return settings.mode === 'race' && (settings.rounds ?? 1) > 1
+}
+
+// Whether a player is the host running the game rather than playing in it
+export function isGameMaster(game: Pick<GameView, 'settings' | 'hostId'>, playerId: string): boolean {
+  return game.settings.mode === 'race' && !!game.settings.gameMaster && playerId === game.hostId
+}
+
+// A match's first round, with its word set by whoever created the game
+export function createMatch(setterId: string): MatchState {
+  return { round: 1, setterId, wordSet: true, totals: {} }
+}
+
+// Whether a player is setting this round's word, and so not guessing
+export function isSetter(game: Pick<GameView, 'match'>, playerId: string): boolean {
+  return game.match?.setterId === playerId
+}
+
+export interface MatchStanding {
+  player: Player
+  // Points from earlier rounds plus this round's so far
+  points: number
+}
+
+// Everyone still in the match, most points first
+export function getMatchStandings(game: GameView): MatchStanding[] {
+  const totals = game.match?.totals ?? {}
+  return game.players
+    .filter(player => !isGameMaster(game, player.id))
+    .map(player => ({ player, points: (totals[player.id] ?? 0) + (player.score?.points ?? 0) }))
+    .sort((a, b) => b.points - a.points)
+}
+
+// The player whose word someone guesses in a classic game: the next one in turn order
+export function getGuessTarget(classic: Pick<ClassicState, 'turnOrder'>, playerId: string): string | undefined {
+  const index = classic.turnOrder.indexOf(playerId)
+  if (index === -1 || classic.turnOrder.length < 2) return undefined
+  return classic.turnOrder[(index + 1) % classic.turnOrder.length]
+}
+
+// The word a guess was scored against, if it's known to this peer
+export function getGuessSecret(game: GameView, guess: Guess): string | undefined {
+  if (guess.targetId && guess.targetId !== game.hostId) {
+    return game.classic?.secrets?.[guess.targetId]
+  }
+  return game.hostWord
+}
+
+// Whether a player has found the word they were after
+export function hasFoundSecret(game: GameView, player: Player): boolean {
+  return player.guesses.some(guess => {
+    const secret = getGuessSecret(game, guess)
+    return secret !== undefined && isWordCorrect(secret, guess.word)
+  })
+}
+
+// Move a player's record and everything that refers to them over to a new peer ID
+export function renamePlayer(gameState: GameState, oldId: string, newId: string) {
+  const player = gameState.players.find(p => p.id === oldId)
+  if (player) player.id = newId
+  if (gameState.hostId === oldId) gameState.hostId = newId
+
+  gameState.players.forEach(p => p.guesses.forEach(guess => {
+    if (guess.targetId === oldId) guess.targetId = newId
+  }))
+
+  const match = gameState.match
+  if (match) {
+    if (match.setterId === oldId) match.setterId = newId
+    if (oldId in match.totals) {
+      match.totals[newId] = match.totals[oldId]
+      delete match.totals[oldId]
+    }
+  }
+
+  const classic = gameState.classic
+  if (!classic) return
+
+  if (oldId in classic.secrets) {
+    classic.secrets[newId] = classic.secrets[oldId]
+    delete classic.secrets[oldId]
+  }
+  classic.turnOrder = classic.turnOrder.map(id => id === oldId ? newId : id)
+  if (classic.winnerId === oldId) classic.winnerId = newId
+}
+
+export function isValidScoring(scoring: ScoringSettings): boolean {
+  return [scoring.timeWeight, scoring.guessWeight, scoring.hintPenalty]
+    .every(value => Number.isFinite(value) && value >= 0)
+}
+
+// Limits are either off or a positive whole number
+export function isValidLimit(limit: number | undefined): boolean {
+  return limit === undefined || (Number.isInteger(limit) && limit > 0)
+}
+
+export function validateWord(word: string, wordLength: number = DEFAULT_SETTINGS.wordLength): boolean {
+  return getWordError(word, wordLength) === null
+}
+
+export function isValidWordLength(wordLength: number): boolean {
+  return Number.isInteger(wordLength) && wordLength >= MIN_WORD_LENGTH && wordLength <= MAX_WORD_LENGTH
 }
 
-export function validateWord(word: string): boolean {
-  return word.length === 5 && /^[A-Za-z]+$/.test(word)
+// Why a word has the wrong shape to play, or null if it's fine. Dictionary
+// checks live in dictionary.ts, since the word list loads separately.
+export function getWordError(word: string, wordLength: number = DEFAULT_SETTINGS.wordLength): string | null {
+  if (word.length !== wordLength) {
+    return `Words must be exactly ${wordLength} letters.`
+  }
+  if (!/^[A-Za-z]+$/.test(word)) {
+    return 'Words can only contain the letters A to Z.'
+  }
+  return null
+}
+
+// The first letter that appears more than once in a word, if any
+export function findRepeatedLetter(word: string): string | undefined {
+  const seen = new Set<string>()
+  for (const letter of word.toUpperCase()) {
+    if (seen.has(letter)) return letter
+    seen.add(letter)
+  }
+  return undefined
 }
 
 export function calculateCommonLetters(hostWord: string, guessWord: string): number {
@@ -52,6 +384,24 @@ export function calculateCommonLetters(hostWord: string, guessWord: string): num
   return commonLetters
 }
 
+export function calculateExactPositions(hostWord: string, guessWord: string): number {
+  const hostLetters = hostWord.toUpperCase()
+  const guessLetters = guessWord.toUpperCase()
+
+  let exactPositions = 0
+  for (let i = 0; i < Math.min(hostLetters.length, guessLetters.length); i++) {
+    if (hostLetters[i] === guessLetters[i]) exactPositions++
+  }
+
+  return exactPositions
+}
+
+// Short result of a guess, e.g. "3 common, 1 in place"
+export function describeGuessResult(guess: Guess): string {
+  const common = `${guess.commonLetters} common`
+  return guess.exactPositions === undefined ? common : `${common}, ${guess.exactPositions} in place`
+}
+
 export function isWordCorrect(hostWord: string, guessWord: string): boolean {
   return hostWord.toLowerCase() === guessWord.toLowerCase()
 }
@@ -60,10 +410,55 @@ export function generateGameId(): string {
   return Math.random().toString(36).substring(2, 8).toUpperCase()
 }
 
-export function calculateScore(guesses: Guess[], timeUsed: number): number {
-  const guessCount = guesses.length
-  const timeBonus = Math.max(0, 300 - timeUsed) // Bonus for completing under 5 minutes
-  const guessBonus = Math.max(0, 20 - guessCount) * 10 // Bonus for fewer guesses
-  
-  return timeBonus + guessBonus
+export function getTimeAllowance(wordLength: number): number {
+  return wordLength * 60
+}
+
+export function getGuessAllowance(wordLength: number): number {
+  return wordLength * 4
+}
+
+// Longer words take longer to find, so the allowances grow with word length.
+// Scores never go below zero.
+export function calculateScore(
+  player: Pick<Player, 'guesses' | 'timeUsed' | 'hintsUsed'>,
+  settings: Pick<GameSettings, 'wordLength' | 'scoring'>,
+  found: boolean
+): PlayerScore {
+  const { wordLength, scoring } = settings
+  const hintPenalty = player.hintsUsed * scoring.hintPenalty
+
+  if (!found) {
+    const closest = Math.max(0, ...player.guesses.map(guess => guess.commonLetters))
+    const partialCredit = scoring.dnf === 'partial' ? Math.round(closest * scoring.guessWeight) : 0
+    return {
+      points: Math.max(0, partialCredit - hintPenalty),
+      timeBonus: 0,
+      guessBonus: 0,
+      partialCredit,
+      hintPenalty,
+      finished: false
+    }
+  }
+
+  const timeBonus = Math.round(Math.max(0, getTimeAllowance(wordLength) - player.timeUsed) * scoring.timeWeight)
+  const guessBonus = Math.round(Math.max(0, getGuessAllowance(wordLength) - player.guesses.length) * scoring.guessWeight)
+
+  return {
+    points: Math.max(0, timeBonus + guessBonus - hintPenalty),
+    timeBonus,
+    guessBonus,
+    partialCredit: 0,
+    hintPenalty,
+    finished: true
+  }
+}
+
+// Where a score came from, e.g. "+180 time, +120 guesses, -50 hints"
+export function describeScore(score: PlayerScore): string {
+  const parts = score.finished
+    ? [`+${score.timeBonus} time`, `+${score.guessBonus} guesses`]
+    : [score.partialCredit > 0 ? `+${score.partialCredit} closest guess` : 'did not finish']
+  if (score.hintPenalty > 0) parts.push(`-${score.hintPenalty} hints`)
+  return parts.join(', ')
 }
\ No newline at end of file
@@ -0,0 +1,165 @@
+import { GameView, Player, Guess } from './game-logic'
+import { Hint } from './solver'
+import { validateMessage } from './message-schema'
+
+export interface P2PGameEvents {
+  'game:state': (gameState: GameView) => void
+  'game:player-joined': (player: Player) => void
+  'game:player-left': (playerId: string) => void
+  // senderId is the peer the guess arrived from, missing for the host's own
+  'game:guess': (playerId: string, guess: Guess, senderId?: string) => void
+  'game:finished': (playerId: string, finalTime: number) => void
+  'game:error': (message: string) => void
+  // Spectators ask to watch rather than play
+  'game:join-request': (player: Player, reconnectToken?: string, spectator?: boolean) => void
+  'game:leave': (playerId: string) => void
+  'game:terminated': () => void
+  'game:host-away': (resumeBy: number) => void
+  // Sent privately to a player once the host accepts them
+  'game:session': (session: PlayerSession) => void
+  // Sent by players to the host every few seconds while they're connected
+  'game:heartbeat': (playerId: string) => void
+  // Classic games: a player's secret word, sent privately to the host
+  'game:secret': (playerId: string, word: string) => void
+  // A player asks the host for a hint, and gets it back privately
+  'game:hint-request': (playerId: string) => void
+  'game:hint': (hint: Hint) => void
+  // The host started the game: play begins this many milliseconds later
+  'game:countdown': (duration: number) => void
+  // Sent privately to a player the host removes from the lobby
+  'game:kicked': (banned: boolean) => void
+}
+
+// Lets a player who drops out rejoin as the same player
+export interface PlayerSession {
+  playerId: string
+  reconnectToken: string
+}
+
+export type GameEvent = keyof P2PGameEvents
+
+export const GAME_EVENTS: GameEvent[] = [
+  'game:state', 'game:player-joined', 'game:player-left',
+  'game:guess', 'game:finished', 'game:error', 'game:join-request',
+  'game:leave', 'game:terminated', 'game:host-away', 'game:session',
+  'game:heartbeat', 'game:secret', 'game:hint-request', 'game:hint',
+  'game:countdown', 'game:kicked'
+]
+
+// Sender ID of the relay server's own notices, e.g. that a player dropped
+export const RELAY_SENDER = 'relay'
+
+// Recipient for messages only the host may read, like a join request with
+// its reconnect token. Every transport delivers these to the game's host.
+export const HOST_PEER = 'host'
+
+// How long players wait for a host whose tab closed before the game ends
+export const HOST_GRACE_PERIOD = 2 * 60 * 1000
+
+// Bumped whenever a message payload changes shape. Peers on another version
+// have their messages rejected instead of misread.
+export const PROTOCOL_VERSION = 2
+
+export interface P2PMessage {
+  version: number
+  type: GameEvent
+  data: unknown
+  senderId: string
+  // Recipient peer ID for targeted messages; missing for broadcasts
+  to?: string
+  timestamp: number
+}
+
+// A network backend that carries P2PMessages between the host and players
+export interface GameTransport {
+  // Host opens the game on this network and gets its peer ID back
+  createGame(gameId: string): Promise<string>
+  // Player connects to a game. Returns data the player has to hand back to
+  // the host (e.g. a WebRTC answer), or null when the connection is complete.
+  joinGame(gameId: string, connectionData?: string): Promise<string | null>
+  // Host creates connection data for the next player, if the network needs it
+  createInvite?(): Promise<string>
+  // Host finishes a connection with the data a player handed back
+  acceptConnection?(data: string): Promise<void>
+  broadcast(type: GameEvent, data: unknown): void
+  send(peerId: string, type: GameEvent, data: unknown): void
+  on<T extends GameEvent>(event: T, callback: P2PGameEvents[T]): void
+  off<T extends GameEvent>(event: T, callback: P2PGameEvents[T]): void
+  disconnect(): void
+  getMyId(): string
+  // The peer hosting the game as far as this network knows, or null before
+  // we're in one. Host-only events from anyone else are dropped.
+  getHostId(): string | null
+}
+
+export function generatePeerId(): string {
+  return Math.random().toString(36).substring(2, 15)
+}
+
+// Listener registry shared by every transport and the game manager
+export class GameEventEmitter {
+  private eventListeners = new Map<GameEvent, ((...args: unknown[]) => void)[]>()
+
+  constructor() {
+    // Initialize event listener arrays
+    GAME_EVENTS.forEach(event => {
+      this.eventListeners.set(event, [])
+    })
+  }
+
+  on<T extends GameEvent>(event: T, callback: P2PGameEvents[T]) {
+    const listeners = this.eventListeners.get(event) || []
+    listeners.push(callback as (...args: unknown[]) => void)
+    this.eventListeners.set(event, listeners)
+  }
+
+  off<T extends GameEvent>(event: T, callback: P2PGameEvents[T]) {
+    const listeners = this.eventListeners.get(event) || []
+    const index = listeners.indexOf(callback as (...args: unknown[]) => void)
+    if (index > -1) {
+      listeners.splice(index, 1)
+    }
+  }
+
+  emit<T extends GameEvent>(event: T, ...args: Parameters<P2PGameEvents[T]>) {
+    const listeners = this.eventListeners.get(event) || []
+    listeners.forEach(listener => listener(...args))
+  }
+
+  // Validate a received message, then unpack it into the listener arguments
+  // for its event type. Only the relay transport can vouch for the relay's
+  // own notices; anywhere else, a peer could simply call itself the relay.
+  protected handleMessage(received: unknown, hostId: string | null, fromRelay: boolean = false) {
+    const rejection = validateMessage(received, hostId, fromRelay)
+    if (rejection) {
+      console.warn(rejection, received)
+      this.emit('game:error', rejection)
+      return
+    }
+
+    const message = received as P2PMessage
+    const listeners = this.eventListeners.get(message.type) || []
+    listeners.forEach(listener => {
+      switch (message.type) {
+        case 'game:guess':
+          const guessData = message.data as { playerId: string; guess: Guess }
+          listener(guessData.playerId, guessData.guess, message.senderId)
+          break
+        case 'game:finished':
+          const finishData = message.data as { playerId: string; finalTime: number }
+          listener(finishData.playerId, finishData.finalTime)
+          break
+        case 'game:secret':
+          const secretData = message.data as { playerId: string; word: string }
+          listener(secretData.playerId, secretData.word)
+          break
+        case 'game:join-request':
+          const joinData = message.data as { player: Player; reconnectToken?: string; spectator?: boolean }
+          listener(joinData.player, joinData.reconnectToken, joinData.spectator)
+          break
+        default:
+          listener(message.data)
+      }
+    })
+  }
+}
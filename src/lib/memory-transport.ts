@@ -0,0 +1,92 @@
+import { GameEvent, GameEventEmitter, GameTransport, HOST_PEER, P2PMessage, PROTOCOL_VERSION, generatePeerId } from './game-transport'
+
+// Games hosted in this JavaScript context, keyed by game ID
+const games = new Map<string, Map<string, InMemoryTransport>>()
+// Peer ID of each game's host
+const hosts = new Map<string, string>()
+
+// Transport that delivers messages between instances in the same JavaScript
+// context, e.g. several game managers driven from one script
+export class InMemoryTransport extends GameEventEmitter implements GameTransport {
+  private gameId: string | null = null
+  private myId: string = generatePeerId()
+
+  async createGame(gameId: string): Promise<string> {
+    this.gameId = gameId
+    games.set(gameId, new Map([[this.myId, this]]))
+    hosts.set(gameId, this.myId)
+    return this.myId
+  }
+
+  async joinGame(gameId: string): Promise<string | null> {
+    const peers = games.get(gameId)
+    if (!peers) {
+      throw new Error('Game not found. The host may have left or the game may not exist.')
+    }
+
+    this.gameId = gameId
+    peers.set(this.myId, this)
+    return null
+  }
+
+  private deliver(peer: InMemoryTransport, message: P2PMessage) {
+    // Deliver asynchronously, like a real network would
+    setTimeout(() => peer.handleMessage(message, peer.getHostId()), 0)
+  }
+
+  private createMessage(type: GameEvent, data: unknown, to?: string): P2PMessage {
+    return {
+      version: PROTOCOL_VERSION,
+      type,
+      data,
+      senderId: this.myId,
+      to,
+      timestamp: Date.now()
+    }
+  }
+
+  broadcast(type: GameEvent, data: unknown) {
+    const peers = this.gameId ? games.get(this.gameId) : undefined
+    if (!peers) return
+
+    const message = this.createMessage(type, data)
+    peers.forEach((peer, peerId) => {
+      if (peerId !== this.myId) this.deliver(peer, message)
+    })
+  }
+
+  send(peerId: string, type: GameEvent, data: unknown) {
+    const recipient = peerId === HOST_PEER && this.gameId ? hosts.get(this.gameId) : peerId
+    const peer = this.gameId && recipient ? games.get(this.gameId)?.get(recipient) : undefined
+    if (!peer) return
+
+    this.deliver(peer, this.createMessage(type, data, peerId))
+  }
+
+  getMyId(): string {
+    return this.myId
+  }
+
+  getHostId(): string | null {
+    return this.gameId ? hosts.get(this.gameId) ?? null : null
+  }
+
+  // Whether a game with this ID is hosted in this JavaScript context
+  static gameExists(gameId: string): boolean {
+    return games.has(gameId)
+  }
+
+  disconnect() {
+    const peers = this.gameId ? games.get(this.gameId) : undefined
+    if (peers) {
+      peers.delete(this.myId)
+      if (peers.size === 0 && this.gameId) {
+        games.delete(this.gameId)
+        hosts.delete(this.gameId)
+      }
+    }
+
+    this.gameId = null
+    this.myId = generatePeerId() // Generate new ID for next session
+  }
+}
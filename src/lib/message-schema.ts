@@ -0,0 +1,207 @@
+import { GAME_EVENTS, GameEvent, P2PMessage, PROTOCOL_VERSION, RELAY_SENDER } from './game-transport'
+import type { RelayFrame } from './websocket-transport'
+
+// Runtime checks for everything that arrives from another peer. Messages are
+// plain JSON from code we don't control, so nothing is trusted by its type.
+
+type Check = (value: unknown) => boolean
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isString: Check = value => typeof value === 'string'
+const isNumber: Check = value => typeof value === 'number' && Number.isFinite(value)
+const isBoolean: Check = value => typeof value === 'boolean'
+const isNothing: Check = value => value === null || value === undefined
+
+const optional = (check: Check): Check => value => value === undefined || check(value)
+const arrayOf = (check: Check): Check => value => Array.isArray(value) && value.every(check)
+const oneOf = (...options: unknown[]): Check => value => options.includes(value)
+
+function shape(fields: Record<string, Check>): Check {
+  return value => isRecord(value) && Object.entries(fields).every(([key, check]) => check(value[key]))
+}
+
+const isGuess = shape({
+  word: isString,
+  commonLetters: isNumber,
+  exactPositions: optional(isNumber),
+  timestamp: isNumber,
+  targetId: optional(isString)
+})
+
+const isScore = shape({
+  points: isNumber,
+  timeBonus: isNumber,
+  guessBonus: isNumber,
+  partialCredit: isNumber,
+  hintPenalty: isNumber,
+  finished: isBoolean
+})
+
+const isPlayer = shape({
+  id: isString,
+  name: isString,
+  guesses: arrayOf(isGuess),
+  timeUsed: isNumber,
+  status: oneOf('playing', 'finished', 'out', 'disconnected'),
+  joinedAt: isNumber,
+  hintsUsed: isNumber,
+  bot: optional(oneOf('random', 'greedy', 'optimal')),
+  score: optional(isScore)
+})
+
+const isClassicView = shape({
+  secrets: optional(value => isRecord(value) && Object.values(value).every(isString)),
+  turnOrder: arrayOf(isString),
+  turn: isNumber,
+  winnerId: optional(isString)
+})
+
+const isSpectator = shape({
+  id: isString,
+  name: isString,
+  joinedAt: isNumber
+})
+
+const isMatch = shape({
+  round: isNumber,
+  setterId: isString,
+  wordSet: isBoolean,
+  totals: value => isRecord(value) && Object.values(value).every(isNumber)
+})
+
+const isGameView = shape({
+  gameId: isString,
+  hostId: isString,
+  hostWord: optional(isString),
+  players: arrayOf(isPlayer),
+  status: oneOf('waiting', 'playing', 'finished'),
+  startTime: optional(isNumber),
+  pausedAt: optional(isNumber),
+  commitment: isString,
+  salt: optional(isString),
+  bannedNames: arrayOf(isString),
+  spectators: arrayOf(isSpectator),
+  classic: optional(isClassicView),
+  match: optional(isMatch),
+  settings: shape({
+    mode: oneOf('race', 'classic'),
+    wordRule: oneOf('dictionary', 'any'),
+    wordLength: isNumber,
+    distinctLetters: shape({ secret: isBoolean, guesses: isBoolean }),
+    positionalFeedback: isBoolean,
+    hints: isBoolean,
+    scoring: shape({
+      timeWeight: isNumber,
+      guessWeight: isNumber,
+      hintPenalty: isNumber,
+      dnf: oneOf('zero', 'partial')
+    }),
+    timeLimit: optional(isNumber),
+    maxGuesses: optional(isNumber),
+    rounds: optional(isNumber),
+    gameMaster: optional(isBoolean),
+    spectatorDelay: optional(isNumber)
+  })
+})
+
+// The payload each event carries, as sent by the transports' broadcast/send
+const PAYLOADS: Record<GameEvent, Check> = {
+  'game:state': isGameView,
+  'game:player-joined': isPlayer,
+  'game:player-left': isString,
+  'game:guess': shape({ playerId: isString, guess: isGuess }),
+  'game:finished': shape({ playerId: isString, finalTime: isNumber }),
+  'game:error': isString,
+  'game:join-request': shape({ player: isPlayer, reconnectToken: optional(isString), spectator: optional(isBoolean) }),
+  'game:leave': isString,
+  'game:terminated': isNothing,
+  'game:host-away': isNumber,
+  'game:session': shape({ playerId: isString, reconnectToken: isString }),
+  'game:heartbeat': isString,
+  'game:secret': shape({ playerId: isString, word: isString }),
+  'game:hint-request': isString,
+  'game:hint': shape({
+    candidates: isNumber,
+    suggestion: optional(isString),
+    information: optional(isNumber),
+    afterGuesses: isNumber
+  }),
+  'game:countdown': isNumber,
+  'game:kicked': isBoolean
+}
+
+// Events a player only ever sends on their own behalf. The player ID they
+// claim has to be the peer that sent them, or anyone could leave as someone
+// else. Guesses are checked by the host, since it also relays them to players.
+const CLAIMED_PLAYER: Partial<Record<GameEvent, (data: never) => string>> = {
+  'game:join-request': (data: { player: { id: string } }) => data.player.id,
+  'game:leave': (data: string) => data,
+  'game:heartbeat': (data: string) => data,
+  'game:secret': (data: { playerId: string }) => data.playerId,
+  'game:hint-request': (data: string) => data
+}
+
+// Events that only the host sends, or the relay for its own notices. From
+// anyone else they'd be another player trying to run or end the game.
+const HOST_EVENTS: GameEvent[] = [
+  'game:state', 'game:player-joined', 'game:player-left', 'game:finished',
+  'game:error', 'game:terminated', 'game:host-away', 'game:session',
+  'game:hint', 'game:countdown', 'game:kicked'
+]
+
+const isEnvelope = shape({
+  // Looked up at call time: game-transport.ts imports this module
+  type: value => GAME_EVENTS.includes(value as GameEvent),
+  senderId: isString,
+  to: optional(isString),
+  timestamp: isNumber
+})
+
+// Frames peers send to the relay in server/index.ts. The relay only reads a
+// message's envelope; the peers it reaches check the rest.
+const isHostFrame = shape({ kind: oneOf('host'), gameId: isString, peerId: isString, hostKey: optional(isString) })
+const isJoinFrame = shape({ kind: oneOf('join'), gameId: isString, peerId: isString })
+const isMessageFrame = shape({ kind: oneOf('message'), message: isEnvelope })
+
+export function isRelayRequest(frame: unknown): frame is RelayFrame {
+  return isHostFrame(frame) || isJoinFrame(frame) || isMessageFrame(frame)
+}
+
+// Returns why a received message should be rejected, or null if it's valid.
+// hostId is the game's host as the receiving transport knows it, and
+// fromRelay whether the message came through the WebSocket relay.
+export function validateMessage(message: unknown, hostId: string | null, fromRelay: boolean): string | null {
+  if (!isEnvelope(message)) {
+    return 'Ignored a malformed message from another player.'
+  }
+
+  const { type, data, senderId, to, version } = message as P2PMessage
+
+  if (version !== PROTOCOL_VERSION) {
+    return `Ignored a ${type} message from a different version of Jotto ` +
+      `(protocol ${version ?? 'unknown'}, expected ${PROTOCOL_VERSION}). Everyone should reload the page.`
+  }
+
+  if (!PAYLOADS[type](data)) {
+    return `Ignored a ${type} message with invalid contents.`
+  }
+
+  const isRelayNotice = fromRelay && senderId === RELAY_SENDER
+  if (HOST_EVENTS.includes(type) && senderId !== hostId && !isRelayNotice) {
+    return `Ignored a ${type} message that didn't come from the host.`
+  }
+
+  // Guesses go from a player to the host, and only the host passes them on
+  if (type === 'game:guess' && senderId !== hostId && to !== hostId) {
+    return `Ignored a ${type} message that didn't come from the host.`
+  }
+
+  const claimedPlayer = CLAIMED_PLAYER[type]?.(data as never)
+  if (claimedPlayer !== undefined && claimedPlayer !== senderId) {
+    return `Ignored a ${type} message that claimed to come from another player.`
+  }
+
+  return null
+}
@@ -1,71 +1,284 @@
-import { broadcastManager } from './broadcast-manager'
+import {
+  GAME_EVENTS,
+  GameEvent,
+  GameEventEmitter,
+  GameTransport,
+  HOST_GRACE_PERIOD,
+  HOST_PEER,
+  P2PGameEvents,
+  PlayerSession
+} from './game-transport'
+import { BroadcastManager } from './broadcast-manager'
+import { WebRTCManager } from './webrtc'
+import { InMemoryTransport } from './memory-transport'
+import { WebSocketTransport } from './websocket-transport'
+import {
+  FairnessResult,
+  ObservedGuess,
+  createCommitment,
+  generateSalt,
+  randomHex,
+  verifyFairness
+} from './commitment'
 import { 
   GameState, 
+  GameView, 
+  GameSettings,
+  BotLevel,
   Player, 
+  Spectator,
   Guess, 
+  DEFAULT_SETTINGS,
+  MAX_WORD_LENGTH,
+  MIN_WORD_LENGTH,
   generateGameId, 
+  getGuessTarget,
+  getStartError,
+  hasFoundSecret,
+  createMatch,
+  createSpectatorView,
+  isGameMaster,
+  isMatch,
+  isSetter,
+  isValidLimit,
+  isValidWordLength,
+  isValidScoring,
+  renamePlayer,
   calculateCommonLetters, 
+  calculateScore,
+  calculateExactPositions,
   isWordCorrect, 
-  validateWord 
+  createGameView
 } from './game-logic'
+import { checkWord, loadDictionary, pickSecretWord } from './dictionary'
+import { Hint, createHint, getGuessPool, getSecretPool } from './solver'
+import { BOT_MAX_DELAY, BOT_MIN_DELAY, chooseBotGuess, getBotLabel } from './bots'
+
+// 'local' reaches tabs in the same browser, 'webrtc' reaches devices on the same
+// network, 'relay' goes through a self-hosted WebSocket relay and 'memory' stays
+// inside this page
+export type GameNetwork = 'local' | 'webrtc' | 'relay' | 'memory'
+
+export function createTransport(network: GameNetwork, relayUrl?: string): GameTransport {
+  switch (network) {
+    case 'webrtc':
+      return new WebRTCManager()
+    case 'relay':
+      return new WebSocketTransport(relayUrl)
+    case 'memory':
+      return new InMemoryTransport()
+    default:
+      return new BroadcastManager()
+  }
+}
+
+// Players ping the host this often, and show as disconnected after missing a
+// few pings in a row
+const HEARTBEAT_INTERVAL = 5000
+const PRESENCE_TIMEOUT = 3 * HEARTBEAT_INTERVAL
+
+// Time between the host pressing Start and the first guess
+const COUNTDOWN_DURATION = 3000
+
+// What a host needs to pick its game back up after the tab closes
+interface HostSnapshot {
+  gameState: GameState
+  reconnectTokens: [string, string][]
+  network: GameNetwork
+  relayUrl: string | null
+  savedAt: number
+}
 
 export class P2PGameManager {
+  // Authoritative state, only held by the host
   private gameState: GameState | null = null
+  // What the host last sent us, on players' clients
+  private gameView: GameView | null = null
+  // Commitment from the first view we received, and every guess result since
+  private commitment: string | null = null
+  private observedGuesses = new Map<string, ObservedGuess>()
+  // The match round those guesses were made in
+  private observedRound?: number
+  // Each player's ID by name, to notice when one comes back under a new ID
+  private observedIds = new Map<string, string>()
   private isHost = false
+  // Joined to watch, not to play
+  private isSpectator = false
   private currentPlayerId: string | null = null
+  private gameId: string | null = null
+  private networkType: GameNetwork = 'local'
+  private transport: GameTransport = createTransport('local')
+  private pendingAnswer: string | null = null
+  private relayUrl: string | null = null
+  private hostAwayTimer: ReturnType<typeof setTimeout> | null = null
+  // Host only: reconnect token -> ID of the player it was issued to
+  private reconnectTokens = new Map<string, string>()
+  // Host only: when each player's last heartbeat arrived
+  private lastSeen = new Map<string, number>()
+  private lastPresenceCheck = 0
+  private presenceTimer: ReturnType<typeof setInterval> | null = null
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null
+  // Host only: the next guess of each bot, by bot ID
+  private botTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  // Host only: set from the press of Start until play begins
+  private countdownTimer: ReturnType<typeof setTimeout> | null = null
+  // Host only: ends the game at the time limit, if there is one
+  private limitTimer: ReturnType<typeof setTimeout> | null = null
+  // Host only: sends spectators the next guess once its delay is up
+  private spectatorTimer: ReturnType<typeof setTimeout> | null = null
+  private events = new GameEventEmitter()
+  private relays = new Map<GameEvent, (...args: unknown[]) => void>()
 
   constructor() {
     this.setupEventListeners()
+    this.setupRelays()
+    this.setupLifecycleHandlers()
   }
 
   private setupEventListeners() {
-    // Host-specific events
-    broadcastManager.on('game:guess', this.handlePlayerGuess.bind(this))
-    broadcastManager.on('game:join-request', this.handleJoinRequest.bind(this))
+    // Host-specific events. Incoming guesses go straight to the host's
+    // handlePlayerGuess instead, since they arrive unscored.
+    this.events.on('game:join-request', this.handleJoinRequest.bind(this))
     
     // All players receive these events
-    broadcastManager.on('game:state', this.handleGameStateUpdate.bind(this))
-    broadcastManager.on('game:player-joined', this.handlePlayerJoined.bind(this))
-    broadcastManager.on('game:player-left', this.handlePlayerLeft.bind(this))
-    broadcastManager.on('game:finished', this.handlePlayerFinished.bind(this))
-    broadcastManager.on('game:error', this.handleError.bind(this))
-    broadcastManager.on('game:terminated', this.handleGameTerminated.bind(this))
+    this.events.on('game:state', this.handleGameStateUpdate.bind(this))
+    this.events.on('game:player-joined', this.handlePlayerJoined.bind(this))
+    this.events.on('game:player-left', this.handlePlayerLeft.bind(this))
+    this.events.on('game:finished', this.handlePlayerFinished.bind(this))
+    this.events.on('game:error', this.handleError.bind(this))
+    this.events.on('game:terminated', this.handleGameTerminated.bind(this))
+    this.events.on('game:host-away', this.handleHostAway.bind(this))
+    this.events.on('game:session', this.handleSession.bind(this))
+    this.events.on('game:heartbeat', this.handleHeartbeat.bind(this))
+    this.events.on('game:secret', this.handleSecret.bind(this))
+    this.events.on('game:hint-request', this.handleHintRequest.bind(this))
+    this.events.on('game:leave', this.handlePlayerLeft.bind(this))
+    this.events.on('game:kicked', this.handleKicked.bind(this))
+  }
+
+  private setupLifecycleHandlers() {
+    // Only setup handlers in browser environment
+    if (typeof window === 'undefined') return
+
+    // Closing or reloading the host's tab pauses the game instead of ending it
+    window.addEventListener('beforeunload', () => {
+      if (!this.isHost || !this.canResume()) return
+
+      this.saveHostSnapshot()
+      this.transport.broadcast('game:host-away', Date.now() + HOST_GRACE_PERIOD)
+    })
+
+    // Mobile browsers hide the tab whenever the host checks another app
+    document.addEventListener('visibilitychange', () => {
+      if (!this.isHost) return
+
+      if (document.visibilityState === 'hidden') {
+        this.saveHostSnapshot()
+      } else {
+        // Catch players up on anything that arrived while we were suspended
+        this.broadcastGameState()
+      }
+    })
+  }
+
+  // Forward everything the transport receives to our own listeners, so
+  // components keep their subscriptions when the transport is swapped
+  private setupRelays() {
+    GAME_EVENTS.forEach(event => {
+      const relay = (...args: unknown[]) => {
+        if (event === 'game:guess' && this.isHost) {
+          this.handlePlayerGuess(...(args as Parameters<P2PGameEvents['game:guess']>))
+          return
+        }
+        this.events.emit(event, ...(args as Parameters<P2PGameEvents[typeof event]>))
+      }
+      this.relays.set(event, relay)
+    })
+    this.attachTransport()
+  }
+
+  private attachTransport() {
+    this.relays.forEach((relay, event) => this.transport.on(event, relay))
+  }
+
+  private detachTransport() {
+    this.relays.forEach((relay, event) => this.transport.off(event, relay))
+  }
+
+  // Switch to a fresh transport for the network a game is played on
+  private useTransport(network: GameNetwork, relayUrl?: string) {
+    this.detachTransport()
+    this.transport.disconnect()
+
+    this.networkType = network
+    this.relayUrl = network === 'relay' ? relayUrl || null : null
+    this.transport = createTransport(network, relayUrl)
+    this.attachTransport()
   }
 
   // HOST METHODS
 
-  async createGame(hostWord: string, playerName: string): Promise<string> {
-    if (!validateWord(hostWord)) {
-      throw new Error('Invalid host word. Must be a 5-letter word.')
+  async createGame(
+    hostWord: string,
+    playerName: string,
+    settings: GameSettings = DEFAULT_SETTINGS,
+    network: GameNetwork = 'local',
+    relayUrl?: string
+  ): Promise<string> {
+    this.validateSettings(settings)
+
+    const wordError = await checkWord(hostWord, settings, 'secret')
+    if (wordError) {
+      throw new Error(`Invalid host word. ${wordError}`)
     }
 
     if (!playerName.trim()) {
       throw new Error('Player name is required.')
     }
 
+    this.useTransport(network, relayUrl)
     this.isHost = true
-    this.currentPlayerId = broadcastManager.getMyId()
+    this.currentPlayerId = this.transport.getMyId()
     
     const gameId = generateGameId()
+    this.gameId = gameId
     const hostPlayer: Player = {
       id: this.currentPlayerId,
       name: playerName.trim(),
       guesses: [],
       timeUsed: 0,
       status: 'playing',
-      joinedAt: Date.now()
+      joinedAt: Date.now(),
+      hintsUsed: 0
     }
 
+    const salt = generateSalt()
     this.gameState = {
       gameId,
+      hostId: this.currentPlayerId,
       hostWord: hostWord.toUpperCase(),
       players: [hostPlayer],
       status: 'waiting',
-      startTime: Date.now()
+      commitment: createCommitment(hostWord, salt),
+      salt,
+      settings,
+      bannedNames: [],
+      spectators: []
+    }
+
+    // The host's own secret is hostWord, so they're ready to take turns
+    if (settings.mode === 'classic') {
+      this.gameState.classic = { secrets: {}, turnOrder: [this.currentPlayerId], turn: 0 }
     }
 
-    // Initialize BroadcastChannel as host
-    await broadcastManager.createGame(gameId)
+    // The host sets the first round's word
+    if (isMatch(settings)) {
+      this.gameState.match = createMatch(this.currentPlayerId)
+    }
+
+    // Initialize the chosen network as host
+    await this.transport.createGame(gameId)
+    this.startPresenceChecks()
     
     // Save player name for potential reconnection
     localStorage.setItem(`jotto-player-name-${gameId}`, playerName.trim())
@@ -76,163 +289,1207 @@ export class P2PGameManager {
     return gameId
   }
 
-  private handlePlayerGuess(playerId: string, guess: Guess) {
+  private validateSettings(settings: GameSettings) {
+    if (!isValidWordLength(settings.wordLength)) {
+      throw new Error(`Word length must be between ${MIN_WORD_LENGTH} and ${MAX_WORD_LENGTH} letters.`)
+    }
+    if (!isValidScoring(settings.scoring)) {
+      throw new Error('Scoring weights and penalties must be zero or more.')
+    }
+    if (!isValidLimit(settings.timeLimit) || !isValidLimit(settings.maxGuesses)) {
+      throw new Error('Time and guess limits must be positive whole numbers.')
+    }
+    if (!isValidLimit(settings.rounds)) {
+      throw new Error('The number of rounds must be a positive whole number.')
+    }
+    if (!isValidLimit(settings.spectatorDelay)) {
+      throw new Error('The spectator delay must be a positive whole number of seconds.')
+    }
+  }
+
+  private async handlePlayerGuess(playerId: string, guess: Guess, senderId?: string) {
     if (!this.isHost || !this.gameState) return
 
+    // Players may only guess for themselves
+    if (senderId !== undefined && senderId !== playerId) {
+      this.rejectGuess(senderId, 'you can only guess as yourself.')
+      return
+    }
+
+    let wordError: string | null
+    try {
+      wordError = await checkWord(guess.word, this.gameState.settings)
+    } catch (error) {
+      console.error('Failed to load dictionary:', error)
+      this.rejectGuess(playerId, "the word list couldn't be loaded. Please try again.")
+      return
+    }
+    if (wordError) {
+      this.rejectGuess(playerId, wordError)
+      return
+    }
+
+    // The game may have moved on while the dictionary loaded
+    if (!this.gameState) return
     const player = this.gameState.players.find(p => p.id === playerId)
     
     if (!player || player.status === 'finished') return
 
-    if (!validateWord(guess.word)) {
-      broadcastManager.send(playerId, 'game:error', 'Invalid word. Must be a 5-letter word.')
+    if (this.gameState.status !== 'playing') {
+      this.rejectGuess(playerId, 'the game has not started yet.')
+      return
+    }
+
+    if (this.gameState.pausedAt) {
+      this.rejectGuess(playerId, 'the game is paused.')
+      return
+    }
+
+    if (isGameMaster(this.gameState, playerId)) {
+      this.rejectGuess(playerId, "the game master doesn't guess.")
+      return
+    }
+
+    // The timer may not have fired yet if the host's tab was asleep
+    if (this.isPastTimeLimit()) {
+      this.rejectGuess(playerId, 'time is up.')
+      this.endAtTimeLimit()
+      return
+    }
+
+    if (player.status === 'out') {
+      this.rejectGuess(playerId, "you're out of guesses.")
+      return
+    }
+
+    if (isSetter(this.gameState, playerId)) {
+      this.rejectGuess(playerId, "you set this round's word.")
       return
     }
 
-    const commonLetters = calculateCommonLetters(this.gameState.hostWord, guess.word.toUpperCase())
+    // Race guesses are scored against the host's word, classic ones against
+    // the word of the player next in turn order
+    let secret = this.gameState.hostWord
+    let targetId: string | undefined
+    const classic = this.gameState.classic
+    if (classic) {
+      if (classic.turnOrder[classic.turn] !== playerId) {
+        this.rejectGuess(playerId, "it's not your turn.")
+        return
+      }
+
+      targetId = getGuessTarget(classic, playerId)
+      if (!targetId) return
+      secret = targetId === this.gameState.hostId ? this.gameState.hostWord : classic.secrets[targetId]
+    }
+
+    const commonLetters = calculateCommonLetters(secret, guess.word.toUpperCase())
     const timeUsed = this.gameState.startTime ? Math.floor((Date.now() - this.gameState.startTime) / 1000) : 0
 
     const processedGuess: Guess = {
       word: guess.word.toUpperCase(),
       commonLetters,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      ...(this.gameState.settings.positionalFeedback && {
+        exactPositions: calculateExactPositions(secret, guess.word)
+      }),
+      ...(targetId && { targetId })
     }
 
     player.guesses.push(processedGuess)
     player.timeUsed = timeUsed
 
     // Check if the guess is correct
-    if (isWordCorrect(this.gameState.hostWord, guess.word)) {
+    if (isWordCorrect(secret, guess.word)) {
       player.status = 'finished'
       
       // Broadcast that player finished
-      broadcastManager.broadcast('game:finished', { playerId, finalTime: timeUsed })
+      this.sendToPlayers('game:finished', { playerId, finalTime: timeUsed })
       
-      // Check if all players are finished
-      const activePlayers = this.gameState.players.filter(p => p.status !== 'disconnected')
-      const finishedPlayers = activePlayers.filter(p => p.status === 'finished')
-      
-      if (finishedPlayers.length === activePlayers.length) {
-        this.gameState.status = 'finished'
+      if (classic) {
+        // First to find their opponent's word wins
+        classic.winnerId = playerId
+        this.finishGame()
+      } else {
+        // Check if all players are finished
+        this.checkGameProgress()
+      }
+    } else {
+      if (this.hasHitGuessLimit(player)) {
+        player.status = 'out'
+      }
+      if (classic) {
+        this.advanceTurn()
+      }
+      if (player.status === 'out') {
+        this.checkGameProgress()
       }
     }
 
-    // Broadcast the guess to all players
-    broadcastManager.broadcast('game:guess', { playerId, guess: processedGuess })
+    // Broadcast the scored guess to all players, and to our own listeners
+    this.sendToPlayers('game:guess', { playerId, guess: processedGuess })
+    this.events.emit('game:guess', playerId, processedGuess)
     
     // Send updated game state
     this.broadcastGameState()
   }
 
-  private handleJoinRequest(player: Player) {
+  // Tell a player why their guess didn't count. The host's own guesses are
+  // handled in this tab, so its errors are raised here too.
+  private rejectGuess(playerId: string, reason: string) {
+    this.sendError(playerId, `Guess rejected: ${reason}`)
+  }
+
+  private sendError(playerId: string, message: string) {
+    if (playerId === this.currentPlayerId) {
+      this.events.emit('game:error', message)
+    } else {
+      this.transport.send(playerId, 'game:error', message)
+    }
+  }
+
+  // Classic games: a player sets the secret word the player before them will
+  // guess. Matches: this round's setter sets the word everyone else races for.
+  private async handleSecret(playerId: string, word: string) {
+    if (!this.isHost || !this.gameState) return
+
+    if (this.gameState.match) {
+      await this.handleRoundWord(playerId, word)
+      return
+    }
+    if (!this.gameState.classic) return
+
+    const wordError = await checkWord(word, this.gameState.settings, 'secret')
+
+    // The game may have moved on while the dictionary loaded
+    const classic = this.gameState?.classic
+    const player = this.gameState?.players.find(p => p.id === playerId)
+    if (!this.gameState || !classic || !player || this.gameState.status === 'finished') return
+
+    // Everyone's target is the next player in turn order, so a player added
+    // mid-game would change whose word the last player is after
+    if (this.gameState.status !== 'waiting') {
+      this.transport.send(playerId, 'game:error', 'The game has already started. You can play in the next one.')
+      return
+    }
+
+    if (wordError) {
+      this.transport.send(playerId, 'game:error', `Secret word rejected: ${wordError}`)
+      return
+    }
+
+    // Secrets can't be swapped once set
+    if (classic.turnOrder.includes(playerId)) return
+
+    classic.secrets[playerId] = word.toUpperCase()
+    classic.turnOrder.push(playerId)
+
+    this.broadcastGameState()
+  }
+
+  private async handleRoundWord(playerId: string, word: string) {
+    const wordError = await checkWord(word, this.gameState!.settings, 'secret')
+
+    // The round may have moved on while the dictionary loaded
+    const gameState = this.gameState
+    const match = gameState?.match
+    if (!gameState || !match || gameState.status !== 'waiting' || match.setterId !== playerId || match.wordSet) return
+
+    if (wordError) {
+      this.sendError(playerId, `Secret word rejected: ${wordError}`)
+      return
+    }
+
+    this.setRoundWord(word)
+    this.broadcastGameState()
+  }
+
+  // Matches: a fresh salt and commitment for each round's word
+  private setRoundWord(word: string) {
+    const gameState = this.gameState
+    if (!gameState?.match) return
+
+    gameState.hostWord = word.toUpperCase()
+    gameState.salt = generateSalt()
+    gameState.commitment = createCommitment(gameState.hostWord, gameState.salt)
+    gameState.match.wordSet = true
+  }
+
+  // Run the solver over a player's guesses so far, and charge them for it
+  private async handleHintRequest(playerId: string) {
+    if (!this.isHost || !this.gameState?.settings.hints) return
+
+    const dictionary = await loadDictionary()
+
+    // The game may have moved on while the dictionary loaded
+    const gameState = this.gameState
+    const player = gameState?.players.find(p => p.id === playerId)
+    if (!gameState || !player || player.status !== 'playing' || gameState.status !== 'playing') return
+    if (gameState.pausedAt || isSetter(gameState, playerId) || isGameMaster(gameState, playerId)) return
+
+    // Classic players only learn from guesses at the word they're after now
+    const targetId = gameState.classic ? getGuessTarget(gameState.classic, playerId) : undefined
+    const guesses = player.guesses.filter(guess => guess.targetId === targetId)
+
+    const { settings } = gameState
+    const hint = createHint(getSecretPool(dictionary.all, settings), getGuessPool(dictionary.all, settings), guesses, settings)
+    player.hintsUsed++
+
+    if (playerId === this.currentPlayerId) {
+      this.events.emit('game:hint', hint)
+    } else {
+      this.transport.send(playerId, 'game:hint', hint)
+    }
+    this.broadcastGameState()
+  }
+
+  // Only the joiner's peer ID and name are taken from the request. The rest
+  // of their record is the host's to set, or they could arrive with a head start.
+  private handleJoinRequest(joiner: Player, reconnectToken?: string, spectator?: boolean) {
     if (this.isHost && this.gameState) {
+      // A returning player gets their old record back under their new peer ID
+      const returningId = reconnectToken ? this.reconnectTokens.get(reconnectToken) : undefined
+      const returningPlayer = this.gameState.players.find(p => p.id === returningId)
+      if (reconnectToken && returningPlayer) {
+        this.resumePlayer(returningPlayer, joiner.id, reconnectToken)
+        return
+      }
+
+      const name = joiner.name.trim()
+      if (!name) {
+        this.transport.send(joiner.id, 'game:error', 'Player name is required.')
+        return
+      }
+
+      if (this.isBanned(name)) {
+        this.transport.send(joiner.id, 'game:error', 'You have been banned from this game.')
+        return
+      }
+
+      // Spectators only need a name to show in the count, so no checks or session
+      if (spectator) {
+        const newSpectator: Spectator = { id: joiner.id, name, joinedAt: Date.now() }
+        this.gameState.spectators.push(newSpectator)
+        this.lastSeen.set(joiner.id, Date.now())
+        this.broadcastGameState()
+        return
+      }
+
       // Check if player name is already taken
-      const existingPlayer = this.gameState.players.find(p => p.name === player.name)
+      const existingPlayer = this.gameState.players.find(p => p.name === name)
       if (existingPlayer) {
-        broadcastManager.send(player.id, 'game:error', 'Player name already taken in this game.')
+        this.transport.send(joiner.id, 'game:error', 'Player name already taken in this game.')
         return
       }
 
       // Add player to game
+      const player: Player = {
+        id: joiner.id,
+        name,
+        guesses: [],
+        timeUsed: 0,
+        status: 'playing',
+        joinedAt: Date.now(),
+        hintsUsed: 0
+      }
       this.gameState.players.push(player)
+      this.lastSeen.set(player.id, Date.now())
+      this.issueSession(player.id)
       
       // Broadcast new player joined
-      broadcastManager.broadcast('game:player-joined', player)
+      this.transport.broadcast('game:player-joined', player)
       
       // Send current game state to all players
       this.broadcastGameState()
     }
   }
 
+  private issueSession(playerId: string, reconnectToken: string = randomHex(16)) {
+    this.reconnectTokens.set(reconnectToken, playerId)
+    const session: PlayerSession = { playerId, reconnectToken }
+    this.transport.send(playerId, 'game:session', session)
+  }
+
+  private resumePlayer(player: Player, newId: string, reconnectToken: string) {
+    if (!this.gameState) return
+
+    renamePlayer(this.gameState, player.id, newId)
+    this.lastSeen.set(newId, Date.now())
+    this.markConnected(player)
+
+    // Keep the same token, now pointing at the new peer ID
+    this.issueSession(newId, reconnectToken)
+    this.broadcastGameState()
+  }
+
+  // A race ends once every connected player has found the word or is out,
+  // not counting a match round's setter or the game master. Classic games
+  // end on the first win instead, or once every connected player is out;
+  // otherwise the turn only has to move past anyone who dropped out.
+  private checkGameProgress() {
+    if (!this.gameState) return
+
+    const classic = this.gameState.classic
+    if (classic) {
+      const inGame = this.gameState.players.filter(p => classic.turnOrder.includes(p.id) && p.status !== 'disconnected')
+      if (inGame.length > 0 && inGame.every(p => p.status === 'out')) {
+        this.finishGame()
+        return
+      }
+
+      const turnHolder = this.gameState.players.find(p => p.id === classic.turnOrder[classic.turn])
+      if (turnHolder && turnHolder.status !== 'playing') this.advanceTurn()
+      return
+    }
+
+    const gameState = this.gameState
+    const activePlayers = gameState.players.filter(p =>
+      p.status !== 'disconnected' && !isSetter(gameState, p.id) && !isGameMaster(gameState, p.id)
+    )
+    const donePlayers = activePlayers.filter(p => p.status === 'finished' || p.status === 'out')
+
+    if (activePlayers.length > 0 && donePlayers.length === activePlayers.length) {
+      this.finishGame()
+    }
+  }
+
+  // However the game ends, its time limit mustn't go off in the next round
+  private finishGame() {
+    if (!this.gameState) return
+
+    this.gameState.status = 'finished'
+    this.clearLimitTimer()
+  }
+
+  private hasHitGuessLimit(player: Player): boolean {
+    const maxGuesses = this.gameState?.settings.maxGuesses
+    return maxGuesses !== undefined && player.guesses.length >= maxGuesses
+  }
+
+  // The clock stands still during a pause; startTime only catches up on resume
+  private isPastTimeLimit(): boolean {
+    const timeLimit = this.gameState?.settings.timeLimit
+    const startTime = this.gameState?.startTime
+    const now = this.gameState?.pausedAt ?? Date.now()
+    return timeLimit !== undefined && startTime !== undefined && now >= startTime + timeLimit * 1000
+  }
+
+  // End the game when the clock runs out, from wherever it is now
+  private startLimitTimer() {
+    this.clearLimitTimer()
+
+    const gameState = this.gameState
+    if (!gameState || gameState.status !== 'playing' || gameState.pausedAt) return
+    if (!gameState.settings.timeLimit || !gameState.startTime) return
+
+    const remaining = gameState.startTime + gameState.settings.timeLimit * 1000 - Date.now()
+    this.limitTimer = setTimeout(() => this.endAtTimeLimit(), Math.max(0, remaining))
+  }
+
+  private clearLimitTimer() {
+    if (this.limitTimer) {
+      clearTimeout(this.limitTimer)
+      this.limitTimer = null
+    }
+  }
+
+  // Everyone still looking is out, and the word is revealed
+  private endAtTimeLimit() {
+    this.clearLimitTimer()
+
+    const gameState = this.gameState
+    if (!gameState || gameState.status !== 'playing' || !gameState.settings.timeLimit) return
+
+    this.endGame(gameState.settings.timeLimit)
+  }
+
+  // Finish the game now. Anyone still looking is out, with the time they had
+  // used if it's given.
+  private endGame(timeUsed?: number) {
+    const gameState = this.gameState
+    if (!gameState) return
+
+    gameState.players.forEach(player => {
+      if (player.status === 'playing' && !isSetter(gameState, player.id) && !isGameMaster(gameState, player.id)) {
+        player.status = 'out'
+        if (timeUsed !== undefined) player.timeUsed = timeUsed
+      }
+    })
+    this.finishGame()
+    gameState.pausedAt = undefined
+    this.broadcastGameState()
+  }
+
+  // Classic games: pass the turn to the next player still in the game
+  private advanceTurn() {
+    const classic = this.gameState?.classic
+    if (!this.gameState || !classic) return
+
+    const count = classic.turnOrder.length
+    for (let step = 1; step <= count; step++) {
+      const index = (classic.turn + step) % count
+      const player = this.gameState.players.find(p => p.id === classic.turnOrder[index])
+      if (player?.status === 'playing') {
+        classic.turn = index
+        return
+      }
+    }
+  }
+
+  // Bring a player back from 'disconnected' to wherever they were
+  private markConnected(player: Player) {
+    if (player.status !== 'disconnected' || !this.gameState) return
+
+    if (isSetter(this.gameState, player.id)) {
+      player.status = 'playing'
+    } else if (hasFoundSecret(this.gameState, player)) {
+      player.status = 'finished'
+    } else {
+      player.status = this.hasHitGuessLimit(player) || this.isPastTimeLimit() ? 'out' : 'playing'
+    }
+  }
+
+  private startPresenceChecks() {
+    this.stopTimers()
+    this.lastPresenceCheck = Date.now()
+    this.presenceTimer = setInterval(() => this.checkPresence(), HEARTBEAT_INTERVAL)
+  }
+
+  private checkPresence() {
+    if (!this.isHost || !this.gameState) return
+
+    const now = Date.now()
+
+    // A late check means our own tab was suspended, not that everyone left
+    if (now - this.lastPresenceCheck > 2 * HEARTBEAT_INTERVAL) {
+      this.lastSeen.forEach((_, playerId) => this.lastSeen.set(playerId, now))
+    }
+    this.lastPresenceCheck = now
+
+    let changed = false
+    this.gameState.players.forEach(player => {
+      if (player.id === this.currentPlayerId || player.bot || player.status === 'disconnected') return
+
+      if (!this.lastSeen.has(player.id)) {
+        this.lastSeen.set(player.id, now)
+      }
+
+      if (now - this.lastSeen.get(player.id)! > PRESENCE_TIMEOUT) {
+        player.status = 'disconnected'
+        changed = true
+      }
+    })
+
+    // Spectators who go quiet are simply dropped; they can always come back
+    const spectators = this.gameState.spectators.filter(spectator =>
+      now - (this.lastSeen.get(spectator.id) ?? now) <= PRESENCE_TIMEOUT
+    )
+    if (spectators.length !== this.gameState.spectators.length) {
+      this.gameState.spectators = spectators
+      changed = true
+    }
+
+    if (changed) {
+      this.checkGameProgress()
+      this.broadcastGameState()
+    }
+  }
+
+  private isWatching(peerId: string): boolean {
+    return !!this.gameState?.spectators.some(spectator => spectator.id === peerId)
+  }
+
+  private handleHeartbeat(playerId: string) {
+    if (!this.isHost || !this.gameState) return
+
+    if (this.isWatching(playerId)) {
+      this.lastSeen.set(playerId, Date.now())
+      return
+    }
+
+    const player = this.gameState.players.find(p => p.id === playerId)
+    if (!player) return
+
+    this.lastSeen.set(playerId, Date.now())
+    if (player.status === 'disconnected') {
+      this.markConnected(player)
+      this.broadcastGameState()
+    }
+  }
+
+  private startHeartbeat() {
+    this.stopTimers()
+    this.heartbeatTimer = setInterval(() => {
+      if (this.gameView && this.currentPlayerId) {
+        this.transport.send(this.gameView.hostId, 'game:heartbeat', this.currentPlayerId)
+      }
+    }, HEARTBEAT_INTERVAL)
+  }
+
+  private stopTimers() {
+    if (this.presenceTimer) {
+      clearInterval(this.presenceTimer)
+      this.presenceTimer = null
+    }
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = null
+    }
+    if (this.countdownTimer) {
+      clearTimeout(this.countdownTimer)
+      this.countdownTimer = null
+    }
+    if (this.limitTimer) {
+      clearTimeout(this.limitTimer)
+      this.limitTimer = null
+    }
+    if (this.spectatorTimer) {
+      clearTimeout(this.spectatorTimer)
+      this.spectatorTimer = null
+    }
+    this.botTimers.forEach(timer => clearTimeout(timer))
+    this.botTimers.clear()
+  }
+
+  // Send every player their own view of the game. The secret word never
+  // leaves the host until the game has finished.
   private broadcastGameState() {
-    if (this.gameState) {
-      // Create a safe version of game state (hide host word from non-hosts)
-      const safeGameState = {
-        ...this.gameState,
-        hostWord: this.isHost ? this.gameState.hostWord : '****'
+    const gameState = this.gameState
+    if (!this.isHost || !gameState) return
+
+    // Scores are only ever worked out here, so every peer sees the same ones
+    gameState.players.forEach(player => {
+      player.score = calculateScore(player, gameState.settings, hasFoundSecret(gameState, player))
+    })
+
+    gameState.players.forEach(player => {
+      if (player.id !== this.currentPlayerId && !player.bot) {
+        this.transport.send(player.id, 'game:state', createGameView(gameState))
+      }
+    })
+
+    this.sendSpectatorViews()
+
+    // Keep the host's own listeners in sync with the authoritative state
+    this.events.emit('game:state', { ...gameState })
+
+    // Bots react to the new state like any other player would
+    this.scheduleBots()
+  }
+
+  // Spectators see each guess only once it's spectatorDelay seconds old, so
+  // their view goes out again whenever the next one comes due
+  private sendSpectatorViews() {
+    const gameState = this.gameState
+    if (!gameState) return
+
+    if (this.spectatorTimer) {
+      clearTimeout(this.spectatorTimer)
+      this.spectatorTimer = null
+    }
+
+    const now = Date.now()
+    const view = createSpectatorView(gameState, now)
+    gameState.spectators.forEach(spectator => this.transport.send(spectator.id, 'game:state', view))
+
+    const delay = (gameState.settings.spectatorDelay ?? 0) * 1000
+    if (gameState.spectators.length === 0 || delay === 0 || gameState.status === 'finished') return
+
+    const due = gameState.players
+      .flatMap(player => player.guesses.map(guess => guess.timestamp + delay))
+      .filter(time => time > now)
+    if (due.length > 0) {
+      this.spectatorTimer = setTimeout(() => this.sendSpectatorViews(), Math.min(...due) - now)
+    }
+  }
+
+  // Guess results go to players only; spectators get them through their
+  // own, possibly delayed, view of the game
+  private sendToPlayers(type: 'game:guess' | 'game:finished', data: unknown) {
+    this.gameState?.players.forEach(player => {
+      if (player.id !== this.currentPlayerId && !player.bot) {
+        this.transport.send(player.id, type, data)
+      }
+    })
+  }
+
+  // LOBBY METHODS
+
+  // Count everyone down together, then start the clock for all players at once
+  startGame() {
+    const gameState = this.gameState
+    if (!this.isHost || !gameState || gameState.status !== 'waiting' || this.countdownTimer) return
+
+    const startError = getStartError(gameState)
+    if (startError) {
+      throw new Error(startError)
+    }
+
+    this.transport.broadcast('game:countdown', COUNTDOWN_DURATION)
+    this.events.emit('game:countdown', COUNTDOWN_DURATION)
+    this.countdownTimer = setTimeout(() => this.beginPlay(), COUNTDOWN_DURATION)
+  }
+
+  private beginPlay() {
+    this.countdownTimer = null
+    const gameState = this.gameState
+    if (!gameState || gameState.status !== 'waiting') return
+
+    gameState.status = 'playing'
+    gameState.startTime = Date.now()
+    this.startLimitTimer()
+    this.broadcastGameState()
+  }
+
+  // Remove a player from the lobby. Banned names can't join again.
+  kickPlayer(playerId: string, ban: boolean = false) {
+    const gameState = this.gameState
+    if (!this.isHost || !gameState || gameState.status !== 'waiting' || this.countdownTimer) return
+    if (playerId === this.currentPlayerId) return
+
+    const player = gameState.players.find(p => p.id === playerId)
+    if (!player) return
+
+    // A kicked setter's word goes with them
+    const nextSetter = isSetter(gameState, playerId) ? this.getNextSetter(playerId) : undefined
+
+    gameState.players = gameState.players.filter(p => p.id !== playerId)
+    if (gameState.classic) {
+      delete gameState.classic.secrets[playerId]
+      gameState.classic.turnOrder = gameState.classic.turnOrder.filter(id => id !== playerId)
+    }
+    if (gameState.match) {
+      delete gameState.match.totals[playerId]
+    }
+    if (ban && !this.isBanned(player.name)) {
+      gameState.bannedNames.push(player.name)
+    }
+
+    // Their reconnect token would let them straight back in
+    this.reconnectTokens.forEach((id, token) => {
+      if (id === playerId) this.reconnectTokens.delete(token)
+    })
+    this.lastSeen.delete(playerId)
+
+    if (!player.bot) {
+      this.transport.send(playerId, 'game:kicked', ban)
+    }
+    if (nextSetter) {
+      this.assignSetter(nextSetter)
+    }
+    this.broadcastGameState()
+  }
+
+  // Matches: bank this round's points and move on to the next round, with the
+  // next player along setting the word. Everyone stays connected and goes
+  // back to the lobby until the word is in and the host starts the round.
+  async nextRound(): Promise<void> {
+    const gameState = this.gameState
+    const match = gameState?.match
+    if (!this.isHost || !gameState || !match) return
+
+    if (gameState.status !== 'finished') {
+      throw new Error('Finish this round before starting the next.')
+    }
+    if (match.round >= (gameState.settings.rounds ?? 1)) {
+      throw new Error('That was the last round of the match.')
+    }
+
+    gameState.players.forEach(player => {
+      match.totals[player.id] = (match.totals[player.id] ?? 0) + (player.score?.points ?? 0)
+      player.guesses = []
+      player.timeUsed = 0
+      player.hintsUsed = 0
+      player.score = undefined
+      if (player.status !== 'disconnected') player.status = 'playing'
+    })
+    match.round++
+    gameState.status = 'waiting'
+    gameState.startTime = undefined
+    this.clearLimitTimer()
+
+    await this.assignSetter(this.getNextSetter(match.setterId))
+  }
+
+  // Matches: the next connected player after the given one, in join order
+  private getNextSetter(afterId: string): string {
+    const players = this.gameState?.players ?? []
+    const start = players.findIndex(p => p.id === afterId)
+    for (let step = 1; step < players.length; step++) {
+      const player = players[(start + step) % players.length]
+      if (player.status !== 'disconnected' && !isGameMaster(this.gameState!, player.id)) return player.id
+    }
+    return this.currentPlayerId!
+  }
+
+  // Bots pick their word straight away; players are asked for it in the lobby
+  private async assignSetter(setterId: string) {
+    const match = this.gameState?.match
+    if (!match) return
+
+    match.setterId = setterId
+    match.wordSet = false
+
+    const setter = this.gameState?.players.find(p => p.id === setterId)
+    if (setter?.bot) {
+      const word = pickSecretWord(await loadDictionary(), this.gameState!.settings)
+      // The round may have moved on while the dictionary loaded
+      if (word && this.gameState?.match?.setterId === setterId && !this.gameState.match.wordSet) {
+        this.setRoundWord(word)
+      }
+    }
+
+    this.broadcastGameState()
+  }
+
+  unbanPlayer(name: string) {
+    const gameState = this.gameState
+    if (!this.isHost || !gameState) return
+
+    gameState.bannedNames = gameState.bannedNames.filter(banned => banned.toLowerCase() !== name.toLowerCase())
+    this.broadcastGameState()
+  }
+
+  private isBanned(name: string): boolean {
+    return !!this.gameState?.bannedNames.some(banned => banned.toLowerCase() === name.trim().toLowerCase())
+  }
+
+  // Change the rules before the game starts. The mode decides how the game is
+  // set up, so it stays as created. A new host word gets a new commitment;
+  // nobody has guessed yet, so players simply take the new one.
+  async updateSettings(settings: GameSettings, hostWord: string): Promise<void> {
+    if (!this.isHost || !this.gameState) return
+
+    const newSettings: GameSettings = { ...settings, mode: this.gameState.settings.mode }
+    this.validateSettings(newSettings)
+
+    const wordError = await checkWord(hostWord, newSettings, 'secret')
+    if (wordError) {
+      throw new Error(`Invalid host word. ${wordError}`)
+    }
+
+    // Classic players whose secrets break the new rules pick again
+    const secrets = Object.entries(this.gameState.classic?.secrets ?? {})
+    const secretErrors = await Promise.all(secrets.map(([, word]) => checkWord(word, newSettings, 'secret')))
+    const dictionary = await loadDictionary()
+
+    // The game may have moved on while the dictionary loaded
+    const gameState = this.gameState
+    if (!gameState || gameState.status !== 'waiting' || this.countdownTimer) {
+      throw new Error('Settings can only be changed before the game starts.')
+    }
+    if (gameState.match && gameState.match.round > 1) {
+      throw new Error('Settings can only be changed before the match starts.')
+    }
+
+    gameState.settings = newSettings
+    gameState.match = isMatch(newSettings) ? createMatch(gameState.hostId) : undefined
+    const word = hostWord.toUpperCase()
+    if (word !== gameState.hostWord) {
+      gameState.hostWord = word
+      gameState.salt = generateSalt()
+      gameState.commitment = createCommitment(word, gameState.salt)
+    }
+
+    const classic = gameState.classic
+    secrets.forEach(([playerId], index) => {
+      if (!classic || !secretErrors[index]) return
+
+      // Bots just pick a new word
+      const newSecret = gameState.players.find(p => p.id === playerId)?.bot && pickSecretWord(dictionary, newSettings)
+      if (newSecret) {
+        classic.secrets[playerId] = newSecret
+      } else {
+        delete classic.secrets[playerId]
+        classic.turnOrder = classic.turnOrder.filter(id => id !== playerId)
+      }
+    })
+
+    this.broadcastGameState()
+  }
+
+  // Add a computer player that the host runs through the same guess path as everyone else
+  async addBot(level: BotLevel): Promise<void> {
+    if (!this.isHost || !this.gameState || this.gameState.status === 'finished') return
+
+    // A classic bot joins the turn order, which is fixed once play begins
+    if (this.gameState.classic && this.gameState.status !== 'waiting') {
+      throw new Error('Bots can only join a classic game before it starts.')
+    }
+
+    const dictionary = await loadDictionary()
+    const gameState = this.gameState
+    if (!gameState || (gameState.classic && gameState.status !== 'waiting')) return
+
+    const baseName = `${getBotLabel(level)} Bot`
+    const count = gameState.players.filter(p => p.name.startsWith(baseName)).length
+    const bot: Player = {
+      id: `bot-${randomHex(4)}`,
+      name: count === 0 ? baseName : `${baseName} ${count + 1}`,
+      guesses: [],
+      timeUsed: 0,
+      status: 'playing',
+      joinedAt: Date.now(),
+      hintsUsed: 0,
+      bot: level
+    }
+    gameState.players.push(bot)
+
+    // Classic bots pick a secret right away, like a player who has just joined
+    const classic = gameState.classic
+    const secret = classic && pickSecretWord(dictionary, gameState.settings)
+    if (classic && secret) {
+      classic.secrets[bot.id] = secret
+      classic.turnOrder.push(bot.id)
+    }
+
+    this.broadcastGameState()
+  }
+
+  // Whether a bot may guess now: once the game is on, and in classic games
+  // only on its turn
+  private canBotGuess(bot: Player): boolean {
+    const gameState = this.gameState
+    if (!gameState || bot.status !== 'playing' || gameState.status !== 'playing') return false
+    if (gameState.pausedAt || isSetter(gameState, bot.id)) return false
+
+    const classic = gameState.classic
+    return !classic || classic.turnOrder[classic.turn] === bot.id
+  }
+
+  private scheduleBots() {
+    this.gameState?.players.forEach(player => {
+      if (!player.bot || this.botTimers.has(player.id) || !this.canBotGuess(player)) return
+
+      const delay = BOT_MIN_DELAY + Math.random() * (BOT_MAX_DELAY - BOT_MIN_DELAY)
+      this.botTimers.set(player.id, setTimeout(() => this.takeBotTurn(player.id), delay))
+    })
+  }
+
+  private async takeBotTurn(botId: string) {
+    const dictionary = await loadDictionary()
+    this.botTimers.delete(botId)
+
+    const gameState = this.gameState
+    const bot = gameState?.players.find(p => p.id === botId)
+    if (!gameState || !bot?.bot || !this.canBotGuess(bot)) return
+
+    const { settings } = gameState
+    const targetId = gameState.classic ? getGuessTarget(gameState.classic, botId) : undefined
+    const word = chooseBotGuess(
+      bot.bot,
+      getSecretPool(dictionary.all, settings),
+      getGuessPool(dictionary.all, settings),
+      bot.guesses.filter(guess => guess.targetId === targetId),
+      settings
+    )
+
+    if (word) {
+      await this.handlePlayerGuess(botId, { word, commonLetters: 0, timestamp: Date.now() })
+    }
+  }
+
+  // WebRTC connections can't be picked up again without new invites
+  private canResume(): boolean {
+    return this.networkType === 'local' || this.networkType === 'relay'
+  }
+
+  // Kept in sessionStorage so the secret word stays in the host's own tab
+  private saveHostSnapshot() {
+    if (!this.gameState || !this.canResume()) return
+
+    const snapshot: HostSnapshot = {
+      gameState: this.gameState,
+      reconnectTokens: Array.from(this.reconnectTokens.entries()),
+      network: this.networkType,
+      relayUrl: this.relayUrl,
+      savedAt: Date.now()
+    }
+    sessionStorage.setItem(`jotto-host-snapshot-${this.gameState.gameId}`, JSON.stringify(snapshot))
+  }
+
+  private loadHostSnapshot(gameId: string): HostSnapshot | null {
+    const saved = sessionStorage.getItem(`jotto-host-snapshot-${gameId}`)
+    if (!saved) return null
+
+    try {
+      const snapshot: HostSnapshot = JSON.parse(saved)
+      if (Date.now() - snapshot.savedAt < HOST_GRACE_PERIOD) {
+        return snapshot
       }
-      broadcastManager.broadcast('game:state', safeGameState)
+    } catch {
+      // Fall through and drop the unreadable snapshot
     }
+
+    sessionStorage.removeItem(`jotto-host-snapshot-${gameId}`)
+    return null
+  }
+
+  private async resumeHosting(snapshot: HostSnapshot) {
+    const { gameState } = snapshot
+
+    this.useTransport(snapshot.network, snapshot.relayUrl || undefined)
+    await this.transport.createGame(gameState.gameId)
+
+    // The new transport has a new peer ID, so move the host's player over to it
+    const hostId = this.transport.getMyId()
+    renamePlayer(gameState, gameState.hostId, hostId)
+
+    this.reconnectTokens = new Map(snapshot.reconnectTokens)
+    this.isHost = true
+    this.currentPlayerId = hostId
+    this.gameId = gameState.gameId
+    this.gameState = gameState
+    sessionStorage.removeItem(`jotto-host-snapshot-${gameState.gameId}`)
+    this.startPresenceChecks()
+    this.startLimitTimer()
+
+    // Players waiting on us pick up the new host ID from this state
+    this.broadcastGameState()
+  }
+
+  // GAME MASTER METHODS
+
+  // Stop the clock. Guesses, hints and bots wait until play resumes.
+  pauseGame() {
+    const gameState = this.gameState
+    if (!this.isHost || !gameState || gameState.status !== 'playing' || gameState.pausedAt) return
+
+    gameState.pausedAt = Date.now()
+    this.clearLimitTimer()
+    this.broadcastGameState()
+  }
+
+  resumeGame() {
+    const gameState = this.gameState
+    if (!this.isHost || !gameState?.pausedAt) return
+
+    // Time used and the time limit both count from startTime, so skip the pause
+    if (gameState.startTime) {
+      gameState.startTime += Date.now() - gameState.pausedAt
+    }
+    gameState.pausedAt = undefined
+    this.startLimitTimer()
+    this.broadcastGameState()
+  }
+
+  // End the game early and show everyone the word
+  revealWord() {
+    const gameState = this.gameState
+    if (!this.isHost || !gameState || gameState.status !== 'playing') return
+
+    this.clearLimitTimer()
+    this.endGame()
   }
 
   // PLAYER METHODS
 
-  async joinGame(gameId: string, playerName: string): Promise<void> {
+  // Join by game ID, through the relay when one is given, in memory when the
+  // game is hosted in this page, otherwise over BroadcastChannel. Spectators
+  // watch without playing.
+  async joinGame(gameId: string, playerName: string, relayUrl?: string, spectator: boolean = false): Promise<void> {
     if (!playerName.trim()) {
       throw new Error('Player name is required.')
     }
 
-    this.currentPlayerId = broadcastManager.getMyId()
+    const network = relayUrl ? 'relay' : InMemoryTransport.gameExists(gameId) ? 'memory' : 'local'
+    this.useTransport(network, relayUrl)
+    this.currentPlayerId = this.transport.getMyId()
+
+    await this.transport.joinGame(gameId)
+    this.gameId = gameId
+
+    // Remember the relay so a reload can find the game again
+    if (relayUrl) {
+      localStorage.setItem(`jotto-relay-url-${gameId}`, relayUrl)
+    }
     
+    this.requestToJoin(gameId, playerName, spectator)
+  }
+
+  // Join a game on another device from the host's invite. Returns the answer
+  // the player hands back to the host to open the connection.
+  async joinWithInvite(
+    invite: string,
+    playerName: string,
+    spectator: boolean = false
+  ): Promise<{ gameId: string; answer: string }> {
+    if (!playerName.trim()) {
+      throw new Error('Player name is required.')
+    }
+
+    const { gameId } = JSON.parse(invite) as { gameId: string }
+
+    this.useTransport('webrtc')
+    this.currentPlayerId = this.transport.getMyId()
+
+    // Answer the host's offer; the join request is delivered once the channel opens
+    const answer = await this.transport.joinGame(gameId, invite)
+    this.gameId = gameId
+    this.pendingAnswer = answer
+
+    this.requestToJoin(gameId, playerName, spectator)
+
+    return { gameId, answer: answer || '' }
+  }
+
+  private requestToJoin(gameId: string, playerName: string, spectator: boolean) {
+    if (!this.currentPlayerId) return
+
+    this.isSpectator = spectator
+
     const newPlayer: Player = {
       id: this.currentPlayerId,
       name: playerName.trim(),
       guesses: [],
       timeUsed: 0,
       status: 'playing',
-      joinedAt: Date.now()
+      joinedAt: Date.now(),
+      hintsUsed: 0
     }
 
-    // Join the BroadcastChannel network
-    await broadcastManager.joinGame(gameId)
-    
     // Save player name for potential reconnection
     localStorage.setItem(`jotto-player-name-${gameId}`, playerName.trim())
+    if (spectator) {
+      localStorage.setItem(`jotto-spectator-${gameId}`, 'true')
+    } else {
+      localStorage.removeItem(`jotto-spectator-${gameId}`)
+    }
+
+    // The token is kept per tab, since every tab in a browser shares localStorage
+    const reconnectToken = sessionStorage.getItem(`jotto-reconnect-token-${gameId}`) || undefined
     
-    // Request to join the game
-    broadcastManager.broadcast('game:join-request', newPlayer)
+    // Request to join the game. Only the host may see the reconnect token,
+    // or another player could use it to take over our record.
+    this.transport.send(HOST_PEER, 'game:join-request', {
+      player: newPlayer,
+      reconnectToken,
+      ...(spectator && { spectator })
+    })
+    this.startHeartbeat()
+  }
+
+  // Host completes a WebRTC handshake with the answer from a joining player
+  async acceptAnswer(answer: string): Promise<void> {
+    if (!this.isHost || !this.transport.acceptConnection) {
+      throw new Error('Only a host on the WebRTC network can accept answers')
+    }
+
+    await this.transport.acceptConnection(answer)
+  }
+
+  // Classic games and match rounds: send our secret word to the host, who
+  // keeps it from everyone else
+  setSecretWord(word: string) {
+    if (!this.currentPlayerId) return
+
+    // Only a match can ask the host for a word after the game is created
+    if (this.isHost) {
+      this.handleSecret(this.currentPlayerId, word)
+      return
+    }
+    if (!this.gameView) return
+
+    this.transport.send(this.gameView.hostId, 'game:secret', {
+      playerId: this.currentPlayerId,
+      word: word.toUpperCase()
+    })
+  }
+
+  requestHint() {
+    if (!this.currentPlayerId) return
+
+    if (this.isHost) {
+      this.handleHintRequest(this.currentPlayerId)
+    } else if (this.gameView) {
+      this.transport.send(this.gameView.hostId, 'game:hint-request', this.currentPlayerId)
+    }
   }
 
   makeGuess(word: string) {
     if (!this.currentPlayerId) return
 
+    const guess: Guess = { word, commonLetters: 0, timestamp: Date.now() }
+
     if (this.isHost && this.gameState) {
       // Host processes their own guess
-      const guess: Guess = { word, commonLetters: 0, timestamp: Date.now() }
       this.handlePlayerGuess(this.currentPlayerId, guess)
-    } else {
-      // Send guess to host
-      broadcastManager.broadcast('game:guess', { playerId: this.currentPlayerId, word })
+    } else if (this.gameView) {
+      // Send guess to host only, so other players don't see it unscored
+      this.transport.send(this.gameView.hostId, 'game:guess', { playerId: this.currentPlayerId, guess })
     }
   }
 
   // EVENT HANDLERS
 
-  private handleGameStateUpdate(gameState: GameState) {
-    this.gameState = gameState
-  }
+  private handleGameStateUpdate(gameView: GameView) {
+    // The host's own state updates are echoed locally; it never takes a view
+    if (this.isHost) return
 
-  private handlePlayerJoined(player: Player) {
-    if (this.isHost && this.gameState) {
-      // Check if player name is already taken
-      const existingPlayer = this.gameState.players.find(p => p.name === player.name)
-      if (existingPlayer) {
-        broadcastManager.send(player.id, 'game:error', 'Player name already taken in this game.')
-        return
-      }
+    // Any state from the host means it's back
+    this.clearHostAwayTimer()
 
-      // Add player to game
-      this.gameState.players.push(player)
-      
-      // Start the game if this is the second player
-      if (this.gameState.players.length >= 2 && this.gameState.status === 'waiting') {
-        this.gameState.status = 'playing'
-        this.gameState.startTime = Date.now()
-      }
+    // Each match round has its own word, so earlier guesses no longer add up
+    if (gameView.match?.round !== this.observedRound) {
+      this.observedGuesses.clear()
+      this.observedRound = gameView.match?.round
+    }
 
-      // Broadcast updated game state
-      this.broadcastGameState()
-      broadcastManager.broadcast('game:player-joined', player)
+    // A player who reconnects, or a host who resumes, comes back under a new
+    // ID. Their guesses, and guesses at their word, move over with them.
+    gameView.players.forEach(player => {
+      const oldId = this.observedIds.get(player.name)
+      if (oldId && oldId !== player.id) this.renameObserved(oldId, player.id)
+      this.observedIds.set(player.name, player.id)
+    })
+
+    this.gameView = gameView
+    this.pendingAnswer = null
+
+    // Hold on to what the host told us, in case it rewrites history later.
+    // The host may still change its word in the lobby, before anyone guesses.
+    if (!this.commitment || gameView.status === 'waiting') {
+      this.commitment = gameView.commitment
     }
+    gameView.players.forEach(player => {
+      player.guesses.forEach(guess => this.observe({ playerId: player.id, guess }))
+    })
+  }
+
+  private observe(observed: ObservedGuess) {
+    const { playerId, guess } = observed
+    const result = `${guess.commonLetters}:${guess.exactPositions ?? ''}`
+    this.observedGuesses.set(`${playerId}:${guess.timestamp}:${guess.word}:${result}`, observed)
+  }
+
+  private renameObserved(oldId: string, newId: string) {
+    const observed = Array.from(this.observedGuesses.values())
+    this.observedGuesses.clear()
+    observed.forEach(({ playerId, guess }) => this.observe({
+      playerId: playerId === oldId ? newId : playerId,
+      guess: guess.targetId === oldId ? { ...guess, targetId: newId } : guess
+    }))
+  }
+
+  private handlePlayerJoined() {
+    // The host adds players in handleJoinRequest and starts the game when
+    // it's ready. Everyone else just receives the notification.
   }
 
   private handlePlayerLeft(playerId: string) {
-    if (this.gameState) {
+    if (this.isHost && this.gameState && this.isWatching(playerId)) {
+      this.gameState.spectators = this.gameState.spectators.filter(spectator => spectator.id !== playerId)
+      this.lastSeen.delete(playerId)
+      this.broadcastGameState()
+      return
+    }
+
+    if (this.isHost && this.gameState) {
       const player = this.gameState.players.find(p => p.id === playerId)
-      if (player) {
+      if (player && player.status !== 'disconnected') {
         player.status = 'disconnected'
-        if (this.isHost) {
-          this.broadcastGameState()
-        }
+        this.checkGameProgress()
+        this.broadcastGameState()
       }
     }
   }
@@ -246,14 +1503,62 @@ export class P2PGameManager {
     console.error('Game error:', message)
   }
 
+  private handleSession(session: PlayerSession) {
+    if (this.isHost || !this.gameId) return
+
+    sessionStorage.setItem(`jotto-reconnect-token-${this.gameId}`, session.reconnectToken)
+  }
+
+  private handleHostAway(resumeBy: number) {
+    if (this.isHost) return
+
+    // Give up on the game if the host doesn't come back in time
+    this.clearHostAwayTimer()
+    this.hostAwayTimer = setTimeout(() => {
+      this.handleGameTerminated()
+    }, Math.max(0, resumeBy - Date.now()))
+  }
+
+  private clearHostAwayTimer() {
+    if (this.hostAwayTimer) {
+      clearTimeout(this.hostAwayTimer)
+      this.hostAwayTimer = null
+    }
+  }
+
+  private handleKicked(banned: boolean) {
+    if (this.isHost) return
+
+    console.log(banned ? 'Banned from the game by the host' : 'Removed from the game by the host')
+    if (this.gameId) {
+      sessionStorage.removeItem(`jotto-reconnect-token-${this.gameId}`)
+      localStorage.removeItem(`jotto-player-name-${this.gameId}`)
+    }
+    this.transport.disconnect()
+    this.handleGameTerminated()
+  }
+
   private handleGameTerminated() {
+    // Only the host ends the game, so a termination can't be meant for us
+    if (this.isHost) return
+
     // Host has terminated the game
     console.log('Game terminated by host')
     
+    this.stopTimers()
+
     // Clear game state
     this.gameState = null
+    this.gameView = null
+    this.commitment = null
+    this.observedGuesses.clear()
+    this.observedRound = undefined
+    this.observedIds.clear()
     this.isHost = false
+    this.isSpectator = false
     this.currentPlayerId = null
+    this.gameId = null
+    this.pendingAnswer = null
     
     // Redirect to home page
     if (typeof window !== 'undefined') {
@@ -264,7 +1569,7 @@ export class P2PGameManager {
   // RECONNECTION METHODS
 
   isConnectedToGame(gameId: string): boolean {
-    return this.gameState?.gameId === gameId && this.currentPlayerId !== null
+    return this.gameId === gameId && this.currentPlayerId !== null
   }
 
   async reconnectToGame(gameId: string): Promise<void> {
@@ -272,14 +1577,24 @@ export class P2PGameManager {
       return // Already connected to this game
     }
 
+    // A host whose tab closed picks its game back up from the snapshot
+    const snapshot = this.loadHostSnapshot(gameId)
+    if (snapshot) {
+      await this.resumeHosting(snapshot)
+      return
+    }
+
+    // Relay games are looked up by the relay itself
+    const savedRelayUrl = localStorage.getItem(`jotto-relay-url-${gameId}`)
+
     // Check if game still exists
     const hostInfo = localStorage.getItem(`jotto-host-${gameId}`)
-    if (!hostInfo) {
+    if (!hostInfo && !savedRelayUrl && !InMemoryTransport.gameExists(gameId)) {
       throw new Error('Game not found. The host may have left or the game may not exist.')
     }
 
     // If we're connected to a different game, leave it first
-    if (this.gameState && this.gameState.gameId !== gameId) {
+    if (this.gameId && this.gameId !== gameId) {
       this.leaveGame()
     }
 
@@ -289,19 +1604,36 @@ export class P2PGameManager {
       throw new Error('Cannot reconnect: player name not found. Please join the game manually.')
     }
 
-    // Attempt to rejoin the game
-    await this.joinGame(gameId, savedPlayerName)
+    // Attempt to rejoin the game, watching again if we were watching
+    const spectator = localStorage.getItem(`jotto-spectator-${gameId}`) === 'true'
+    await this.joinGame(gameId, savedPlayerName, savedRelayUrl || undefined, spectator)
   }
 
   // UTILITY METHODS
 
-  getGameState(): GameState | null {
-    return this.gameState
+  getGameState(): GameView | null {
+    return this.isHost ? this.gameState : this.gameView
+  }
+
+  // Check the revealed word and every guess result once the game has finished
+  verifyFairness(): FairnessResult | null {
+    const gameState = this.getGameState()
+    if (!gameState || gameState.status !== 'finished') return null
+
+    const commitment = this.isHost ? gameState.commitment : this.commitment
+    if (!commitment) return null
+
+    return verifyFairness(gameState, commitment, Array.from(this.observedGuesses.values()))
   }
 
   getCurrentPlayer(): Player | null {
-    if (!this.gameState || !this.currentPlayerId) return null
-    return this.gameState.players.find(p => p.id === this.currentPlayerId) || null
+    const gameState = this.getGameState()
+    if (!gameState || !this.currentPlayerId) return null
+    return gameState.players.find(p => p.id === this.currentPlayerId) || null
+  }
+
+  isSpectating(): boolean {
+    return this.isSpectator
   }
 
   isHostPlayer(): boolean {
@@ -312,15 +1644,44 @@ export class P2PGameManager {
     return this.currentPlayerId
   }
 
+  getNetwork(): GameNetwork {
+    return this.networkType
+  }
+
+  // Answer a WebRTC player still has to hand to the host, if any
+  getPendingAnswer(): string | null {
+    return this.pendingAnswer
+  }
+
   leaveGame() {
     if (this.currentPlayerId) {
-      broadcastManager.broadcast('game:leave', this.currentPlayerId)
+      this.transport.broadcast('game:leave', this.currentPlayerId)
     }
     
-    broadcastManager.disconnect()
+    // Leaving on purpose ends the game, so there's nothing to resume
+    if (this.isHost && this.gameId) {
+      sessionStorage.removeItem(`jotto-host-snapshot-${this.gameId}`)
+    }
+    if (this.gameId) {
+      sessionStorage.removeItem(`jotto-reconnect-token-${this.gameId}`)
+    }
+    this.reconnectTokens.clear()
+
+    this.clearHostAwayTimer()
+    this.stopTimers()
+    this.lastSeen.clear()
+    this.transport.disconnect()
     this.gameState = null
+    this.gameView = null
+    this.commitment = null
+    this.observedGuesses.clear()
+    this.observedRound = undefined
+    this.observedIds.clear()
     this.isHost = false
+    this.isSpectator = false
     this.currentPlayerId = null
+    this.gameId = null
+    this.pendingAnswer = null
   }
 
   // Generate data for QR code
@@ -328,11 +1689,18 @@ export class P2PGameManager {
     if (!this.isHost || !this.gameState) {
       throw new Error('Only host can generate QR codes')
     }
+
+    // For WebRTC, each QR code is a single-use invite carrying the host's offer
+    if (this.transport.createInvite) {
+      return this.transport.createInvite()
+    }
     
-    // For BroadcastChannel, QR code just contains game ID and host ID
+    // For BroadcastChannel, QR code just contains game ID and host ID.
+    // Relay games also say where the relay is.
     const qrData = {
       gameId: this.gameState.gameId,
       hostId: this.currentPlayerId,
+      ...(this.relayUrl ? { relayUrl: this.relayUrl } : {}),
       timestamp: Date.now()
     }
     
@@ -340,52 +1708,76 @@ export class P2PGameManager {
   }
 
   // Event listener methods for components
-  onGameState(callback: (gameState: GameState) => void) {
-    broadcastManager.on('game:state', callback)
+  onGameState(callback: (gameState: GameView) => void) {
+    this.events.on('game:state', callback)
   }
 
   onPlayerJoined(callback: (player: Player) => void) {
-    broadcastManager.on('game:player-joined', callback)
+    this.events.on('game:player-joined', callback)
   }
 
   onPlayerLeft(callback: (playerId: string) => void) {
-    broadcastManager.on('game:player-left', callback)
+    this.events.on('game:player-left', callback)
   }
 
   onGuess(callback: (playerId: string, guess: Guess) => void) {
-    broadcastManager.on('game:guess', callback)
+    this.events.on('game:guess', callback)
   }
 
   onPlayerFinished(callback: (playerId: string, finalTime: number) => void) {
-    broadcastManager.on('game:finished', callback)
+    this.events.on('game:finished', callback)
   }
 
   onError(callback: (message: string) => void) {
-    broadcastManager.on('game:error', callback)
+    this.events.on('game:error', callback)
+  }
+
+  onHostAway(callback: (resumeBy: number) => void) {
+    this.events.on('game:host-away', callback)
+  }
+
+  onHint(callback: (hint: Hint) => void) {
+    this.events.on('game:hint', callback)
+  }
+
+  onCountdown(callback: (duration: number) => void) {
+    this.events.on('game:countdown', callback)
   }
 
-  offGameState(callback: (gameState: GameState) => void) {
-    broadcastManager.off('game:state', callback)
+  offGameState(callback: (gameState: GameView) => void) {
+    this.events.off('game:state', callback)
   }
 
   offPlayerJoined(callback: (player: Player) => void) {
-    broadcastManager.off('game:player-joined', callback)
+    this.events.off('game:player-joined', callback)
   }
 
   offPlayerLeft(callback: (playerId: string) => void) {
-    broadcastManager.off('game:player-left', callback)
+    this.events.off('game:player-left', callback)
   }
 
   offGuess(callback: (playerId: string, guess: Guess) => void) {
-    broadcastManager.off('game:guess', callback)
+    this.events.off('game:guess', callback)
   }
 
   offPlayerFinished(callback: (playerId: string, finalTime: number) => void) {
-    broadcastManager.off('game:finished', callback)
+    this.events.off('game:finished', callback)
   }
 
   offError(callback: (message: string) => void) {
-    broadcastManager.off('game:error', callback)
+    this.events.off('game:error', callback)
+  }
+
+  offHostAway(callback: (resumeBy: number) => void) {
+    this.events.off('game:host-away', callback)
+  }
+
+  offHint(callback: (hint: Hint) => void) {
+    this.events.off('game:hint', callback)
+  }
+
+  offCountdown(callback: (duration: number) => void) {
+    this.events.off('game:countdown', callback)
   }
 }
 
@@ -0,0 +1,110 @@
+import {
+  GameSettings,
+  GameState,
+  Guess,
+  Player,
+  calculateCommonLetters,
+  calculateExactPositions,
+  calculateScore,
+  generateGameId,
+  isWordCorrect
+} from './game-logic'
+import { createCommitment, generateSalt } from './commitment'
+import { checkWord, loadDictionary, pickSecretWord } from './dictionary'
+import { Hint, createHint, getGuessPool, getSecretPool } from './solver'
+
+// Solo practice: one player against a word the computer picks. It all happens
+// in this tab with no transport, so these functions play the host's part on a
+// local GameState. They return updated copies for React state.
+
+export const PRACTICE_PLAYER_ID = 'practice'
+
+// Picks a random secret unless one is given, as the daily puzzle does
+export async function createPracticeGame(settings: GameSettings, secretWord?: string): Promise<GameState> {
+  const secret = secretWord?.toUpperCase() ?? pickSecretWord(await loadDictionary(), settings)
+  if (!secret) {
+    throw new Error(`There are no ${settings.wordLength}-letter words to practice with.`)
+  }
+
+  const player: Player = {
+    id: PRACTICE_PLAYER_ID,
+    name: 'You',
+    guesses: [],
+    timeUsed: 0,
+    status: 'playing',
+    joinedAt: Date.now(),
+    hintsUsed: 0
+  }
+
+  const salt = generateSalt()
+  return {
+    gameId: generateGameId(),
+    hostId: PRACTICE_PLAYER_ID,
+    hostWord: secret,
+    players: [player],
+    status: 'playing',
+    startTime: Date.now(),
+    commitment: createCommitment(secret, salt),
+    salt,
+    settings: { ...settings, mode: 'race' },
+    bannedNames: [],
+    spectators: []
+  }
+}
+
+export function getPracticePlayer(gameState: GameState): Player {
+  return gameState.players[0]
+}
+
+// Swap in the updated player, rescored like the host would after every change
+function updatePlayer(gameState: GameState, player: Player): GameState {
+  const score = calculateScore(player, gameState.settings, player.status === 'finished')
+  return { ...gameState, players: [{ ...player, score }] }
+}
+
+// Score a guess the way the host would. Throws if the word can't be played.
+export async function makePracticeGuess(gameState: GameState, word: string): Promise<GameState> {
+  const wordError = await checkWord(word, gameState.settings)
+  if (wordError) {
+    throw new Error(wordError)
+  }
+
+  const player = getPracticePlayer(gameState)
+  if (gameState.status === 'finished' || player.status === 'finished') return gameState
+
+  const secret = gameState.hostWord
+  const guess: Guess = {
+    word: word.toUpperCase(),
+    commonLetters: calculateCommonLetters(secret, word),
+    timestamp: Date.now(),
+    ...(gameState.settings.positionalFeedback && {
+      exactPositions: calculateExactPositions(secret, word)
+    })
+  }
+  const found = isWordCorrect(secret, word)
+
+  return updatePlayer({ ...gameState, status: found ? 'finished' : gameState.status }, {
+    ...player,
+    guesses: [...player.guesses, guess],
+    timeUsed: gameState.startTime ? Math.floor((Date.now() - gameState.startTime) / 1000) : 0,
+    status: found ? 'finished' : player.status
+  })
+}
+
+// Ask the solver for a hint, counting it against the player's score
+export async function requestPracticeHint(gameState: GameState): Promise<{ gameState: GameState; hint: Hint }> {
+  const dictionary = await loadDictionary()
+  const { settings } = gameState
+  const player = getPracticePlayer(gameState)
+  const hint = createHint(
+    getSecretPool(dictionary.all, settings),
+    getGuessPool(dictionary.all, settings),
+    player.guesses,
+    settings
+  )
+
+  return {
+    gameState: updatePlayer(gameState, { ...player, hintsUsed: player.hintsUsed + 1 }),
+    hint
+  }
+}
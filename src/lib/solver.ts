@@ -0,0 +1,215 @@
+import { GameSettings, Guess, findRepeatedLetter, isWordCorrect } from './game-logic'
+
+// Pure Jotto solver: narrows a word list down to the words consistent with a
+// player's guesses and picks the guess that splits what's left best.
+
+// What a hint tells a player about their search
+export interface Hint {
+  // Words still consistent with every result so far
+  candidates: number
+  // Best next guess by expected information, if any word is left
+  suggestion?: string
+  // Expected information of the suggestion, in bits
+  information?: number
+  // How many guesses the player had made when the hint was computed
+  afterGuesses: number
+}
+
+// One of a player's guesses, compared with the best guess they could have made
+export interface AnalysisStep {
+  guess: Guess
+  candidatesBefore: number
+  candidatesAfter: number
+  // Information the guess actually gained, in bits
+  information: number
+  best?: { word: string; information: number }
+}
+
+// Scoring every guess against every candidate gets slow for big lists, so the
+// search looks at evenly spread samples of them
+const MAX_SCORED_CANDIDATES = 300
+const MAX_SCORED_GUESSES = 600
+const MAX_SOLVER_STEPS = 20
+
+type SolverSettings = Pick<GameSettings, 'wordLength' | 'distinctLetters' | 'positionalFeedback'>
+
+interface ScoredWord {
+  word: string
+  counts: Uint8Array
+}
+
+function toScored(word: string): ScoredWord {
+  const counts = new Uint8Array(26)
+  for (let i = 0; i < word.length; i++) {
+    counts[word.charCodeAt(i) - 65]++
+  }
+  return { word, counts }
+}
+
+// Same result as calculateCommonLetters and calculateExactPositions, packed
+// into one number so results can be grouped cheaply
+function feedbackKey(secret: ScoredWord, guess: ScoredWord, positional: boolean): number {
+  let common = 0
+  for (let i = 0; i < 26; i++) {
+    common += Math.min(secret.counts[i], guess.counts[i])
+  }
+  if (!positional) return common
+
+  let exact = 0
+  for (let i = 0; i < guess.word.length; i++) {
+    if (secret.word[i] === guess.word[i]) exact++
+  }
+  return common * 16 + exact
+}
+
+function guessKey(guess: Guess): number {
+  return guess.exactPositions === undefined ? guess.commonLetters : guess.commonLetters * 16 + guess.exactPositions
+}
+
+function sample<T>(items: T[], limit: number): T[] {
+  if (items.length <= limit) return items
+  const step = items.length / limit
+  return Array.from({ length: limit }, (_, i) => items[Math.floor(i * step)])
+}
+
+// Words the secret could be, before any guesses
+export function getSecretPool(words: Iterable<string>, settings: SolverSettings): string[] {
+  return Array.from(words).filter(word =>
+    word.length === settings.wordLength && !(settings.distinctLetters.secret && findRepeatedLetter(word))
+  )
+}
+
+// Words a player is allowed to guess
+export function getGuessPool(words: Iterable<string>, settings: SolverSettings): string[] {
+  return Array.from(words).filter(word =>
+    word.length === settings.wordLength && !(settings.distinctLetters.guesses && findRepeatedLetter(word))
+  )
+}
+
+// Words still consistent with every guess result. Wrong guesses are ruled out
+// even when they're anagrams of the secret.
+export function filterCandidates(pool: string[], guesses: Guess[]): string[] {
+  const scoredGuesses = guesses.map(guess => ({ scored: toScored(guess.word.toUpperCase()), guess }))
+
+  return pool.filter(word => {
+    const candidate = toScored(word)
+    return scoredGuesses.every(({ scored, guess }) =>
+      word !== scored.word &&
+      feedbackKey(candidate, scored, guess.exactPositions !== undefined) === guessKey(guess)
+    )
+  })
+}
+
+function entropy(candidates: ScoredWord[], guess: ScoredWord, positional: boolean): number {
+  const groups = new Map<number, number>()
+  candidates.forEach(candidate => {
+    const key = feedbackKey(candidate, guess, positional)
+    groups.set(key, (groups.get(key) || 0) + 1)
+  })
+
+  let bits = 0
+  groups.forEach(size => {
+    const p = size / candidates.length
+    bits -= p * Math.log2(p)
+  })
+  return bits
+}
+
+// The guess whose result is expected to narrow the candidates down the most.
+// Ties go to words that could be the answer.
+export function suggestGuess(
+  candidates: string[],
+  guessPool: string[],
+  settings: SolverSettings
+): { word: string; information: number } | undefined {
+  if (candidates.length === 0) return undefined
+  if (candidates.length <= 2) return { word: candidates[0], information: candidates.length === 2 ? 1 : 0 }
+
+  const scoredCandidates = sample(candidates, MAX_SCORED_CANDIDATES).map(toScored)
+  const candidateSet = new Set(candidates)
+  const options = [
+    ...sample(candidates, MAX_SCORED_GUESSES / 2),
+    ...sample(guessPool.filter(word => !candidateSet.has(word)), MAX_SCORED_GUESSES / 2)
+  ]
+
+  let best: { word: string; information: number } | undefined
+  options.forEach(word => {
+    const information = entropy(scoredCandidates, toScored(word), settings.positionalFeedback)
+    const better = !best ||
+      information > best.information + 1e-9 ||
+      (Math.abs(information - best.information) <= 1e-9 && candidateSet.has(word) && !candidateSet.has(best.word))
+    if (better) best = { word, information }
+  })
+
+  return best
+}
+
+export function createHint(secretPool: string[], guessPool: string[], guesses: Guess[], settings: SolverSettings): Hint {
+  const candidates = filterCandidates(secretPool, guesses)
+  const best = suggestGuess(candidates, guessPool, settings)
+
+  return {
+    candidates: candidates.length,
+    suggestion: best?.word,
+    information: best?.information,
+    afterGuesses: guesses.length
+  }
+}
+
+// Walk through a player's guesses, showing how much each one narrowed things
+// down and what the best guess at that point would have been
+export function analyzeGuesses(
+  secretPool: string[],
+  guessPool: string[],
+  guesses: Guess[],
+  secret: string,
+  settings: SolverSettings
+): AnalysisStep[] {
+  let candidates = secretPool
+
+  return guesses.map(guess => {
+    const best = suggestGuess(candidates, guessPool, settings)
+    const remaining = filterCandidates(candidates, [guess])
+    // The winning guess leaves exactly one word: itself
+    const candidatesAfter = isWordCorrect(secret, guess.word) ? 1 : remaining.length
+    const step: AnalysisStep = {
+      guess,
+      candidatesBefore: candidates.length,
+      candidatesAfter,
+      information: candidates.length > 0 ? Math.log2(candidates.length / Math.max(candidatesAfter, 1)) : 0,
+      best
+    }
+    candidates = remaining
+    return step
+  })
+}
+
+// The guesses the solver would make against a known secret, ending with the
+// secret itself. Empty when the secret isn't in the word list.
+export function findSolverPath(
+  secret: string,
+  secretPool: string[],
+  guessPool: string[],
+  settings: SolverSettings
+): string[] {
+  const target = toScored(secret.toUpperCase())
+  if (!secretPool.includes(target.word)) return []
+
+  const path: string[] = []
+  let candidates = secretPool
+  while (path.length < MAX_SOLVER_STEPS) {
+    const next = suggestGuess(candidates, guessPool, settings)
+    if (!next) break
+
+    path.push(next.word)
+    if (next.word === target.word) break
+
+    const guess = toScored(next.word)
+    const result = feedbackKey(target, guess, settings.positionalFeedback)
+    candidates = candidates.filter(word =>
+      word !== guess.word && feedbackKey(toScored(word), guess, settings.positionalFeedback) === result
+    )
+  }
+
+  return path
+}
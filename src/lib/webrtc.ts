@@ -1,21 +1,27 @@
-import { GameState, Player, Guess } from './game-logic'
-
-export interface P2PGameEvents {
-  'game:state': (gameState: GameState) => void
-  'game:player-joined': (player: Player) => void
-  'game:player-left': (playerId: string) => void
-  'game:guess': (playerId: string, guess: Guess) => void
-  'game:finished': (playerId: string, finalTime: number) => void
-  'game:error': (message: string) => void
-  'game:join-request': (player: Player) => void
-  'game:leave': (playerId: string) => void
+import {
+  GameEvent,
+  GameEventEmitter,
+  GameTransport,
+  HOST_PEER,
+  P2PMessage,
+  PROTOCOL_VERSION,
+  RELAY_SENDER,
+  generatePeerId
+} from './game-transport'
+
+// Invite created by the host, shared as a QR code or copied text
+export interface SignalOffer {
+  gameId: string
+  hostId: string
+  inviteId: string
+  offer: RTCSessionDescriptionInit
 }
 
-export interface P2PMessage {
-  type: keyof P2PGameEvents
-  data: unknown
-  senderId: string
-  timestamp: number
+// Reply created by the joining player, handed back to the host
+export interface SignalAnswer {
+  inviteId: string
+  peerId: string
+  answer: RTCSessionDescriptionInit
 }
 
 // Simple STUN servers for WebRTC connection establishment
@@ -24,89 +30,175 @@ const ICE_SERVERS = [
   { urls: 'stun:stun1.l.google.com:19302' }
 ]
 
-export class WebRTCManager {
+// How long to wait for ICE gathering before using whatever candidates we have
+const ICE_GATHERING_TIMEOUT = 3000
+
+// Transport over WebRTC data channels, with the host at the center of a star
+export class WebRTCManager extends GameEventEmitter implements GameTransport {
   private connections = new Map<string, RTCPeerConnection>()
   private dataChannels = new Map<string, RTCDataChannel>()
-  private eventListeners = new Map<keyof P2PGameEvents, ((...args: unknown[]) => void)[]>()
+  private pendingInvites = new Map<string, { pc: RTCPeerConnection; channel: RTCDataChannel }>()
+  private outbox: string[] = []
   private isHost = false
   private hostId: string | null = null
-  private myId: string = this.generateId()
-
-  constructor() {
-    this.setupEventListeners()
-  }
+  private gameId: string | null = null
+  private myId: string = generatePeerId()
 
-  private generateId(): string {
-    return Math.random().toString(36).substring(2, 15)
-  }
-
-  private setupEventListeners() {
-    // Initialize event listener arrays
-    const events: (keyof P2PGameEvents)[] = [
-      'game:state', 'game:player-joined', 'game:player-left', 
-      'game:guess', 'game:finished', 'game:error', 'game:join-request', 'game:leave'
-    ]
-    events.forEach(event => {
-      this.eventListeners.set(event, [])
-    })
+  // Let connected players know the host is gone before the page unloads
+  private handleBeforeUnload = () => {
+    if (this.isHost) {
+      this.broadcast('game:terminated', null)
+    }
   }
 
   // Host creates a game and becomes the server
-  async createGame(): Promise<string> {
+  async createGame(gameId: string): Promise<string> {
     this.isHost = true
     this.hostId = this.myId
+    this.gameId = gameId
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('beforeunload', this.handleBeforeUnload)
+    }
+
     return this.myId
   }
 
-  // Player joins a game by connecting to host
-  async joinGame(hostId: string, offerData?: string): Promise<void> {
-    this.hostId = hostId
-    
-    if (offerData) {
-      // Join via WebRTC offer (from QR code)
-      await this.handleWebRTCOffer(hostId, JSON.parse(offerData))
-    } else {
-      // Direct connection attempt
-      await this.createPeerConnection(hostId, true)
+  // Host creates a single-use invite (offer with ICE candidates) for one player
+  async createInvite(): Promise<string> {
+    if (!this.isHost || !this.gameId) throw new Error('Only host can create invites')
+
+    const inviteId = generatePeerId()
+    const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS })
+    const channel = pc.createDataChannel('game-data', { ordered: true })
+    this.pendingInvites.set(inviteId, { pc, channel })
+
+    const offer = await pc.createOffer()
+    await pc.setLocalDescription(offer)
+    await this.waitForIceGathering(pc)
+
+    const invite: SignalOffer = {
+      gameId: this.gameId,
+      hostId: this.myId,
+      inviteId,
+      offer: this.describe(pc)
     }
+
+    return JSON.stringify(invite)
   }
 
-  private async createPeerConnection(peerId: string, isInitiator: boolean = false): Promise<RTCPeerConnection> {
-    const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS })
-    this.connections.set(peerId, pc)
+  // Host completes the handshake with the answer pasted or scanned from a player
+  async acceptConnection(answerData: string): Promise<void> {
+    if (!this.isHost) throw new Error('Only host can accept answers')
 
-    // Handle ICE candidates
-    pc.onicecandidate = (event) => {
-      if (event.candidate) {
-        // In a real implementation, you'd send this to the peer
-        // For local network, we can use a simple signaling mechanism
-        console.log('ICE Candidate:', event.candidate)
-      }
+    let signal: SignalAnswer
+    try {
+      signal = JSON.parse(answerData)
+    } catch {
+      throw new Error('Invalid answer data. Please copy the full answer from the player.')
     }
 
+    const invite = this.pendingInvites.get(signal.inviteId)
+    if (!invite || !signal.answer || !signal.peerId) {
+      throw new Error('This answer does not match an open invite. Create a new invite and try again.')
+    }
+
+    // The joiner picks its own ID, so it mustn't take over a connected
+    // player's channel or pass for the host or the relay
+    const reservedIds = [this.myId, HOST_PEER, RELAY_SENDER]
+    if (reservedIds.includes(signal.peerId) || this.connections.has(signal.peerId)) {
+      throw new Error('This answer uses a player ID that is already taken. Ask the player to join again.')
+    }
+
+    this.pendingInvites.delete(signal.inviteId)
+    await invite.pc.setRemoteDescription(signal.answer)
+
+    this.connections.set(signal.peerId, invite.pc)
+    this.watchConnectionState(signal.peerId, invite.pc)
+    this.setupDataChannel(signal.peerId, invite.channel)
+  }
+
+  // Player joins a game from the host's invite and returns the answer to hand back
+  async joinGame(gameId: string, inviteData?: string): Promise<string | null> {
+    let signal: SignalOffer
+    try {
+      signal = JSON.parse(inviteData || '')
+    } catch {
+      throw new Error('Invalid invite data. Please scan or copy the host\'s invite again.')
+    }
+
+    if (!signal.offer || !signal.hostId || !signal.inviteId || signal.gameId !== gameId) {
+      throw new Error('Invalid invite data. Please scan or copy the host\'s invite again.')
+    }
+
+    this.hostId = signal.hostId
+    this.gameId = signal.gameId
+
+    const pc = this.createPeerConnection(signal.hostId)
+    await pc.setRemoteDescription(signal.offer)
+
+    const answer = await pc.createAnswer()
+    await pc.setLocalDescription(answer)
+    await this.waitForIceGathering(pc)
+
+    const reply: SignalAnswer = {
+      inviteId: signal.inviteId,
+      peerId: this.myId,
+      answer: this.describe(pc)
+    }
+
+    return JSON.stringify(reply)
+  }
+
+  private createPeerConnection(peerId: string): RTCPeerConnection {
+    const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS })
+    this.connections.set(peerId, pc)
+
     // Handle incoming data channels
     pc.ondatachannel = (event) => {
       const channel = event.channel
       this.setupDataChannel(peerId, channel)
     }
 
-    // Handle connection state changes
+    this.watchConnectionState(peerId, pc)
+
+    return pc
+  }
+
+  private watchConnectionState(peerId: string, pc: RTCPeerConnection) {
     pc.onconnectionstatechange = () => {
       console.log(`Connection state with ${peerId}:`, pc.connectionState)
       if (pc.connectionState === 'failed' || pc.connectionState === 'disconnected') {
         this.handlePeerDisconnect(peerId)
       }
     }
+  }
 
-    // Create data channel if we're the initiator
-    if (isInitiator) {
-      const dataChannel = pc.createDataChannel('game-data', {
-        ordered: true
-      })
-      this.setupDataChannel(peerId, dataChannel)
-    }
+  // Candidates are exchanged inside the offer/answer, so wait until they're all gathered
+  private waitForIceGathering(pc: RTCPeerConnection): Promise<void> {
+    if (pc.iceGatheringState === 'complete') return Promise.resolve()
 
-    return pc
+    return new Promise((resolve) => {
+      const timeout = setTimeout(done, ICE_GATHERING_TIMEOUT)
+
+      function done() {
+        clearTimeout(timeout)
+        pc.removeEventListener('icegatheringstatechange', check)
+        resolve()
+      }
+
+      function check() {
+        if (pc.iceGatheringState === 'complete') done()
+      }
+
+      pc.addEventListener('icegatheringstatechange', check)
+    })
+  }
+
+  private describe(pc: RTCPeerConnection): RTCSessionDescriptionInit {
+    const description = pc.localDescription
+    if (!description) throw new Error('Failed to create connection data')
+    return { type: description.type, sdp: description.sdp }
   }
 
   private setupDataChannel(peerId: string, channel: RTCDataChannel) {
@@ -114,10 +206,22 @@ export class WebRTCManager {
 
     channel.onopen = () => {
       console.log(`Data channel opened with ${peerId}`)
+      this.flushOutbox(channel)
     }
 
     channel.onmessage = (event) => {
-      this.handleMessage(JSON.parse(event.data))
+      let message: unknown
+      try {
+        message = JSON.parse(event.data)
+      } catch {
+        message = null // Rejected as malformed by handleMessage
+      }
+
+      // Peers can't speak for each other: the channel says who sent it
+      if (typeof message === 'object' && message !== null) {
+        (message as P2PMessage).senderId = peerId
+      }
+      this.handleMessage(message, this.hostId)
     }
 
     channel.onclose = () => {
@@ -126,75 +230,26 @@ export class WebRTCManager {
     }
   }
 
-  private handleMessage(message: P2PMessage) {
-    const listeners = this.eventListeners.get(message.type) || []
-    listeners.forEach(listener => {
-      // Handle different event types with appropriate parameter unpacking
-      switch (message.type) {
-        case 'game:guess':
-          const guessData = message.data as { playerId: string; guess: Guess }
-          listener(guessData.playerId, guessData.guess)
-          break
-        case 'game:finished':
-          const finishData = message.data as { playerId: string; finalTime: number }
-          listener(finishData.playerId, finishData.finalTime)
-          break
-        case 'game:state':
-        case 'game:player-joined':
-        case 'game:join-request':
-        case 'game:error':
-        case 'game:player-left':
-        case 'game:leave':
-          listener(message.data)
-          break
-        default:
-          listener(message.data)
-      }
-    })
+  private flushOutbox(channel: RTCDataChannel) {
+    if (this.isHost) return
+
+    this.outbox.forEach(messageStr => channel.send(messageStr))
+    this.outbox = []
   }
 
   private handlePeerDisconnect(peerId: string) {
+    if (!this.connections.has(peerId)) return
+
+    this.connections.get(peerId)?.close()
     this.connections.delete(peerId)
     this.dataChannels.delete(peerId)
     this.emit('game:player-left', peerId)
   }
 
-  // Generate WebRTC offer for QR code sharing
-  async generateQRCodeData(): Promise<string> {
-    if (!this.isHost) throw new Error('Only host can generate QR codes')
-    
-    // Create a temporary peer connection to generate offer
-    const tempPc = new RTCPeerConnection({ iceServers: ICE_SERVERS })
-    const dataChannel = tempPc.createDataChannel('game-data')
-    
-    const offer = await tempPc.createOffer()
-    await tempPc.setLocalDescription(offer)
-    
-    const qrData = {
-      hostId: this.myId,
-      offer: offer,
-      timestamp: Date.now()
-    }
-    
-    return JSON.stringify(qrData)
-  }
-
-  // Handle WebRTC offer from QR code
-  private async handleWebRTCOffer(hostId: string, offerData: { offer: RTCSessionDescriptionInit }) {
-    const pc = await this.createPeerConnection(hostId)
-    
-    await pc.setRemoteDescription(offerData.offer)
-    const answer = await pc.createAnswer()
-    await pc.setLocalDescription(answer)
-    
-    // In a real implementation, you'd send this answer back to the host
-    // For now, we'll simulate the connection
-    console.log('WebRTC Answer created:', answer)
-  }
-
   // Send message to all connected peers
-  broadcast(type: keyof P2PGameEvents, data: unknown) {
+  broadcast(type: GameEvent, data: unknown) {
     const message: P2PMessage = {
+      version: PROTOCOL_VERSION,
       type,
       data,
       senderId: this.myId,
@@ -202,45 +257,40 @@ export class WebRTCManager {
     }
 
     const messageStr = JSON.stringify(message)
-    this.dataChannels.forEach(channel => {
-      if (channel.readyState === 'open') {
-        channel.send(messageStr)
-      }
-    })
-  }
+    const openChannels = Array.from(this.dataChannels.values()).filter(
+      channel => channel.readyState === 'open'
+    )
 
-  // Send message to specific peer
-  send(peerId: string, type: keyof P2PGameEvents, data: unknown) {
-    const channel = this.dataChannels.get(peerId)
-    if (channel && channel.readyState === 'open') {
-      const message: P2PMessage = {
-        type,
-        data,
-        senderId: this.myId,
-        timestamp: Date.now()
-      }
-      channel.send(JSON.stringify(message))
+    // Players queue messages (like the join request) until the host channel opens
+    if (openChannels.length === 0 && !this.isHost) {
+      this.outbox.push(messageStr)
+      return
     }
-  }
 
-  // Event listener methods
-  on<T extends keyof P2PGameEvents>(event: T, callback: P2PGameEvents[T]) {
-    const listeners = this.eventListeners.get(event) || []
-    listeners.push(callback as (...args: unknown[]) => void)
-    this.eventListeners.set(event, listeners)
+    openChannels.forEach(channel => channel.send(messageStr))
   }
 
-  off<T extends keyof P2PGameEvents>(event: T, callback: P2PGameEvents[T]) {
-    const listeners = this.eventListeners.get(event) || []
-    const index = listeners.indexOf(callback as (...args: unknown[]) => void)
-    if (index > -1) {
-      listeners.splice(index, 1)
+  // Send message to specific peer
+  send(peerId: string, type: GameEvent, data: unknown) {
+    const recipient = peerId === HOST_PEER ? this.hostId : peerId
+    if (!recipient) return
+
+    const message: P2PMessage = {
+      version: PROTOCOL_VERSION,
+      type,
+      data,
+      senderId: this.myId,
+      to: recipient,
+      timestamp: Date.now()
     }
-  }
 
-  private emit<T extends keyof P2PGameEvents>(event: T, ...args: Parameters<P2PGameEvents[T]>) {
-    const listeners = this.eventListeners.get(event) || []
-    listeners.forEach(listener => listener(...args))
+    const channel = this.dataChannels.get(recipient)
+    if (channel && channel.readyState === 'open') {
+      channel.send(JSON.stringify(message))
+    } else if (!this.isHost && recipient === this.hostId) {
+      // Like broadcasts, wait for the host channel to open
+      this.outbox.push(JSON.stringify(message))
+    }
   }
 
   // Utility methods
@@ -248,6 +298,10 @@ export class WebRTCManager {
     return this.myId
   }
 
+  getHostId(): string | null {
+    return this.hostId
+  }
+
   isHostPlayer(): boolean {
     return this.isHost
   }
@@ -259,12 +313,26 @@ export class WebRTCManager {
   }
 
   disconnect() {
-    this.connections.forEach(pc => pc.close())
+    if (this.isHost) {
+      this.broadcast('game:terminated', null)
+    }
+
+    // Drop peers first so closing connections doesn't emit player-left events
+    const connections = Array.from(this.connections.values())
     this.connections.clear()
     this.dataChannels.clear()
+    connections.forEach(pc => pc.close())
+
+    this.pendingInvites.forEach(invite => invite.pc.close())
+    this.pendingInvites.clear()
+    this.outbox = []
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('beforeunload', this.handleBeforeUnload)
+    }
+
     this.isHost = false
     this.hostId = null
+    this.gameId = null
+    this.myId = generatePeerId() // Generate new ID for next session
   }
 }
-
-export const webrtcManager = new WebRTCManager()
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { GameEvent, GameEventEmitter, GameTransport, P2PMessage, PROTOCOL_VERSION, generatePeerId } from './game-transport'
+
+export const DEFAULT_RELAY_PORT = 3001
+
+// Frames exchanged with the relay server in server/index.ts
+export type RelayFrame =
+  // hostKey takes a game back after the host's tab reloads
+  | { kind: 'host'; gameId: string; peerId: string; hostKey?: string }
+  | { kind: 'join'; gameId: string; peerId: string }
+  | { kind: 'message'; message: P2PMessage }
+  // Hosts also get the key that lets them take their game back
+  | { kind: 'joined'; gameId: string; hostId: string; hostKey?: string }
+  // Sent to the players when the host takes its game back under a new ID
+  | { kind: 'host-resumed'; hostId: string }
+  | { kind: 'error'; message: string }
+
+// Relay address on the machine serving the page, e.g. ws://192.168.1.20:3001
+export function getDefaultRelayUrl(): string {
+  if (typeof window === 'undefined') return `ws://localhost:${DEFAULT_RELAY_PORT}`
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+  return `${protocol}//${window.location.hostname}:${DEFAULT_RELAY_PORT}`
+}
+
+// Transport through a self-hosted WebSocket relay that forwards messages per game ID
+export class WebSocketTransport extends GameEventEmitter implements GameTransport {
+  private socket: WebSocket | null = null
+  private pendingRegistration: { resolve: () => void; reject: (error: Error) => void } | null = null
+  private myId: string = generatePeerId()
+  private hostId: string | null = null
+
+  constructor(private url: string = getDefaultRelayUrl()) {
+    super()
+  }
+
+  async createGame(gameId: string): Promise<string> {
+    // Only set when we're resuming a game this tab hosted before
+    const hostKey = sessionStorage.getItem(`jotto-relay-host-key-${gameId}`) || undefined
+    await this.register({ kind: 'host', gameId, peerId: this.myId, hostKey })
+    return this.myId
+  }
+
+  async joinGame(gameId: string): Promise<string | null> {
+    await this.register({ kind: 'join', gameId, peerId: this.myId })
+    return null
+  }
+
+  // Connect to the relay and wait for it to accept our host or join frame
+  private async register(frame: RelayFrame): Promise<void> {
+    const socket = await this.connect()
+
+    await new Promise<void>((resolve, reject) => {
+      this.pendingRegistration = { resolve, reject }
+      socket.send(JSON.stringify(frame))
+    })
+  }
+
+  private connect(): Promise<WebSocket> {
+    if (typeof window === 'undefined') {
+      return Promise.reject(new Error('WebSocket relay is only available in browser environment'))
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url)
+
+      socket.onopen = () => {
+        this.socket = socket
+        resolve(socket)
+      }
+
+      socket.onerror = () => {
+        reject(new Error(`Could not reach the relay server at ${this.url}. Is it running?`))
+      }
+
+      socket.onmessage = (event) => {
+        this.handleFrame(JSON.parse(event.data))
+      }
+
+      socket.onclose = () => {
+        // Only report closes we didn't ask for
+        if (this.socket === socket) {
+          this.socket = null
+          this.emit('game:error', 'Lost connection to the relay server.')
+        }
+      }
+    })
+  }
+
+  private handleFrame(frame: RelayFrame) {
+    switch (frame.kind) {
+      case 'joined':
+        this.hostId = frame.hostId
+        if (frame.hostKey) {
+          sessionStorage.setItem(`jotto-relay-host-key-${frame.gameId}`, frame.hostKey)
+        }
+        this.pendingRegistration?.resolve()
+        this.pendingRegistration = null
+        break
+      case 'error':
+        if (this.pendingRegistration) {
+          this.pendingRegistration.reject(new Error(frame.message))
+          this.pendingRegistration = null
+        } else {
+          this.emit('game:error', frame.message)
+        }
+        break
+      case 'host-resumed':
+        this.hostId = frame.hostId
+        break
+      case 'message':
+        // The relay stamps every sender, so its own notices can be trusted
+        this.handleMessage(frame.message, this.hostId, true)
+        break
+    }
+  }
+
+  private sendFrame(type: GameEvent, data: unknown, to?: string) {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return
+
+    const message: P2PMessage = {
+      version: PROTOCOL_VERSION,
+      type,
+      data,
+      senderId: this.myId,
+      to,
+      timestamp: Date.now()
+    }
+
+    const frame: RelayFrame = { kind: 'message', message }
+    this.socket.send(JSON.stringify(frame))
+  }
+
+  // Send message to all other peers in the game
+  broadcast(type: GameEvent, data: unknown) {
+    this.sendFrame(type, data)
+  }
+
+  // Send message to specific peer; the relay only forwards it to them
+  send(peerId: string, type: GameEvent, data: unknown) {
+    this.sendFrame(type, data, peerId)
+  }
+
+  getMyId(): string {
+    return this.myId
+  }
+
+  getHostId(): string | null {
+    return this.hostId
+  }
+
+  disconnect() {
+    const socket = this.socket
+    this.socket = null
+    socket?.close()
+
+    this.pendingRegistration = null
+    this.hostId = null
+    this.myId = generatePeerId() // Generate new ID for next session
+  }
+}
@@ -0,0 +1,1771 @@
+// Generated from SCOWL (http://wordlist.aspell.net/) size 50, American and
+// common English spellings, lowercase words of 4 to 7 letters.
+//
+// Copyright 2000-2016 by Kevin Atkinson
+//
+// Permission to use, copy, modify, distribute and sell these word lists, the
+// associated scripts, the output created from the scripts, and its
+// documentation for any purpose is hereby granted without fee, provided that
+// the above copyright notice appears in all copies and that both that
+// copyright notice and this permission notice appear in supporting
+// documentation. Kevin Atkinson makes no representations about the
+// suitability of this array for any purpose. It is provided "as is" without
+// express or implied warranty.
+
+// Everyday words (SCOWL sizes 10 to 35), fit to be secret words
+export const COMMON_WORDS = `
+aback abacus abandon abate abated abates abating abbey abbeys abbot abbots abdomen abduct
+abducts abet abets abetted abhor abhors abide abides abiding ability abject ablaze able abler
+ablest ably aboard abode abodes abolish abort aborted aborts abound abounds about above abreast
+abridge abroad abrupt abscess abscond absence absent absents absolve absorb absorbs abstain
+absurd abuse abused abuser abusers abuses abusing abusive abysmal abyss abysses academy accede
+acceded accedes accent accents accept accepts access acclaim accord accords accost accosts
+account accrue accrued accrues accuse accused accuser accuses aced aces ache ached aches achieve
+aching acid acidity acids acing acne acorn acorns acquire acquit acquits acre acreage acres
+acrid acrider acrobat acronym across acrylic acted acting action actions active actives actor
+actors actress acts actual actuary acumen acute acutely acuter acutes acutest adage adages
+adamant adapt adapted adapter adapts added addict addicts adding address adds adept adepts
+adhere adhered adheres adjoin adjoins adjourn adjunct adjust adjusts admiral admire admired
+admirer admires admit admits adobe adobes adopt adopted adopts adore adored adores adoring adorn
+adorned adorns adrift adroit adult adults advance advent adverb adverbs adverse advert adverts
+advice advise advised adviser advises aerial aerials aerosol afar affable affably affair affairs
+affect affects affirm affirms affix affixed affixes afflict afford affords affront afield aflame
+afloat afoot afraid afresh after again against aged agency agenda agendas agent agents ages
+aghast agile agility aging agitate aglow agonies agonize agony agree agreed agrees aground ahead
+ahoy aide aided aides aiding aids ailed ailing ailment ails aimed aiming aimless aims aired
+airier airiest airing airline airmail airport airs airy aisle aisles ajar akin alarm alarmed
+alarms alas albeit albino albinos album albums alcohol alcove alcoves alert alerted alerts ales
+alga algae algebra alias aliased aliases alibi alibied alibis alien aliened aliens alight
+alights align aligned aligns alike alimony alive alkali allay allayed allays allege alleged
+alleges allergy alley alleys allied allies allot allots allow allowed allows alloy alloyed
+alloys allude alluded alludes allure allured allures ally allying almanac almond almonds almost
+alms aloft alone along aloof aloud alpha already also altar altars alter altered alters alto
+altos always amass amassed amasses amateur amaze amazed amazes amazing amber ambient amble
+ambled ambles ambling ambush amen amend amended amends amenity amiable amiably amid amiss
+ammonia amnesia amnesty amoeba amoebae amoebas amok among amoral amorous amount amounts ampere
+amperes ample ampler amplest amplify amply amps amulet amulets amuse amused amuses amusing
+anagram anal analog analogy analyst analyze anarchy anatomy anchor anchors anchovy ancient
+android anemia anemic anew angel angelic angels anger angered angers angle angled angler anglers
+angles angling angrier angrily angry angst anguish angular animal animals animate ankle ankles
+annals annex annexed annexes annoy annoyed annoys annual annuals annuity annul annuls anoint
+anoints anomaly anon anorak anoraks another answer answers antenna anthem anthems anthill
+anthrax antic antics antique antler antlers antonym ants anus anuses anvil anvils anxiety
+anxious anybody anyhow anyone anyway aorta aortas apart apathy aped apes apex apexes apiece
+aping aplomb apology apostle appall appalls apparel appeal appeals appear appears appease append
+appends applaud apple apples applied applies apply appoint approve apricot apron aprons apter
+aptest aptly aquatic arable arbiter arbor arbors arcade arcades arcane arced arch archaic arched
+archer archers archery arches archest arching archive archway arcing arcs ardent ardor ardors
+arduous area areas arena arenas ares argue argued argues arguing aria arias arid arise arisen
+arises arising arks armed armies arming armor armored armors armory armpit armpits arms army
+aroma aromas arose around arouse aroused arouses arraign arrange array arrayed arrays arrears
+arrest arrests arrival arrive arrived arrives arrow arrows arsenal arsenic arson artery artful
+article artisan artist artists arts artwork ascend ascends ascent ascents ascetic ascribe
+asexual ashamed ashcan ashed ashen ashes ashing ashore ashtray aside asides askance asked askew
+asking asks asleep aspect aspects aspen aspens asphalt aspire aspired aspires aspirin assail
+assails assault assent assents assert asserts asses assess asset assets assign assigns assist
+assists assort assorts assume assumed assumes assure assured assures asthma astound astray
+astride astute astuter asylum asylums atheism atheist athlete atlas atlases atom atomic atoms
+atone atoned atones atoning attach attack attacks attain attains attempt attend attends attest
+attests attic attics attire attired attires attract auburn auction audible audibly audio audios
+audit audited auditor audits augment august aunt aunts aura aural auras austere author authors
+auto autopsy autos autumn autumns avail availed avails avarice avenge avenged avenges avenue
+avenues average averse avert averted averts aviator avid avocado avoid avoided avoids avow
+avowal avowals avowed avowing avows await awaited awaits awake awaken awakens awakes awaking
+award awarded awards aware away awed awes awesome awful awfully awhile awing awkward awning
+awnings awoke awoken awry axed axes axing axiom axioms axis axle axles ayes azalea azaleas azure
+azures babble babbled babbles babe babes babied babier babies babiest baboon baboons baby
+babying babyish back backed backer backers backing backlog backs bacon badder baddest bade badge
+badger badgers badges badly badness baffle baffled baffles bagel bagels baggage bagged baggier
+bagging baggy bags bail bailed bailing bails bait baited baiting baits bake baked baker bakers
+bakery bakes baking balance balcony bald balded balder baldest balding balds bale baled bales
+baling balk balked balking balks ball ballad ballads ballast balled ballet ballets balling
+balloon ballot ballots balls balm balmier balms balmy baloney bamboo bamboos banal banana
+bananas band bandage banded bandied bandier bandies banding bandit bandits bands bandy bang
+banged banging bangs bani banish banjo banjos bank banked banker bankers banking banks banned
+banner banners banning banquet bans banter banters baptism baptize barb barbed barber barbers
+barbing barbs bard bards bare bared barely barer bares barest bargain barge barged barges
+barging baring bark barked barking barks barley barman barn barns baron barons baroque barrage
+barred barrel barrels barren barrens barrier barring bars barter barters base based baser bases
+basest bash bashed bashes bashful bashing basic basics basil basin basing basins basis bask
+basked basket baskets basking basks bass basses bassoon bastard baste basted bastes basting
+batch batched batches bath bathe bathed bathes bathing baths bathtub baton batons bats batsman
+batted batter batters battery batting battle battled battles baud bawdier bawdy bawl bawled
+bawling bawls bayed baying bayonet bayou bayous bays bazaar bazaars beach beached beaches beacon
+beacons bead beaded beadier beading beads beady beagle beagles beak beaked beaker beakers beaks
+beam beamed beaming beams bean beaned beaning beans bear beard bearded beards bearer bearers
+bearing bears beast beasts beat beaten beater beaters beating beats beauty beaver beavers became
+because beckon beckons become becomes bedbug bedbugs bedded bedder bedding bedlam bedlams
+bedrock bedroom beds bedside bedtime beech beeches beef beefed beefier beefing beefs beefy
+beehive been beeper beer beers bees beeswax beet beetle beetled beetles beets beeves befall
+befalls befell befit befits before began beggar beggars begged begging begin begins begs beguile
+begun behalf behave behaved behaves behead beheads beheld behind behinds behold beholds beige
+being beings belabor belated belch belched belches belfry belie belied belief beliefs belies
+believe bell bellboy belled bellhop bellied bellies belling bellow bellows bells belly belong
+belongs beloved below belt belted belting belts belying bemoan bemoans bemuse bemused bemuses
+bench benched benches bend bender bending bends beneath benefit benign bent bents bequest
+bereave bereft beret berets berried berries berry berserk berth berthed berths beseech beset
+besets beside besides besiege best bested bestial besting bestow bestows bests beta betcha
+betray betrays bets better betters betting bettor bettors between beware bewared bewares bewitch
+beyond bias biased biases biasing bible bibs bicker bickers bicycle bidden bidding bide bides
+biding bids bigamy bigger biggest bigot bigoted bigotry bigots bike biked bikes biking bikini
+bikinis bile bill billed billing billion billow billows bills binary bind binder binders binding
+binds bingo binned binning bins biology biped bipeds biplane birch birched birches bird birded
+birding birds birth birthed births biscuit bisect bisects bishop bishops bison bitch bitched
+bitches bite bites biting bitmap bits bitten bitter bizarre blab blabbed blabs black blacked
+blacken blacker blacks bladder blade blades blame blamed blamer blames blaming blanch bland
+blander blank blanked blanker blanket blankly blanks blare blared blares blaring blast blasted
+blaster blasts blatant blaze blazed blazer blazers blazes blazing bleach bleak bleaker bleary
+bleat bleated bleats bled bleed bleeds blemish blend blended blends bless blessed blesses blew
+blight blights blimp blimps blind blinded blinder blindly blinds blink blinked blinker blinks
+blip blips bliss blister blithe blither blitz blitzed blitzes blob blobbed blobs bloc block
+blocked blocks blocs blog blogged blogger blogs blond blonde blonder blondes blonds blood
+blooded bloods bloody bloom bloomed blooms blossom blot blotch blots blotted blotter blouse
+bloused blouses blow blowing blown blowout blows blubber blue blued bluer blues bluest bluff
+bluffed bluffer bluffs bluing blunder blunt blunted blunter bluntly blunts blur blurb blurred
+blurs blurt blurted blurts blush blushed blushes bluster boar board boarded boarder boards boars
+boas boast boasted boasts boat boated boating boats bobbed bobbin bobbing bobbins bobcat bobcats
+bobs bobsled bode boded bodes bodice bodices bodies bodily boding body bogged bogging boggle
+boggled boggles bogs bogus boil boiled boiler boilers boiling boils bold bolder boldest boldly
+bologna bolster bolt bolted bolting bolts bomb bombard bombed bomber bombers bombing bombs bond
+bondage bonded bonding bonds bone boned bones bonfire bonier boniest boning bonnet bonnets bonus
+bonuses bony booby booed booing book booked bookend booking booklet books boom boomed booming
+booms boon boons boor boorish boors boos boost boosted booster boosts boot booted bootee bootees
+booth booths booties booting bootleg boots booty booze border borders bore bored boredom bores
+boring born borne borough borrow borrows bosom bosoms boss bossed bosses bossier bossing bossy
+botany botch botched botches both bother bothers bottle bottled bottles bottom bottoms bough
+boughs bought boulder bounce bounced bounces bound bounded bounds bounty bouquet bourbon bout
+bouts bovine bovines bowed bowel bowels bowing bowl bowled bowler bowling bowls bows boxcar
+boxcars boxed boxer boxers boxes boxing boycott boyhood boyish boys brace braced braces bracing
+bracket brag bragged brags braid braided braids brain brained brains brainy braise braised
+braises brake braked brakes braking bran branch brand branded brands brandy bras brash brasher
+brass brasses brassy brat brats bravado brave braved bravely braver bravery braves bravest
+braving bravo bravos brawl brawled brawls brawn brawny bray brayed braying brays brazen brazens
+brazier breach bread breaded breads breadth break breaks breast breasts breath breathe breaths
+bred breed breeder breeds breeze breezed breezes breezy brevity brew brewed brewery brewing
+brews bribe bribed bribery bribes bribing brick bricked bricks bridal bridals bride brides
+bridge bridged bridges bridle bridled bridles brief briefed briefer briefly briefs brigade
+bright brim brimmed brims brine bring brings brinier brink brinks briny brisk brisked brisker
+briskly brisks bristle brittle broach broad broaden broader broadly broads brocade broil broiled
+broiler broils broke broken broker brokers bronco broncos bronze bronzed bronzes brooch brood
+brooded broods brook brooked brooks broom brooms broth brother broths brought brow brown browned
+browner brownie browns brows browse browsed browses bruise bruised bruises brunch brunt brush
+brushed brushes brusque brutal brute brutes brutish bubble bubbled bubbles bubbly buck bucked
+bucket buckets bucking buckle buckled buckles bucks budded buddies budding buddy budge budged
+budges budget budgets budging buds buff buffalo buffed buffer buffers buffet buffets buffing
+buffoon buffs bugged bugger buggers buggier buggies bugging buggy bugle bugled bugler buglers
+bugles bugling bugs build builder builds built bulb bulbous bulbs bulge bulged bulges bulging
+bulk bulked bulkier bulking bulks bulky bull bulldog bulled bullet bullets bullied bullies
+bulling bullion bulls bully bummed bummer bummest bumming bump bumped bumper bumpers bumpier
+bumping bumps bumpy bums bunch bunched bunches bundle bundled bundles bung bungle bungled
+bungler bungles bunion bunions bunk bunked bunker bunkers bunking bunks bunnies bunny buns buoy
+buoyant buoyed buoying buoys burble burbled burbles burden burdens bureau bureaus burger burgers
+burglar burgle burial burials buried buries burlap burlier burly burn burned burner burners
+burning burnish burns burnt burp burped burping burps burr burred burring burro burros burrow
+burrows burrs bursar burst bursts bury burying bused buses bush bushed bushel bushels bushes
+bushier bushing bushy busied busier busies busiest busily busing buss bust busted busting bustle
+bustled bustles busts busy busying butcher butler butlers buts butt butte butted butter butters
+buttery buttes butting buttock button buttons butts buxom buyer buyers buying buys buzz buzzard
+buzzed buzzer buzzers buzzes buzzing byes bygone bygones bypass byte bytes byway byways cabaret
+cabbage cabbed cabbing cabin cabinet cabins cable cabled cables cabling caboose cabs cacao
+cacaos cache cached caches caching cackle cackled cackles cacti cactus caddie caddied caddies
+cadence cadet cadets cage caged cages cagey cagier cagiest caging cajole cajoled cajoles cake
+caked cakes caking calcium calculi calf caliber calico calk calked calking calks call called
+caller callers calling callous callow calls callus calm calmed calmer calmest calming calmly
+calms calorie calve calves came camel camels cameo cameos camera cameras camp camped camper
+campers camping camps campus canal canals canary cancel cancels cancer cancers candid candied
+candies candle candled candles candor candy cane caned canes canine canines caning canker
+cankers canned cannery cannier canning cannon cannons cannot canny canoe canoed canoes canon
+canons canopy cans cant canteen canter canters canvas canvass canyon canyons capable capably
+cape caped caper capered capers capes capital capped capping caprice caps capsize capsule
+captain caption captive captor captors capture caramel carat carats caravan carbon carbons
+carcass card carded cardiac carding cards care cared career careers careful cares caress cargo
+cargoes caribou caring carnage carnal carol caroled carols carouse carp carped carpet carpets
+carping carps carried carrier carries carrion carrot carrots carry cars cart carted cartel
+cartels carting carton cartons cartoon carts carve carved carves carving cascade case cased
+cases cash cashed cashes cashew cashews cashier cashing casing casings casino casinos cask
+casket caskets casks cast caste caster casters castes casting castle castled castles castoff
+casts casual casuals catalog catcall catch catches catchy cater catered caterer caters catfish
+catnap catnaps catnip cats cattle catwalk caucus caught caulk caulked caulks causal cause caused
+causes causing caustic caution cavalry cave caveat caveats caved cavern caverns caves caviar
+caving cavity cavort cavorts cawed cawing caws cease ceased ceases ceasing cedar cedars cede
+ceded cedes ceding ceiling celery cell cellar cellars cellist cello cellos cells cement cements
+censor censors censure census cent center centers central cents century ceramic cereal cereals
+certain certify chafe chafed chafes chaff chaffed chaffs chafing chagrin chain chained chains
+chair chaired chairs chalet chalets chalice chalk chalked chalks chalky chamber champ champed
+champs chance chanced chances change changed changes channel chant chanted chants chaos chaotic
+chap chapel chapels chapped chaps chapter char charge charged charger charges chariot charity
+charm charmed charms charred chars chart charted charter charts chase chased chases chasing
+chasm chasms chassis chaste chasten chaster chat chats chatted chatter chatty cheap cheapen
+cheaper cheaply cheat cheated cheats check checked checker checks checkup cheek cheeked cheeks
+cheep cheeped cheeps cheer cheered cheers cheery cheese cheesed cheeses cheetah chef chefs
+chemist cherish cherry cherub cherubs chess chest chests chew chewed chewier chewing chews chewy
+chic chicer chicest chick chicken chicks chide chided chides chiding chief chiefer chiefly
+chiefs child chili chilies chill chilled chiller chills chilly chime chimed chimes chiming
+chimney chimp chimps chin china chink chinked chinks chinned chins chintz chip chipped chipper
+chips chirp chirped chirps chisel chisels choice choicer choices choir choirs choke choked
+chokes choking cholera choose chooses choosy chop chopped chopper choppy chops choral chorals
+chord chords chore chores chortle chorus chose chosen chow chowder chowed chowing chows chrome
+chromed chromes chronic chubby chuck chucked chuckle chucks chug chugged chugs chum chummed
+chummy chums chunk chunks chunky church churn churned churns chute chutes cider ciders cigar
+cigars cinch cinched cinches cinder cinders cinema cinemas cipher ciphers circa circle circled
+circles circuit circus cistern cite cited cites cities citing citizen citric citrus city civic
+civics civil clack clacked clacks clad claim claimed claims clam clamber clammed clammy clamor
+clamors clamp clamped clamps clams clan clang clanged clangs clank clanked clanks clans clap
+clapped clapper claps claret clarify clarity clash clashed clashes clasp clasped clasps class
+classed classes classic classy clatter clause clauses claw clawed clawing claws clay clean
+cleaned cleaner cleanly cleans cleanse clear cleared clearer clearly clears cleat cleats cleave
+cleaved cleaver cleaves clef clefs cleft clefts clench clergy cleric clerics clerk clerked
+clerks clever click clicked clicks client clients cliff cliffs climate climax climb climbed
+climber climbs clime climes clinch cling clings clinic clinics clink clinked clinks clip clipped
+clips clique cliques cloak cloaked cloaks clock clocked clocks clod clods clog clogged clogs
+clone clones close closed closely closer closes closest closet closets closing closure clot
+cloth clothe clothed clothes cloths clots clotted cloud clouded clouds cloudy clout clouted
+clouts clove cloven clover clovers cloves clown clowned clowns club clubbed clubs cluck clucked
+clucks clue clued clues cluing clump clumped clumps clumsy clung cluster clutch clutter coach
+coached coaches coal coaled coaling coals coarse coarsen coarser coast coastal coasted coaster
+coasts coat coated coating coats coax coaxed coaxes coaxing cobalt cobble cobbler cobra cobras
+cobs cobweb cobwebs cocaine cock cocked cockier cocking cockpit cocks cocky cocoa cocoas coconut
+cocoon cocoons codded codding code coded codes coding cods coerce coerced coerces coexist coffee
+coffees coffer coffers coffin coffins cogency cogent cognac cognacs cogs coil coiled coiling
+coils coin coinage coined coining coins coke coked cokes coking cold colder coldest coldly colds
+colic collage collar collars collate collect college collide collie collies colon colonel
+colones colons colony color colored colors colt colts column columns coma comas comb combat
+combats combed combine combing combs come comedy comely comes comet comets comfort comic comical
+comics coming comings comma command commas commend comment commit commits common commons commune
+commute compact company compare compass compel compels compete compile complex comply compose
+compost compute comrade concave conceal concede conceit concept concern concert concise concoct
+concord concur concurs condemn condom condoms condone condor condors conduct cone cones confer
+confers confess confide confine confirm conform confuse congeal congest conical conifer conjure
+connect conned conning connote conquer cons consent consign consist console consort consul
+consuls consult consume contact contain contend content contest context contort contour control
+convene convent convert convex convey conveys convict convoy convoys cooed cooing cook cooked
+cooker cookie cookies cooking cooks cool cooled cooler coolers coolest cooling coolly cools coop
+cooped cooper cooping coops coos cope coped copes copied copier copiers copies coping copious
+copped copper coppers copping cops copy copying coral corals cord corded cordial cording cordon
+cordons cords core cored cores coring cork corked corking corks corn cornea corneas corned
+corner corners cornet cornets cornier corning corns corny coroner corps corpse corpses corpus
+corral corrals correct corrode corrupt corsage corset corsets cortex cosmic cosmos cost costed
+costing costly costs costume cots cottage cotton cottons couch couched couches cougar cougars
+cough coughed coughs could council counsel count counted counter country counts county coup
+couple coupled couples coupon coupons coups courage courier course coursed courser courses court
+courted courts cousin cousins cove cover covered covers covert coverts coves covet coveted
+covets coward cowards cowboy cowboys cowed cower cowered cowers cowgirl cowhide cowing cows
+coyer coyest coyote coyotes cozier cozies coziest cozily cozy crab crabbed crabby crabs crack
+cracked cracker crackle cracks cradle cradled cradles craft crafted crafts crafty crag craggy
+crags cram crammed cramp cramped cramps crams crane craned cranes craning cranium crank cranked
+cranks cranky crap crash crashed crashes crass crasser crate crated crater craters crates
+crating crave craved craves craving crawl crawled crawls crayon crayons craze crazed crazes
+crazier crazies crazily crazing crazy creak creaked creaks creaky cream creamed creams creamy
+crease creased creases create created creates creator credit credits creed creeds creek creeks
+creep creeps creepy cremate crepe crepes crept crest crested crests cretin cretins crevice crew
+crewed crewing crews crib cribbed cribs cricket cried cries crime crimes crimson cringe cringed
+cringes crinkle cripple crises crisis crisp crisped crisper crisply crisps crispy critic critics
+croak croaked croaks crochet crock crocks crocus crofts cronies crony crook crooked crooks croon
+crooned croons crop cropped crops croquet cross crossed crosser crosses crotch crouch crow
+crowbar crowd crowded crowds crowed crowing crown crowned crowns crows crucial crucify crude
+crudely cruder crudest crudity cruel crueler cruelly cruelty cruise cruised cruiser cruises
+crumb crumbed crumble crumbly crumbs crummy crumple crunch crunchy crusade crush crushed crushes
+crust crusted crusts crusty crutch crux cruxes crybaby crying crypt cryptic crypts crystal cube
+cubed cubes cubic cubicle cubing cubs cuckoo cuckoos cuddle cuddled cuddles cuddly cued cues
+cuff cuffed cuffing cuffs cuing cuisine cull culled culling culls culprit cult cults culture
+cumming cums cunning cupful cupfuls cupped cupping cups curable curator curb curbed curbing
+curbs curd curdle curdled curdles curds cure cured cures curfew curfews curing curio curios
+curious curl curled curling curls curly currant current curried curries curry curse cursed
+curses cursing cursor cursory curt curtail curtain curter curtest curtsy curve curved curves
+curving cushion custard custody custom customs cutback cute cuter cutest cuticle cutlery cutlet
+cutlets cuts cutter cutters cutting cyanide cycle cycled cycles cyclic cycling cyclist cyclone
+cymbal cymbals cynic cynical cynics cypress cyst cysts czar czars dabbed dabbing dabble dabbled
+dabbles dabs daddies daddy dads daemon daft dagger daggers dailies daily dainty dairies dairy
+dais daises daisies daisy dallied dallies dally damage damaged damages dame dames dammed damming
+damn damned damning damns damp damped dampen dampens damper dampest damping damps dams damsel
+damsels dance danced dancer dancers dances dancing dandier dandies dandy danger dangers dangle
+dangled dangles dank danker dankest dapper dare dared dares daring dark darken darkens darker
+darkest darkly darling darn darned darning darns dart darted darting darts dash dashed dashes
+dashing data date dated dates dating datum daub daubed daubing daubs daunt daunted daunts dawdle
+dawdled dawdles dawn dawned dawning dawns days daytime daze dazed dazes dazing dazzle dazzled
+dazzles deacon deacons dead deaden deadens deader deadest deadly deaf deafer deafest deal dealer
+dealers dealing deals dealt dean deans dear dearer dearest dearly dears dearth dearths death
+deaths deaves debase debased debases debate debated debates debit debited debits debrief debris
+debt debtor debtors debts debug debugs debunk debunks debut debuted debuts decade decades decay
+decayed decays decease deceit deceits deceive decency decent decibel decide decided decides
+decimal deck decked decking decks declare decline decode decoded decoder decodes decorum decoy
+decoyed decoys decree decreed decrees decried decries decry deduce deduced deduces deduct
+deducts deed deeded deeding deeds deem deemed deeming deems deep deepen deepens deeper deepest
+deeply deeps deer deface defaced defaces defame defamed defames default defeat defeats defect
+defects defend defends defense defer defers defiant deficit defied defies defile defiled defiles
+define defined defines deflate deflect deform deforms defraud defrost deft defter deftest deftly
+defunct defy defying degrade degree degrees deified deifies deify deign deigned deigns deities
+deity deject dejects delay delayed delays delete deleted deletes deli delight delimit delis
+deliver delta deltas delude deluded deludes deluge deluged deluges deluxe delve delved delves
+delving demand demands demean demeans demerit demise demised demises demon demons demote demoted
+demotes demount demure demurer denial denials denied denies denim denims denote denoted denotes
+dens dense densely denser densest density dent dental dented denting dentist dents deny denying
+depart departs depend depends depict depicts deplete deplore deport deports depose deposed
+deposes deposit depot depots deprave depress deprive depth depths deputy derail derails derange
+deride derided derides derive derived derives derrick descend descent desert deserts deserve
+design designs desire desired desires desist desists desk desks desktop despair despise despite
+despot despots dessert destine destiny destroy detach detail details detain detains detect
+detects deter deters detest detests detour detours detract devalue develop deviant deviate
+device devices devil deviled devils devious devise devised devises devoid devolve devote devoted
+devotee devotes devour devours devout diagram dial dialect dialed dialing dialog dials diamond
+diaper diapers diaries diary dice diced dices dicing dictate diction died dies diesel diesels
+diet dietary dieted dieting diets differ differs diffuse digest digests digging digit digital
+digits dignify dignity digress digs dike diked dikes diking dilate dilated dilates dilemma dill
+dills dilute diluted dilutes dime dimer dimes dimly dimmed dimmer dimmest dimming dimple dimpled
+dimples dims dine dined diner diners dines dinghy dingier dingy dining dinned dinner dinners
+dinning dins diocese dioxide diploma dipped dipping dips dire direct directs direr direst dirge
+dirges dirt dirtied dirtier dirties dirty disable disarm disarms disavow disband disc discard
+discern disco discord discos discs discus discuss disdain disease disgust dish dished dishes
+dishing disk disks dislike dismal dismay dismays dismiss disobey disown disowns dispel dispels
+display dispose dispute disrupt dissect dissent distant distend distill distort disturb disuse
+disused disuses ditch ditched ditches dither dithers ditties ditto dittoed dittos ditty dive
+dived diver diverge divers diverse divert diverts dives divest divests divide divided divides
+divine divined diviner divines diving divisor divorce divulge dizzied dizzier dizzies dizzy
+docile dock docked docking docks doctor doctors dodge dodged dodges dodging dodo doer doers does
+dogged dogging dogma dogmas dogs dogwood doilies doily doing dole doled doleful doles doling
+doll dollar dollars dolled dollies dolling dolls dolly dolphin domain domains dome domed domes
+doming domino donate donated donates done donkey donkeys donor donors dons doodle doodled
+doodles doom doomed dooming dooms door doorman doormen doors doorway dope doped dopes dopey
+dopier dopiest doping dormant dorsal dose dosed doses dosing dote doted dotes doting dots dotted
+dotting double doubled doubles doubly doubt doubted doubts dough dour dourer dourest douse
+doused douses dousing dove doves dowdier dowdies dowdy down downed downier downing downs downy
+dowries dowry doze dozed dozen dozens dozes dozing drab drabber drabs draft drafted drafts
+drafty drag dragged dragon dragons drags drain drained drains drama dramas drank drape draped
+drapery drapes draping drastic draw drawer drawers drawing drawl drawled drawls drawn draws
+dread dreaded dreads dream dreamed dreamer dreams dreamy dreary dredge dredged dredges dregs
+drench dress dressed dresser dresses dressy drew dribble dried drier driers dries driest drift
+drifted drifts drill drilled drills drink drinker drinks drip dripped drips drive drivel drivels
+driven driver drivers drives driving drizzle droll droller drone droned drones droning drool
+drooled drools droop drooped droops drop dropout dropped drops dross drought drove droves drown
+drowned drowns drowse drowsed drowses drowsy drudge drudged drudges drug drugged drugs drum
+drummed drummer drums drunk drunken drunker drunks dryer dryers drying dryly dryness drys dual
+dualism dubbed dubbing dubious dubs duchess duck ducked ducking ducks duct ducts dude duded
+dudes duding duds duel dueled dueling duels dues duet duets duff dugout dugouts duke dukes dull
+dulled duller dullest dulling dulls dully duly dumb dumber dumbest dummies dummy dump dumped
+dumpier dumping dumps dumpy dunce dunces dune dunes dung dunged dungeon dunging dungs dunk
+dunked dunking dunks dunno dupe duped dupes duping duplex durable duress during dusk duskier
+dusky dust dustbin dusted dustier dusting dustmen dustpan dusts dusty duties dutiful duty duvet
+dwarf dwarfed dwarfs dwell dweller dwells dwelt dwindle dyed dyeing dyes dying dynamic dynamo
+dynamos dynasty each eager eagerer eagerly eagle eagles earache eardrum earl earlier earls early
+earmark earn earned earner earners earnest earning earns earring ears earshot earth earthed
+earthly earths earthy ease eased easel easels eases easier easiest easily easing east eastern
+easy eaten eater eating eats eave eaves ebbed ebbing ebbs ebonies ebony echo echoed echoes
+echoing eclipse ecology economy ecstasy eczema eddied eddies eddy eddying edge edged edger edges
+edgier edgiest edging edgy edible edibles edict edicts edifice edit edited editing edition
+editor editors edits educate eels eerie eerier eeriest effect effects effigy effort efforts
+egged egging eggs egoism egos egotism egotist eight eighth eighths eights eighty either eject
+ejected ejects eked ekes eking elapse elapsed elapses elastic elation elbow elbowed elbows elder
+elderly elders eldest elect elected elector elects elegant elegies elegy element elevate eleven
+elevens elicit elicits elite elites elitism elitist elks ellipse elms elope eloped elopes
+eloping else elude eluded eludes eluding elusive elves email emailed emails emanate embalm
+embalms embargo embark embarks embassy embed embeds ember embers emblem emblems embody emboss
+embrace embryo embryos emerald emerge emerged emerges eminent emir emirs emit emits emitted
+emotion emotive empathy emperor empire empires employ employs empower empress emptied emptier
+empties empty emulate enable enabled enables enact enacted enacts enamel enamels encase encased
+encases enchant enclose encode encoded encodes encore encored encores endear endears ended
+endemic ending endings endive endives endless endorse endow endowed endows ends endure endured
+endures endways enema enemas enemies enemy energy enforce engage engaged engages engine engines
+engrave engross engulf engulfs enhance enigma enigmas enjoy enjoyed enjoys enlarge enlist
+enlists enliven enmity enough enrage enraged enrages enrich enroll enrolls ensign ensigns
+enslave ensue ensued ensues ensuing ensure ensured ensures entail entails enter entered enters
+entice enticed entices entire entitle entity entrant entrap entraps entreat entries entropy
+entrust entry entwine envelop envied envies envious envoy envoys envy envying enzyme enzymes
+eons epaulet epic epics episode epitaph epithet epitome epoch epochs epsilon equal equaled
+equally equals equate equated equates equator equine equines equinox equip equips equity eras
+erase erased eraser erasers erases erasing erasure erect erected erects ergo erode eroded erodes
+eroding erosion erotic errand errands errant erratic erred erring error errors errs erudite
+erupt erupted erupts escape escaped escapes escort escorts essay essayed essays essence estate
+estates esteem esteems etch etched etches etching eternal ether ethic ethical ethics ethnic
+ethnics ethos eulogy eureka evade evaded evades evading evasion evasive even evened evener
+evenest evening evenly evens event events ever every eves evict evicted evicts evident evil
+eviler evilest evils evoke evoked evokes evoking evolve evolved evolves ewes exact exacted
+exacter exactly exacts exalt exalted exalts exam examine example exams exceed exceeds excel
+excels except excepts excerpt excess excise excised excises excite excited excites exclaim
+exclude excrete excuse excused excuses execute exempt exempts exert exerted exerts exhale
+exhaled exhales exhaust exhibit exhort exhorts exhume exhumed exhumes exile exiled exiles
+exiling exist existed exists exit exited exiting exits exodus exotic exotics expand expands
+expanse expect expects expel expels expend expends expense expert experts expire expired expires
+expiry explain explode exploit explore export exports expose exposed exposes expound express
+extant extend extends extent extents extinct extol extols extort extorts extra extract extras
+extreme exude exuded exudes exuding exult exulted exults eyeball eyebrow eyed eyeing eyelash
+eyelid eyelids eyes eyesore fable fables fabric fabrics facade facades face faced faces facet
+faceted facets facial facials facile facing fact faction factor factors factory facts factual
+faculty fade faded fades fading fads faggot faggots fagot fagots fail failed failing fails
+failure faint fainted fainter faintly faints fair fairer fairest fairies fairly fairs fairy
+faith faiths fake faked fakes faking falcon falcons fall fallacy fallen falling fallout falls
+false falsely falser falsest falsify falsity falter falters fame famed family famine famines
+famous fanatic fancied fancier fancies fancy fanfare fang fangs fanned fanning fans fantasy
+faraway farce farces fare fared fares faring farm farmed farmer farmers farming farms farther
+fascism fascist fashion fast fasted fasten fastens faster fastest fasting fasts fatal fatally
+fate fated fateful fates father fathers fathom fathoms fatigue fating fats fatten fattens fatter
+fattest fattier fatties fatty fatuous faucet faucets fault faulted faults faulty fauna faunas
+favor favored favors fawn fawned fawning fawns faze fazed fazes fazing fear feared fearful
+fearing fears feast feasted feasts feat feather feats feature feces federal feds feeble feebler
+feed feeder feeders feeding feeds feel feeler feelers feeling feels fees feet feign feigned
+feigns feint feinted feints feline felines fell felled feller fellest felling fellow fellows
+fells felon felons felony felt felted felting felts female females fence fenced fences fencing
+fend fended fender fenders fending fends ferment fern ferns ferret ferrets ferried ferries ferry
+fertile fervent fervor fester festers festive festoon fetch fetched fetches feted fetid feting
+fetish fetter fetters fetus fetuses feud feudal feuded feuding feuds fever fevers fewer fewest
+fezzes fiasco fibbed fibber fibbers fibbing fiber fibers fibs fiche fickle fickler fiction
+fiddle fiddled fiddler fiddles fiddly fidget fidgets fidgety field fielded fields fiend fiends
+fierce fiercer fierier fiery fiesta fiestas fifteen fifth fifths fifties fifty fight fighter
+fights figment figs figure figured figures filch filched filches file filed files filet filing
+fill filled filler fillet fillets fillies filling fills filly film filmed filmier filming films
+filmy filter filters filth filthy final finale finales finally finals finance finch finches find
+finding finds fine fined finely finer fines finesse finest finger fingers finicky fining finish
+finite fins fire firearm fired firefly fireman firemen fires firing firm firmed firmer firmest
+firming firmly firms firs first firstly firsts fiscal fiscals fish fished fisher fishery fishes
+fishier fishing fishy fission fissure fist fists fitful fitness fits fitted fitter fittest
+fitting five fiver fives fixable fixed fixes fixing fixture fizz fizzed fizzes fizzing fizzle
+fizzled fizzles fizzy flabby flag flagged flags flail flailed flails flair flairs flak flake
+flaked flakes flakier flaking flaky flame flamed flames flaming flank flanked flanks flannel
+flap flapped flaps flare flared flares flaring flash flashed flasher flashes flashy flask flasks
+flat flatly flats flatted flatten flatter flaunt flaunts flavor flavors flaw flawed flawing
+flaws flea fleas fleck flecked flecks fled fledged flee fleece fleeced fleeces fleecy fleeing
+flees fleet fleeted fleeter fleets flesh fleshed fleshes fleshy flew flex flexed flexes flexing
+flick flicked flicker flicks flied flier fliers flies fliest flight flights flighty flimsy
+flinch fling flings flint flints flip flipped flipper flips flirt flirted flirts flit flits
+flitted float floated floats flock flocked flocks flog flogged flogs flood flooded flooder
+floods floor floored floors flop flopped floppy flops flora floral floras florid florist floss
+flossed flosses flounce flour floured flours flout flouted flouts flow flowed flower flowers
+flowery flowing flown flows flue fluency fluent flues fluff fluffed fluffs fluffy fluid fluids
+fluke flukes flung flunk flunked flunks flunky flurry flush flushed flusher flushes fluster
+flute fluted flutes fluting flutist flutter flux fluxed fluxes fluxing flying flyover foal
+foaled foaling foals foam foamed foamier foaming foams foamy focal focus focused focuses fodder
+fodders foes fogged foggier fogging foggy foghorn fogies fogs fogy foible foibles foil foiled
+foiling foils foist foisted foists fold folded folder folders folding folds foliage folk folks
+folksy follies follow follows folly foment foments fond fonder fondest fondle fondled fondles
+fondly font fonts food foods fool fooled fooling foolish fools foot footage footed footing foots
+forage foraged forages foray forayed forays forbade forbear forbid forbids forbore force forced
+forceps forces forcing ford forded fording fords fore forearm forego foreign foreleg foreman
+foremen fores foresaw foresee forest forests forever forfeit forgave forge forged forger forgers
+forgery forges forget forgets forging forgive forgo forgoes forgone forgot fork forked forking
+forks forlorn form formal formals format formats formed former forming forms formula forsake
+forsook fort forte fortes forth forties fortify forts fortune forty forum forums forward forwent
+fossil fossils foster fosters fought foul fouled fouler foulest fouling fouls found founded
+founder foundry founds fount founts four fours fourth fourths fowl fowled fowling fowls foxed
+foxes foxier foxiest foxing foxy foyer foyers fracas fractal fragile frail frailer frailty frame
+framed frames framing franc francs frank franked franker frankly franks frantic fraud frauds
+fraught fray frayed fraying frays freak freaked freaks freckle free freed freedom freeing freely
+freer frees freest freeway freeze freezer freezes freight french frenzy fresh freshen fresher
+freshly fret fretful frets fretted friar friars fried friend friends fries frieze friezes
+frigate fright frights frigid frill frills frilly fringe fringed fringes frisk frisked frisks
+frisky fritter frizzy frock frocks frog frogs frolic frolics from frond fronds front frontal
+fronted fronts frost frosted frosts frosty froth frothed froths frothy frown frowned frowns
+froze frozen frugal fruit fruited fruits fruity frying fudge fudged fudges fudging fuel fueled
+fueling fuels fulcrum fulfill full fulled fuller fullest fulling fulls fully fumble fumbled
+fumbles fume fumed fumes fuming fund funded funding funds funeral fungi fungus funnel funnels
+funner funnest funnier funnies funnily funny furies furious furl furled furling furlong furls
+furnace furnish furor furors furred furrier furring furrow furrows furry furs further furtive
+fury fuse fused fuses fusing fusion fuss fussed fusses fussier fussing fussy futile future
+futures fuzz fuzzed fuzzes fuzzier fuzzing fuzzy gabbed gabbing gable gables gabs gadget gadgets
+gagged gagging gags gaiety gaily gain gained gainful gaining gains gait gaits gala galas galaxy
+gale gales gall gallant galled gallery galley galleys galling gallon gallons gallop gallops
+gallows galls galore gals gambit gambits gamble gambled gambler gambles game gamed gamer games
+gamest gaming gamma gamut gamuts gander ganders gang ganged ganging gangs gangway gape gaped
+gapes gaping gaps garage garaged garages garb garbage garbed garbing garble garbled garbles
+garbs garden gardens gargle gargled gargles garish garland garlic garment garnet garnets garnish
+garret garrets garter garters gaseous gases gash gashed gashes gashing gasket gaskets gasp
+gasped gasping gasps gassed gassing gastric gate gated gates gateway gather gathers gating
+gaudier gaudy gauge gauged gauges gauging gaunt gaunter gauze gave gavel gavels gawk gawked
+gawkier gawking gawks gawky gayer gayest gays gaze gazed gazelle gazes gazette gazing gear
+geared gearing gears geed geeing gees geese gelatin geld gelded gelding gelds gems gender
+genders gene genera general generic genes geneses genesis genetic genial genie genies genii
+genital genius genre genres gent gentile gentle gentled gentler gentles gently gentry gents
+genuine genus geology gerbil gerbils germ germs gesture getaway gets getting geyser geysers
+ghastly ghetto ghettos ghost ghosted ghostly ghosts ghoul ghouls giant giants gibber gibbers
+gibe gibed gibes gibing giddier giddy gift gifted gifting gifts gigged gigging giggle giggled
+giggles gigs gild gilded gilding gilds gill gills gilt gilts gimme gimmick ginger gingham ginned
+ginning gins giraffe girder girders girdle girdled girdles girl girlish girls girth girths gist
+give given givens gives giving gizzard glacial glacier glad gladden gladder glade glades gladly
+glads glamour glance glanced glances gland glands glare glared glares glaring glass glassed
+glasses glassy glaze glazed glazes glazing gleam gleamed gleams glean gleaned gleans glee glen
+glens glib glibber glibly glide glided glider gliders glides gliding glimmer glimpse glint
+glinted glints glisten glitter gloat gloated gloats global globe globes globule gloom gloomy
+gloried glories glorify glory gloss glossed glosses glossy glove gloved gloves gloving glow
+glowed glower glowers glowing glows glucose glue glued glues gluing glum glummer glut gluts
+glutted glutton gnarl gnarled gnarls gnash gnashed gnashes gnat gnats gnaw gnawed gnawing gnaws
+gnome gnomes gnus goad goaded goading goads goal goalie goalies goals goat goatee goatees goats
+gobbed gobbing gobble gobbled gobbles goblet goblets goblin goblins gobs goddess godless godlier
+godlike godly gods godsend goes goggle goggles going gold golden golds golf golfed golfer
+golfers golfing golfs gondola gone goner goners gong gonged gonging gongs gonna good goodbye
+goodies goods goody gooey goof goofed goofier goofing goofs goofy gooier gooiest goon goons
+goose goosed gooses goosing gopher gophers gore gored gores gorge gorged gorges gorging gorier
+goriest gorilla goring gory gosh gosling gospel gospels gossip gossips gotten gouge gouged
+gouges gouging goulash gourd gourds gourmet gout govern governs gown gowned gowning gowns grab
+grabbed grabber grabs grace graced graces gracing grade graded grader grades grading gradual
+graft grafted grafts grain grains gram grammar grams grand grander grandly grands granite granny
+granola grant granted grants granule grape grapes graph graphed graphic graphs grapple grasp
+grasped grasps grass grassed grasses grassy grate grated grater graters grates gratify grating
+grave graved gravel gravels gravely graven graver graves gravest gravies graving gravity gravy
+gray grayed grayer grayest graying grays graze grazed grazes grazing grease greased greases
+greasy great greater greatly greats greed greedy green greened greener greens greet greeted
+greets gremlin grenade grew grid griddle grids grief griefs grieve grieved grieves grill grille
+grilled grilles grills grim grimace grime grimed grimes grimier griming grimly grimmer grimy
+grin grind grinder grinds grinned grins grip gripe griped gripes griping gripped grips grisly
+gristle grit grits gritted gritty grizzly groan groaned groans grocer grocers grocery groggy
+groin groins groom groomed grooms groove grooved grooves groovy grope groped gropes groping
+gross grossed grosser grosses grossly grotto grouch grouchy ground grounds group grouped grouper
+groups grouse groused grouses grove grovel grovels groves grow grower growers growing growl
+growled growls grown grows growth growths grub grubbed grubby grubs grudge grudged grudges gruel
+gruff gruffer gruffly grumble grumpy grunt grunted grunts guard guarded guards guess guessed
+guesses guest guested guests guffaw guffaws guide guided guides guiding guild guilds guile guilt
+guilty guinea guise guises guitar guitars gulch gulches gulf gulfs gull gulled gullet gullets
+gullies gulling gulls gully gulp gulped gulping gulps gumdrop gummed gummier gumming gummy gums
+gunfire gunman gunmen gunned gunner gunners gunning guns gunshot guppies guppy gurgle gurgled
+gurgles guru gurus gush gushed gusher gushers gushes gushing gust gusted gustier gusting gusts
+gusty guts gutted gutter gutters gutting guyed guying guys guzzle guzzled guzzles gymnast gyms
+gyrate gyrated gyrates habit habitat habits hack hacked hacker hackers hacking hackney hacks
+hacksaw haddock haggard haggle haggled haggles hags hail hailed hailing hails hair haircut
+hairdo hairdos haired hairier hairs hairy hale haled haler hales halest half halfway halibut
+haling hall halls hallway halo haloed haloing halon halos halt halted halter halters halting
+halts halve halved halves halving hamlet hamlets hammed hammer hammers hamming hammock hamper
+hampers hams hamster hand handbag handed handful handier handing handle handled handler handles
+handout hands handy hang hangar hangars hanged hanger hangers hanging hangout hangs hanker
+hankers hapless happen happens happier happily happy harass harbor harbors hard harden hardens
+harder hardest hardier hardly hardy hare hared harem harems hares haring hark harked harking
+harks harlot harlots harm harmed harmful harming harmony harms harness harp harped harping
+harpist harpoon harps harried harries harrow harrows harry harsh harsher harshly hart harts
+harvest hash hashed hashes hashing hassle hassled hassles haste hasted hasten hastens hastes
+hastier hastily hasting hasty hatch hatched hatches hatchet hate hated hateful hates hating
+hatred hatreds hats hatted hatting haughty haul hauled hauling hauls haunt haunted haunts have
+haven havens haves having havoc hawk hawked hawking hawks hayed haying hays haywire hazard
+hazards haze hazed hazel hazels hazes hazier haziest hazing hazy head headed header headers
+headier heading heads headway heady heal healed healer healers healing heals health healthy heap
+heaped heaping heaps hear heard hearing hears hearsay hearse hearses heart hearten hearth
+hearths hearts hearty heat heated heater heaters heath heathen heather heating heats heave
+heaved heaven heavens heaves heavier heavies heavily heaving heavy heckle heckled heckler
+heckles hectic hedge hedged hedges hedging heed heeded heeding heeds heel heeled heeling heels
+heftier hefty heifer heifers height heights heinous heir heirs held helium hell hellish hello
+hellos helm helmet helmets helms help helped helper helpers helpful helping helps hemlock hemmed
+hemming hemp hems hence hens herald heralds herb herbs herd herded herding herds here hereby
+herein heresy heretic hermit hermits hernia hernias hero heroes heroic heroin heroine heroins
+heroism heron herons herpes herring hers herself hewed hewing hews hexagon heyday heydays hiatus
+hiccup hiccups hick hickory hicks hidden hide hided hideous hides hiding high higher highest
+highly highs highway hijack hijacks hike hiked hiker hikers hikes hiking hill hillier hills
+hilly hilt hilts hims himself hind hinder hinders hinds hinge hinged hinges hinging hint hinted
+hinting hints hipped hipper hippest hippie hippies hipping hippy hips hire hired hires hiring
+hiss hissed hisses hissing history hitch hitched hitches hither hits hitting hive hived hives
+hiving hoard hoarded hoarder hoards hoarse hoarser hoax hoaxed hoaxes hoaxing hobbies hobbit
+hobble hobbled hobbles hobby hobnob hobnobs hobo hobos hock hocked hockey hocking hocks hoed
+hoeing hoes hogged hogging hogs hoist hoisted hoists hold holder holders holding holds holdup
+holdups hole holed holes holiday holier holiest holing holler hollers hollies hollow hollows
+holly holster holy homage homages home homed homely homes homey homeys homier homiest homing
+homonym hone honed hones honest honesty honey honeyed honeys honing honk honked honking honks
+honor honored honors hood hooded hooding hoodlum hoods hoof hoofed hoofing hoofs hook hooked
+hooking hooks hoop hooped hooping hoops hooray hoot hooted hooter hooting hoots hooves hope
+hoped hopeful hopes hoping hopped hopper hopping hops horde horded hordes hording horizon
+hormone horn horned hornet hornets hornier horns horny horrid horrify horror horrors horse
+horsed horses horsing hose hosed hoses hosiery hosing host hostage hosted hostel hostels hostess
+hostile hosting hosts hotbed hotbeds hotel hotels hothead hotly hotter hottest hound hounded
+hounds hour hourly hours house housed houses housing hove hovel hovels hover hovered hovers
+however howl howled howling howls hows hubbub hubbubs hubs huddle huddled huddles hued hues huff
+huffed huffier huffing huffs huffy huge hugely huger hugest hugged hugging hugs hulk hulking
+hulks hull hulled hulling hulls human humane humaner humanly humans humble humbled humbler
+humbles humbly humbug humdrum humid hummed humming humor humored humors hump humped humping
+humps hums hunch hunched hunches hundred hung hunger hungers hungry hunk hunks hunt hunted
+hunter hunters hunting hunts hurdle hurdled hurdles hurl hurled hurling hurls hurrah hurrahs
+hurried hurries hurry hurt hurtful hurting hurtle hurtled hurtles hurts husband hush hushed
+hushes hushing husk husked huskier huskies huskily husking husks husky hustle hustled hustler
+hustles hutch hutches huts hybrid hybrids hydrant hyena hyenas hygiene hymn hymnal hymnals
+hymned hymning hymns hyphen hyphens iceberg iced ices icicle icicles icier iciest icing icings
+icon icons idea ideal ideally ideals ideas idiocy idiom idioms idiot idiotic idiots idle idled
+idler idles idlest idling idly idol idolize idols idyllic igloo igloos ignite ignited ignites
+ignore ignored ignores iguana iguanas illegal illicit illness ills image imaged imagery images
+imagine imaging imitate immense immerse immoral immune impact impacts impair impairs impale
+impaled impales impart imparts impasse impeach impede impeded impedes impel impels impend
+impends imperil impetus impinge impish implant implied implies implore imply import imports
+impose imposed imposes impound impress imprint improve imps impulse impure impurer inane inaner
+inanest inborn inbred inbreed inbuilt incense incest inch inched inches inching incisor incite
+incited incites incline include income incomes incur incurs indeed indent indents index indexed
+indexes indices indict indicts indigo indoor indoors induce induced induces induct inducts
+indulge inept inert inertia inexact infamy infancy infant infants infect infects infer inferno
+infers infest infests infidel infield infirm infix inflame inflate inflict influx info inform
+informs infuse infused infuses ingest ingests ingrain inhabit inhale inhaled inhaler inhales
+inherit inhibit inhuman initial inject injects injure injured injures injury inked inkier
+inkiest inking inkling inks inky inlaid inland inlay inlays inlet inlets inmate inmates innards
+innate inner inning innings inns input inputs inquest inquire inquiry insane insaner insect
+insects insert inserts inside insider insides insight insipid insist insists insofar inspect
+inspire install instant instead instep insteps instill insular insulin insult insults insure
+insured insurer insures intact intake intakes integer intend intends intense intent intents
+inter interim intern interns inters into intrude invade invaded invader invades invalid invent
+invents inverse invert inverts invest invests invite invited invites invoice invoke invoked
+invokes involve inward inwards iodine ions iota iotas irate iris irises irked irking irks iron
+ironed ironic ironies ironing irons irony island islands isle isles isolate issue issued issues
+issuing isthmus italic italics itch itched itches itchier itching itchy item itemize items
+iterate itself ivies ivories ivory jabbed jabber jabbers jabbing jabs jack jackal jackals
+jackass jackdaw jacked jacket jackets jacking jackpot jacks jade jaded jades jading jagged
+jaguar jaguars jail jailed jailer jailers jailing jails jalopy jamb jambs jammed jamming jams
+jangle jangled jangles janitor jargon jarred jarring jars jaunt jaunted jaunts jaunty javelin
+jawbone jawed jawing jaws jays jaywalk jazz jazzed jazzes jazzing jealous jeans jeer jeered
+jeering jeers jell jelled jellied jellies jelling jells jelly jerk jerked jerkier jerking jerks
+jerky jersey jerseys jest jested jester jesters jesting jests jets jetted jetties jetting jetty
+jewel jeweled jeweler jewelry jewels jibe jibed jibes jibing jiffies jiffy jigged jigging jiggle
+jiggled jiggles jigs jigsaw jigsaws jilt jilted jilting jilts jingle jingled jingles jinx jinxed
+jinxes jinxing jitters jittery jobbed jobbing jobs jockey jockeys jocular jogged jogger joggers
+jogging jogs join joined joining joins joint jointed jointly joints joke joked joker jokers
+jokes joking jollied jollier jollies jolly jolt jolted jolting jolts jostle jostled jostles jots
+jotted jotting journal journey jovial joyed joyful joying joyous joys jubilee judge judged
+judges judging judo jugged jugging juggle juggled juggler juggles jugs jugular juice juiced
+juices juicier juicing juicy jumble jumbled jumbles jumbo jumbos jump jumped jumper jumpers
+jumpier jumping jumps jumpy jungle jungles junior juniors juniper junk junked junket junkets
+junkie junkies junking junks junta juntas juries juror jurors jury just juster justest justice
+justify justly jute juts jutted jutting karat karate karats kayak kayaked kayaks keel keeled
+keeling keels keen keened keener keenest keening keenly keens keep keeper keepers keeping keeps
+kegs kelp kennel kennels kept kernel kernels ketchup kettle kettles keyed keyhole keying keynote
+keys keyword khaki khakis kick kicked kicking kickoff kicks kidded kidding kidnap kidnaps kidney
+kidneys kids kill killed killer killers killing kills kiln kilned kilning kilns kilo kilos kilt
+kilts kimono kimonos kind kinda kinder kindest kindle kindled kindles kindly kindred kinds
+kinfolk king kingdom kings kink kinked kinkier kinking kinks kinky kinship kiosk kiosks kipper
+kiss kissed kisses kissing kitchen kite kited kites kiting kits kitten kittens kitties kitty
+kiwi kiwis knack knacker knacks knead kneaded kneads knee kneecap kneed kneeing kneel kneels
+knees knelt knew knife knifed knifes knifing knight knights knit knits knitted knives knob knobs
+knock knocked knocker knocks knoll knolls knot knots knotted knotty know knowing known knows
+knuckle koala koalas kosher koshers kowtow kowtows kudos label labeled labels labor labored
+laborer labors labs lace laced laces lacier laciest lacing lack lacked lacking lacks lacquer
+lacy ladder ladders lade laded laden lades ladies lading ladle ladled ladles ladling lads lady
+ladybug lager laggard lagged lagging lagoon lagoons lags laid lain lair lairs lake lakes lamb
+lambda lambed lambing lambs lame lamed lament laments lamer lames lamest laming lamp lampoon
+lamps lance lanced lances lancing land landed lander landing lands lane lanes languid languor
+lankier lanky lantern lapel lapels lapped lapping laps lapse lapsed lapses lapsing larceny lard
+larded larding lards large largely larger larges largest lark larked larking larks larva larvae
+larynx laser lasers lash lashed lashes lashing lass lasses last lasted lasting lastly lasts
+latch latched latches late lately latent later lateral latest latex lath lathe lathed lather
+lathers lathes lathing laths latrine latter lattice laud lauded lauding lauds laugh laughed
+laughs launch launder laundry laurel laurels lava lavish lawful lawless lawn lawns laws lawsuit
+lawyer lawyers laxer laxest laxity layer layered layers laying layman laymen layout layouts lays
+lazied lazier lazies laziest lazy lazying leach lead leaded leaden leader leaders leading leads
+leaf leafed leafier leafing leaflet leafs leafy league leagued leagues leak leakage leaked
+leaking leaks leaky lean leaned leaner leanest leaning leans leap leaped leaping leaps learn
+learned learns lease leased leases leash leashed leashes leasing least leather leave leaved
+leaves leaving lectern lecture ledge ledger ledgers ledges leech leeched leeches leek leeks leer
+leered leerier leering leers leery leeway left lefter leftest lefts legacy legal legally legals
+legend legends legged legging legible legibly legion legions legs legume legumes leisure lemme
+lemon lemons lend lending lends length lengths lengthy lenient lens lenses lent lentil lentils
+leopard leotard leper lepers leprosy lesbian lesion lesions less lessen lessens lesser lesson
+lessons lest letdown lethal lets letter letters letting lettuce letup letups levee levees level
+leveled levels lever levered levers levied levies levity levy levying lewd lewder lewdest
+lexical lexicon liable liaison liar liars libel libeled libels liberal liberty library lice
+license lichen lichens lick licked licking licks lids lied lies lieu life lift lifted lifting
+lifts light lighted lighten lighter lightly lights likable like liked likely liken likened
+likens liker likes likest liking lilac lilacs lilies lilt lilted lilting lilts lily limb limber
+limbers limbo limbs lime limed limes liming limit limited limits limp limped limper limpest
+limping limps line lineage linear lined linen liner liners lines linger lingers lingo lingoes
+lining linings link linkage linked linker linking links lint lion lioness lions lips liquefy
+liqueur liquid liquids liquor liquors lisp lisped lisping lisps list listed listen listens
+listing lists litany liter literal liters lithe lither lithest lithium litter litters little
+littler liturgy livable live lived lively liven livened livens liver livers lives livest livid
+living livings lizard lizards llama llamas load loaded loader loading loads loaf loafed loafer
+loafers loafing loafs loam loan loaned loaning loans loath loathe loathed loathes loaves lobbed
+lobbied lobbies lobbing lobby lobe lobes lobs lobster local locale locales locally locals locate
+located locates lock locked locker lockers locket lockets locking locks locust locusts lodge
+lodged lodger lodgers lodges lodging loft lofted loftier lofting lofts lofty logged logger
+logging logic logical logo logs loin loins loiter loiters loll lolled lolling lolls lone lonely
+long longed longer longest longing longish longs look looked looking lookout looks loom loomed
+looming looms loon loonie loonier loonies loons loony loop looped looping loops loose loosed
+loosely loosen loosens looser looses loosest loosing loot looted looting loots lope loped lopes
+loping lopped lopping lops lord lorded lording lords lore lorries lorry lose loser losers loses
+losing loss losses lost lotion lotions lots lottery lotus lotuses loud louder loudest loudly
+lounge lounged lounges louse louses lousier lousy lovable love loved lovely lover lovers loves
+loving lowdown lowed lower lowered lowers lowest lowing lowlier lowly lows loyal loyaler loyalty
+lozenge lucid luck lucked luckier luckily lucking lucks lucky luggage lugged lugging lugs lull
+lullaby lulled lulling lulls lumber lumbers lump lumped lumpier lumping lumps lumpy lunacy lunar
+lunatic lunch lunched lunches lung lunge lunged lunges lunging lungs lupine lupines lurch
+lurched lurches lure lured lures lurid luring lurk lurked lurking lurks lush lusher lushes
+lushest lust lusted luster lustier lusting lusts lusty lute lutes luxury lying lymph lynch
+lynched lynches lyre lyres lyric lyrical lyrics macabre mace maced maces machete machine macho
+macing madam madame madams madcap madcaps madden maddens madder maddest made madly madman madmen
+madness mads magenta maggot maggots magic magical magnate magnet magnets magnify magnum magpie
+magpies maid maiden maidens maids mail mailbox mailed mailing mailman mailmen mails maim maimed
+maiming maims main mainly mains maize maizes majesty major majored majors make maker makers
+makes makeup makeups making malady malaria male males malice malign maligns mall mallard mallet
+mallets malls malt malted malting malts mama mamas mamma mammal mammals mammoth manacle manage
+managed manager manages mandate mane manes mange manger mangers mangier mangle mangled mangles
+mango mangoes mangy manhole manhood mania maniac maniacs manias manic mankind manlier manly
+manned manner manners manning mannish manor manors mans mansion mantel mantels mantle mantled
+mantles manual manuals manure manured manures many maple maples mapped mapper mapping maps
+marble marbled marbles march marched marcher marches mare mares margin margins maria marina
+marinas marine mariner marines marital mark marked marker markers market markets marking marks
+maroon maroons marquee marred married marries marring marrow marrows marry mars marsh marshal
+marshes marshy mart martial martin marts martyr martyrs marvel marvels mascara mascot mascots
+mash mashed mashes mashing mask masked masking masks mason masonry masons mass massage massed
+masses massing massive mast master masters mastery masts matador match matched matches mate
+mated mates math mating matrix matron matrons mats matte matted matter matters mattes matting
+mature matured maturer matures maudlin maul mauled mauling mauls mauve maxim maxima maximal
+maxims maximum maybe maybes mayhem mayor mayors maze mazes meadow meadows meager meal mealier
+meals mealy mean meander meaner meanest meaning means meant measles measly measure meat meats
+medal medals meddle meddled meddler meddles media median medias mediate medical medium mediums
+medley medleys meek meeker meekest meekly meet meeting meets megaton mellow mellows melodic
+melody melon melons melt melted melting melts member members memento memo memoir memoirs memory
+memos menace menaced menaces mend mended mending mends menial menials mental menthol mention
+mentor mentors menu menus meow meowed meowing meows mercies mercury mercy mere merely meres
+merest merge merged merger mergers merges merging merit merited merits mermaid merrier merrily
+merry mesh meshed meshes meshing mess message messed messes messier messing messy metal metals
+mete meted meteor meteors meter metered meters metes method methods meting metric metro metros
+mettle mewed mewing mews mice microbe midday middle middles midget midgets midriff midst midway
+midways midwife mien miens might mighty migrant migrate mike miked mikes miking mild milder
+mildest mildew mildews mildly mile mileage miles militia milk milked milker milkier milking
+milkman milkmen milks milky mill milled miller millers milling million mills mime mimed mimes
+mimic mimicry mimics miming mince minced minces mincing mind minded mindful minding minds mine
+mined miner mineral miners mines mingle mingled mingles minibus minimal minimum mining minion
+minions mink minks minnow minnows minor minored minors mint minted minting mints minuet minuets
+minus minuses minute minuted minuter minutes miracle mirage mirages mire mired mires miring
+mirror mirrors mirth misdeed miser miserly misers misery misfit misfits mishap mishaps mislaid
+mislay mislays mislead misled misread miss missed misses missile missing mission missive mist
+mistake misted mistier misting mistook mists misty mistype misuse misused misuses mite mites
+mitt mitten mittens mitts mixed mixer mixers mixes mixing mixture moan moaned moaning moans moat
+moats mobbed mobbing mobile mobiles mobs mock mocked mockery mocking mocks modal mode model
+modeled models modern moderns modes modest modesty modicum modify modular module modules mohair
+moist moisten moister molar molars mold molded moldier molding molds moldy mole moles molest
+molests mollify mollusk molt molted molten molting molts moment moments moms monarch money
+mongrel monies monitor monk monkey monkeys monks monsoon monster month monthly months mood
+moodier moodily moods moody mooed mooing moon mooned mooning moons moor moored mooring moors
+moos moose moot mooted mooting moots mope moped mopes moping mopped mopping mops moral morale
+morally morals morass morbid more morgue morgues morn morning morns moron moronic morons morose
+morsel morsels mortal mortals mortar mortars mortify mosaic mosaics mosque mosques moss mosses
+mossier mossy most mostly motel motels moth mother mothers moths motif motifs motion motions
+motive motives motley motleys motlier motor motored motors motto mottoes mound mounded mounds
+mount mounted mounts mourn mourned mourner mourns mouse moused mouses mousier mousing mousse
+moussed mousses mousy mouth mouthed mouths movable move moved mover movers moves movie movies
+moving mowed mower mowers mowing mows much muck mucked mucking mucks mucous mucus muddied
+muddier muddies muddle muddled muddles muddy muff muffed muffin muffing muffins muffle muffled
+muffler muffles muffs mugged mugger muggers muggier mugging muggy mugs mulch mulched mulches
+mule mules mull mulled mulling mulls multi mumble mumbled mumbles mummies mummify mummy mumps
+munch munched munches mundane mural murals murder murders murkier murky murmur murmurs muscle
+muscled muscles muse mused muses museum museums mush mushed mushes mushier mushing mushy music
+musical musing musk musket muskets muss mussed mussel mussels musses mussing must mustang
+mustard muster musters mustier musts musty mutant mutants mutate mutated mutates mute muted
+mutely muter mutes mutest muting mutiny mutt mutter mutters mutton mutts mutual muzzle muzzled
+muzzles myopic myriad myriads myself mystery mystic mystics mystify myth myths nabbed nabbing
+nabs nagged nagging nags nail nailed nailing nails naive naively naiver naivest naivety naked
+name named namely names naming napalm napalms nape napes napkin napkins napped nappies napping
+nappy naps narrate narrow narrows nasal nasals nastier nastily nasty nation nations native
+natives nattier natty natural nature natures naught naughts naughty nausea naval navel navels
+navies navy nays near nearby neared nearer nearest nearing nearly nears neat neater neatest
+neatly nebula nebulae neck necked necking necks necktie nectar need needed needier needing
+needle needled needles needs needy negate negated negates neglect neigh neighed neighs neither
+neon nephew nephews nerve nerved nerves nerving nervous nest nested nesting nestle nestled
+nestles nests nether nets netted netting nettle nettled nettles network neural neuron neurons
+neuter neuters neutral neutron never newbie newbies newborn newer newest newly news newsier
+newsy newt newton newts next nibble nibbled nibbles nice nicely nicer nicest nicety niche niches
+nick nicked nickel nickels nicking nicks niece nieces niftier nifty nigh night nightly nights
+nimble nimbler nimbly nine nines ninety ninnies ninny ninth ninths nipped nippier nipping nipple
+nipples nippy nips nitrate nits nitwit nitwits noble nobler nobles noblest nobly nobody nodded
+nodding node nodes nods noes noise noised noises noisier noisily noising noisy nomad nomadic
+nomads nominal nominee none nonstop noodle noodled noodles nook nooks noon noose nooses norm
+normal norms north nose nosed noses nosier nosiest nosing nostril nosy notable notably notch
+notched notches note noted notes nothing notice noticed notices notify noting notion notions
+nougat nougats noun nouns nourish nova novel novels novelty novice novices nowhere noxious
+nozzle nozzles nuance nuances nuclear nuclei nucleus nude nuder nudes nudest nudge nudged nudges
+nudging nudity nugget nuggets null nullify nulls numb numbed number numbers numbest numbing
+numbs numeral numeric nuns nuptial nurse nursed nursery nurses nursing nurture nutmeg nutmegs
+nuts nutted nuttier nutting nutty nuzzle nuzzled nuzzles nylon nymph nymphs oafs oaks oared
+oaring oars oases oasis oath oaths oatmeal obelisk obese obesity obey obeyed obeying obeys
+object objects oblige obliged obliges oblique oblong oblongs oboe oboes obscene obscure observe
+obsess obtain obtains obtuse obtuser obvious occupy occur occurs ocean oceanic oceans octagon
+octal octave octaves octopus ocular oculars odder oddest oddity oddly odds odes odious odor
+odors offbeat offed offend offends offense offer offered offers offhand office officer offices
+offing offings offload offs offset offsets often oftener ogle ogled ogles ogling ogre ogres ohms
+oiled oilier oiliest oiling oils oily okay okaying okays okra okras olden older oldest olive
+olives omega omelet omelets omen omens ominous omit omits omitted omnibus once onerous ones
+oneself ongoing onion onions only onrush onset onsets onto onus onuses onward oodles ooze oozed
+oozes oozing opal opals opaque opaqued opaquer opaques open opened opener openers openest
+opening openly opens opera operand operas operate opinion opium opossum oppose opposed opposes
+oppress opted optic optical optics optima optimal optimum opting option options opts opulent
+opus opuses oracle oracles oral orals orange oranges oration orator orators oratory orbit
+orbital orbited orbits orchard orchid orchids ordain ordains ordeal ordeals order ordered
+orderly orders ores organ organic organs orgasm orgies orgy orient orients orifice origin
+origins ornate orphan orphans osmosis ostrich other others otter otters ouch ought ounce ounces
+ours oust ousted ouster ousters ousting ousts outcast outcome outcry outdid outdo outdoes
+outdone outdoor outed outer outfit outfits outgrew outgrow outing outings outlaid outlast outlaw
+outlaws outlay outlays outlet outlets outline outlive outlook outpost output outputs outrage
+outran outrun outruns outs outset outsets outside outward outwit outwits oval ovals ovaries
+ovary ovation oven ovens over overall overate overdid overdo overdue overeat overlap overlay
+overlie overly overran overrun overs oversaw oversee overt overtly overuse ovum owed owes owing
+owls owned owner owners owning owns oxen oxide oxides oxidize oxygen oyster oysters ozone pace
+paced paces pacific pacify pacing pack package packed packer packers packet packets packing
+packs pact pacts padded paddies padding paddle paddled paddles paddock paddy padlock pads pagan
+pagans page pageant paged pager pages paging pagoda pagodas paid pail pails pain pained painful
+paining pains paint painted painter paints pair paired pairing pairs pajamas palace palaces
+palate palates pale paled paler pales palest palette paling pall palled pallid palling pallor
+palls palm palmed palming palms pals paltry pamper pampers panacea pancake panda pandas pander
+panders pane panel paneled panels panes pang pangs panic panicky panics panned panning pans
+pansies pansy pant panted panther pantie panties panting pantry pants papa papacy papal papas
+papaya papayas paper papered papers paprika papyri papyrus parable parade paraded parades
+paradox paragon parasol parcel parcels parch parched parches pardon pardons pare pared parent
+parents pares paring parish parity park parka parkas parked parking parks parkway parlor parlors
+parody parole paroled paroles parred parring parrot parrots pars parse parsec parsecs parsed
+parser parses parsing parsley parsnip parson parsons part partake parted partial partied parties
+parting partly partner partook parts party pass passage passed passer passes passing passion
+passive past pasta pastas paste pasted pastel pastels pastes pastier pasties pastime pasting
+pastor pastors pastry pasts pasture pasty patch patched patches patchy pate patent patents pates
+path pathos paths pathway patient patio patios patriot patrol patrols patron patrons pats patted
+patter pattern patters patties patting patty paucity paunch paunchy pauper paupers pause paused
+pauses pausing pave paved paves paving pawed pawing pawn pawned pawning pawns paws payable payed
+payer payers paying payload payment payoff payoffs payroll pays peace peaces peach peaches
+peacock peak peaked peaking peaks peal pealed pealing peals peanut peanuts pear pearl pearled
+pearls pears peas peasant peat pebble pebbled pebbles pecan pecans peck pecked pecking pecks
+pedal pedaled pedals pedant pedants peddle peddled peddler peddles peek peeked peeking peeks
+peel peeled peeling peels peep peeped peeping peeps peer peered peering peers peeve peeved
+peeves peeving peevish pegged pegging pegs pelican pellet pellets pelt pelted pelting pelts
+pelvic pelvis penal penalty penance pence pencil pencils pendant pended pending pends penguin
+penis penises pennant penned pennies penning penny pens pension pensive peon peonies peons peony
+people peopled peoples pepped pepper peppers pepping peps percent perch perched perches perfect
+perform perfume perhaps peril periled perils period periods perish perjure perjury perk perked
+perkier perking perks perky permit permits perplex persist person persona persons pert pertain
+perter pertest perturb perusal peruse perused peruses pervade pervert peskier pesky pest pester
+pesters pests petal petals peter petered peters petite petites petrify petrol pets petted
+pettier petting petty petunia pews pewter pewters phantom phase phased phases phasing phlegm
+phobia phobias phoenix phone phoned phones phonics phonied phonier phonies phoning phony photo
+photoed photon photons photos phrase phrased phrases physic physics pianist piano pianos piccolo
+pick pickax picked picket pickets pickier picking pickle pickled pickles picks pickup pickups
+picky picnic picnics picture piddle piddled piddles piece pieced pieces piecing pier pierce
+pierced pierces piers pies piety pigeon pigeons pigged pigging piggish pigment pigpen pigpens
+pigs pigtail pike piked pikes piking pile piled piles pilfer pilfers pilgrim piling pill pillage
+pillar pillars pilled pilling pillow pillows pills pilot piloted pilots pimple pimples pimply
+pinch pinched pinches pine pined pines pining pinion pinions pink pinked pinker pinkest pinking
+pinks pinned pinning pins pint pints pioneer pious pipe piped pipes piping pique piqued piques
+piquing piracy piranha pirate pirated pirates pistol pistols piston pistons pitch pitched
+pitcher pitches piteous pitfall pithier pithy pitied pities pitiful pits pitted pitting pity
+pitying pivot pivotal pivoted pivots pixie pixies pizza pizzas placard placate place placed
+places placid placing plague plagued plagues plaice plaid plaids plain plainer plainly plains
+plan planar plane planed planes planet planets planing plank planked planks planned planner
+plans plant planted planter plants plaque plaques plasma plaster plastic plate plateau plated
+plates plating platoon platter play played player players playful playing playpen plays plaza
+plazas plea plead pleaded pleads pleas please pleased pleases pleat pleated pleats pledge
+pledged pledges plenty pliable pliant plied pliers plies plight plights plod plodded plods plop
+plopped plops plot plots plotted plotter plow plowed plowing plows ploy ploys pluck plucked
+plucks plucky plug plugged plugs plum plumage plumb plumbed plumber plumbs plume plumed plumes
+pluming plummet plump plumped plumper plumps plums plunder plunge plunged plunger plunges plural
+plurals plus pluses plush plusher plying plywood poach poached poacher poaches pocket pockets
+podded podding podium podiums pods poem poems poet poetic poetry poets point pointed pointer
+points poise poised poises poising poison poisons poke poked poker pokers pokes pokey pokier
+pokiest poking poky polar pole poled polemic poles police policed polices policy poling polio
+polios polish polite politer polka polkaed polkas poll polled pollen polling polls pollute polo
+polygon polyp polyps pomp pompous poncho ponchos pond ponder ponders ponds ponies pontoon pony
+poodle poodles pool pooled pooling pools poop pooped pooping poops poor poorer poorest poorly
+popcorn pope poplar poplars popped poppies popping poppy pops popular porch porches pore pored
+pores poring pork porous port portal portals ported portend portent porter porters portico
+porting portion portly portray ports pose posed poses posies posing possess possum possums post
+postage postal postbox posted poster posters posting postman postmen posts posture posy potato
+potency potent pothole potion potions pots potted potter potters pottery potting pouch pouched
+pouches poultry pounce pounced pounces pound pounded pounds pour poured pouring pours pout
+pouted pouting pouts poverty powder powders powdery power powered powers powwow powwows prairie
+praise praised praises pram prance pranced prances prank pranks prattle prawn prawned prawns
+pray prayed prayer prayers praying prays preach precede precise predict preempt preen preened
+preens prefab prefabs preface prefect prefer prefers prefix prelude premier premise premium
+prepaid prepare prepay prepays present preside press pressed presses presto presume pretend
+pretext pretty pretzel prevail prevent preview prey preyed preying preys price priced prices
+pricing prick pricked prickle prickly pricks pride prided prides priding pried pries priest
+priests prim primal primary primate prime primed primer primers primes priming primly primmer
+primp primped primps prince princes print printed printer prints prior priors prism prisms
+prison prisons privacy private privier privies privy prize prized prizes prizing probe probed
+probes probing problem proceed process procure prod prodded prodigy prods produce product
+profane profess proffer profile profit profits profuse progeny program project prolong prom
+promise promote prompt prompts proms prone prong prongs pronoun proof proofed proofs prop propel
+propels proper prophet propose propped props pros prose prosper protect protein protest proton
+protons proud prouder proudly prove proved proven proverb proves provide proving proviso provoke
+prow prowess prowl prowled prowler prowls prows proxies proxy prude prudent prudes prudish prune
+pruned prunes pruning prying psalm psalms pseudo psych psyche psyched psyches psychic psychs
+puberty public publish puck pucker puckers pucks pudding puddle puddled puddles pudgier pudgy
+pueblo pueblos puff puffed puffer puffier puffing puffs puffy puke puked pukes puking pull
+pulled pulley pulleys pulling pulls pulp pulped pulping pulpit pulpits pulps pulsate pulse
+pulsed pulses pulsing puma pumas pumice pumices pummel pummels pump pumped pumping pumpkin pumps
+punch punched punches pundit pundits pungent punier puniest punish punk punker punkest punks
+punned punning puns punt punted punter punters punting punts puny pupil pupils pupped puppet
+puppets puppies pupping puppy pups pure puree pureed purees purely purer purest purge purged
+purges purging purify purity purple purpler purples purport purpose purr purred purring purrs
+purse pursed purses pursing pursue pursued pursues pursuit push pushed pusher pushers pushes
+pushier pushing pushy puss pusses pussier pussies pussy putrid puts putt putted putter putters
+puttied putties putting putts putty puzzle puzzled puzzles pyramid pyre pyres python pythons
+quack quacked quacks quail quailed quails quaint quake quaked quakes quaking qualify quality
+qualm qualms quantum quark quarrel quarry quart quarter quartet quarts quartz quash quashed
+quashes quaver quavers quay quays queasy queen queened queenly queens queer queered queerer
+queers quell quelled quells quench queried queries query quest quested quests queue queued
+queues queuing quibble quiche quick quicken quicker quickly quiet quieted quieter quietly quiets
+quill quills quilt quilted quilts quinine quintet quip quipped quips quirk quirked quirks quirky
+quit quite quits quitter quiver quivers quiz quizzed quizzes quorum quorums quota quotas quote
+quoted quotes quoting rabbi rabbis rabbit rabbits rabble rabbles rabid rabies raccoon race raced
+racer races racial racier raciest racing racism racist racists rack racked racket rackets
+racking racks racy radar radars radial radials radiant radiate radical radii radio radioed
+radios radish radium radius raffle raffled raffles raft rafted rafter rafters rafting rafts rage
+raged rages ragged ragging raging rags ragtime raid raided raider raiders raiding raids rail
+railed railing rails railway rain rainbow rained rainier raining rains rainy raise raised raises
+raisin raising raisins rake raked rakes raking rallied rallies rally ramble rambled rambler
+rambles rammed ramming ramp rampage rampant ramps ramrod ramrods rams ranch ranched rancher
+ranches rancid rancor random rang range ranged ranger rangers ranges ranging rank ranked ranker
+rankest ranking rankle rankled rankles ranks ransack ransom ransoms rant ranted ranting rants
+rape raped rapes rapid rapider rapidly rapids raping rapist rapists rapped rapping rapport raps
+rapt rapture rare rared rarely rarer rares rarest raring rarity rascal rascals rash rasher
+rashes rashest rashly rasp rasped rasping rasps raster rate rated rates rather ratify rating
+ratings ratio ration rations ratios rats ratted ratting rattle rattled rattler rattles ratty
+raucous ravage ravaged ravages rave raved ravel raveled ravels raven ravened ravens raves ravine
+ravines raving ravings ravish rawer rawest rayon rays raze razed razes razing razor razors reach
+reached reaches react reacted reactor reacts read reader readers readied readier readies readily
+reading reads ready real realer realest realism realist reality realize really realm realms
+reals realty ream reamed reaming reams reap reaped reaper reapers reaping reaps rear reared
+rearing rears reason reasons rebate rebated rebates rebel rebels rebind rebinds rebirth reborn
+rebound rebuff rebuffs rebuild rebuilt rebuke rebuked rebukes rebut rebuts recall recalls recant
+recants recap recaps recede receded recedes receipt receive recent recess recipe recipes recital
+recite recited recites reckon reckons reclaim recline recluse recoil recoils record records
+recount recoup recoups recover recruit rectal rectify rector rectors rectum rectums recur recurs
+recycle redden reddens redder reddest redeem redeems redhead redid redo redoes redoing redone
+redraft redraw redress reds reduce reduced reduces reed reeds reef reefed reefing reefs reek
+reeked reeking reeks reel reelect reeled reeling reels refer referee refers refill refills
+refine refined refines reflect reflex reform reforms refrain refresh refuel refuels refuge
+refugee refuges refund refunds refusal refuse refused refuses refute refuted refutes regain
+regains regal regale regaled regales regalia regard regards regatta regent regents regime
+regimen regimes region regions regress regret regrets regular rehash reign reigned reigns rein
+reined reining reins reject rejects rejoice rejoin rejoins relaid relapse relate related relates
+relax relaxed relaxes relay relayed relays release relent relents reliant relic relics relied
+relief reliefs relies relieve relish relive relived relives reload reloads rely relying remade
+remain remains remake remakes remark remarks remedy remind reminds remiss remit remits remnant
+remodel remorse remote remoter remotes removal remove removed removes rename renamed renames
+rend render renders rending rends renege reneged reneges renew renewal renewed renews renown
+rent rental rentals rented renting rents reopen reopens repaid repair repairs repay repays
+repeal repeals repeat repeats repel repels repent repents replace replay replete replica replied
+replies reply report reports repose reposed reposes repress reprint reprove reptile repulse
+repute reputed reputes request requiem require reread rereads reroute resale rescind rescue
+rescued rescuer rescues resent resents reserve reset resets reside resided resides residue
+resign resigns resin resins resist resists resolve resort resorts resound respect respite
+respond rest restart rested restful resting restive restore rests result results resume resumed
+resumes retail retails retain retains retard retards retch retched retches rethink retina
+retinas retire retired retires retort retorts retrace retract retreat retries retry return
+returns retype reunion reunite reuse reused reuses reusing revamp revamps reveal reveals revel
+reveled reveler revelry revels revenge revenue revere revered reveres reverie reverse revert
+reverts review reviews revile reviled reviles revise revised revises revisit revival revive
+revived revives revoke revoked revokes revolt revolts revolve revs revue revues revved revving
+reward rewards rewind rework rewrite rewrote rhino rhinos rhubarb rhyme rhymed rhymes rhyming
+rhythm rhythms ribbed ribbing ribbon ribbons ribs rice riced rices rich richer riches richest
+richly ricing rickety ridden ridding riddle riddled riddles ride rider riders rides ridge ridged
+ridges ridging riding rids rife rifer rifest rifle rifled rifles rifling rift rifted rifting
+rifts rigged rigging right righted righter rightly rights rigid rigidly rigor rigors rigs rile
+riled riles riling rimmed rimming rims rind rinds ring ringed ringing ringlet rings rink rinks
+rinse rinsed rinses rinsing riot rioted rioter rioters rioting riotous riots ripe ripen ripened
+ripens riper ripest riposte ripped ripping ripple rippled ripples rips rise risen riser risers
+rises rising risk risked riskier risking risks risky rite rites ritual rituals rival rivaled
+rivalry rivals river rivers rivet riveted rivets roach roaches road roads roam roamed roaming
+roams roar roared roaring roars roast roasted roasts robbed robber robbers robbery robbing robe
+robed robes robin robing robins robot robots robs robust rock rocked rocker rockers rocket
+rockets rockier rocking rocks rocky rode rodent rodents rodeo rodeos rods roes rogue rogues
+roguish role roles roll rolled roller rollers rolling rolls roman romance romp romped romping
+romps roof roofed roofing roofs rook rooked rookie rookies rooking rooks room roomed roomier
+rooming rooms roomy roost roosted rooster roosts root rooted rooter rooting roots rope roped
+ropes roping rosary rose roses rosier rosiest roster rosters rostrum rosy rotary rotate rotated
+rotates rote rotor rotors rots rotted rotten rotting rotund rotunda rouge rouged rouges rough
+roughed roughen rougher roughly roughs rouging round rounded rounder rounds rouse roused rouses
+rousing rout route routed router routes routine routing routs rowboat rowdier rowdies rowdy
+rowed rowing rows royal royally royals royalty rubbed rubber rubbers rubbing rubbish rubble
+rubier rubies rubiest rubric rubs ruby ruckus rudder rudders ruddier ruddy rude rudely ruder
+rudest rued rueful rues ruff ruffed ruffian ruffing ruffle ruffled ruffles ruffs rugby rugged
+rugs ruin ruined ruing ruining ruinous ruins rule ruled ruler rulers rules ruling rulings rumble
+rumbled rumbles rummage rummer rummest rummy rumor rumored rumors rump rumple rumpled rumples
+rumps rums runaway rundown rune runes rung rungs runner runners runnier running runny runs runt
+runts runway runways rupture rural ruse ruses rush rushed rushes rushing rust rusted rustic
+rustics rustier rusting rustle rustled rustler rustles rusts rusty ruts rutted rutting saber
+sabers sack sacked sacking sacks sacred sacs sadden saddens sadder saddest saddle saddled
+saddles sades sadism sadist sadists sadly sadness safari safaris safe safely safer safes safest
+safety saffron saga sagas sage sager sages sagest sagged sagging sags said sail sailed sailing
+sailor sailors sails saint saintly saints sake salable salad salads salami salamis salary sale
+sales salient saliva sallow sally salmon salmons salon salons saloon saloons salt salted salter
+saltest saltier salting salts salty salute saluted salutes salvage salve salved salves salving
+same sames sample sampled sampler samples sand sandal sandals sandbag sanded sandier sanding
+sandman sandmen sands sandy sane saner sanest sang sangs sanity sank sapling sapped sapping saps
+sarcasm sardine sari saris sash sashes sassier sassy satanic satchel satin satire satires
+satisfy sauce sauced saucer saucers sauces saucier saucing saucy sauna saunaed saunas saunter
+sausage savage savaged savager savages save saved saver saves saving savings savior saviors
+savor savored savors savory savvied savvier savvies savvy sawdust sawed sawing saws saying
+sayings says scab scabbed scabs scalar scalars scald scalded scalds scale scaled scales scalier
+scaling scallop scalp scalped scalpel scalps scaly scamper scan scandal scanned scanner scans
+scant scanted scanter scants scanty scar scarce scarcer scare scared scares scarf scarfed scarfs
+scarier scaring scarlet scarred scars scarves scary scatter scene scenery scenes scenic scent
+scented scents scepter scheme schemed schemer schemes scholar school schools science scissor
+scoff scoffed scoffs scold scolded scolds scoop scooped scoops scoot scooted scooter scoots
+scope scoped scopes scoping scorch score scored scorer scores scoring scorn scorned scorns
+scotch scotchs scour scoured scourge scours scout scouted scouts scowl scowled scowls scram
+scrams scrap scrape scraped scrapes scraps scratch scrawl scrawls scrawny scream screams screech
+screen screens screw screwed screws screwy scribe scribes script scripts scroll scrolls scrub
+scrubs scruff scruffs scruffy scruple scuff scuffed scuffle scuffs scum scummed scums scurry
+scuttle scythe scythed scythes seafood seal sealed sealing seals seam seaman seamed seamen
+seaming seams seaport sear search seared searing sears seas seasick seaside season seasons seat
+seated seating seats seaweed secede seceded secedes seclude second seconds secrecy secret
+secrete secrets sect section sector sectors sects secular secure secured securer secures sedan
+sedans sedate sedated sedater sedates seduce seduced seduces seed seeded seedier seeding seeds
+seedy seeing seek seeking seeks seem seemed seeming seems seen seep seepage seeped seeping seeps
+seer sees seesaw seesaws seethe seethed seethes segment seize seized seizes seizing seizure
+seldom select selects self selfish sell seller sellers selling sells selves semen seminar senate
+senates senator send sender sending sends senile senior seniors sense sensed senses sensing
+sensor sensors sensory sensual sent sentry sequel sequels sequin sequins serene serener serial
+serials series serious sermon sermons serpent serum serums servant serve served server servers
+serves service servile serving session setback sets setter setters setting settle settled
+settler settles seven sevens seventh seventy sever several severe severed severer severs sewage
+sewed sewer sewers sewing sewn sews sexed sexes sexing sexism sexist sexual sexy shabby shack
+shackle shacks shade shaded shades shadier shading shadow shadows shadowy shady shaft shafted
+shafts shaggy shake shaken shakes shakier shaking shaky shall shallow sham shamble shame shamed
+shames shaming shammed shampoo shams shanty shape shaped shapely shapes shaping share shared
+shares sharing shark sharked sharks sharp sharped sharpen sharper sharply sharps shatter shave
+shaved shaven shaver shavers shaves shaving shawl shawls sheaf shear sheared shears sheath
+sheathe sheaths sheave sheaves shed sheds sheen sheep sheer sheered sheerer sheers sheet sheets
+sheikh sheikhs shelf shell shelled sheller shells shelter shelve shelved shelves sherbet sheriff
+sherry shes shied shield shields shies shift shifted shifts shifty shimmer shin shine shined
+shines shingle shinier shining shinned shins shiny ship shipped ships shire shirk shirked shirks
+shirt shirted shirts shiver shivers shoal shoaled shoals shock shocked shocks shod shoddy shoe
+shoeing shoes shone shoo shooed shooing shook shoos shoot shoots shop shopped shopper shops
+shore shored shores shoring short shorted shorten shorter shortly shorts shot shotgun shots
+should shout shouted shouts shove shoved shovel shovels shoves shoving show showed shower
+showers showier showing showman showmen shown shows showy shrank shred shreds shrew shrewd
+shrews shriek shrieks shrill shrills shrimp shrimps shrine shrines shrink shrinks shrivel shroud
+shrouds shrub shrubs shrug shrugs shrunk shuck shucked shucks shudder shuffle shun shunned shuns
+shunt shunted shunts shut shuts shutter shuttle shyer shyest shying shyness sibling sick sicked
+sicken sickens sicker sickest sicking sickle sickles sickly sicks sics side sided sides siding
+sidings sidle sidled sidles sidling siege sieges sierra siesta siestas sieve sieved sieves
+sieving sift sifted sifting sifts sigh sighed sighing sighs sight sighted sights sigma sign
+signal signals signed signer signify signing signs silence silent silents silicon silk silken
+silks sill sillier sillies sills silly silo silos silt silted silting silts silver silvers
+silvery similar simile similes simmer simmers simple simpler simplex simply since sincere sine
+sinew sinews sinewy sinful sing singe singed singer singers singes singing single singled
+singles singly sings sink sinking sinks sinned sinner sinners sinning sins sinus sinuses siphon
+siphons sipped sipping sips sire sired siren sirens sires siring sirloin sirs sissier sissies
+sissy sister sisters site sited sites siting sits sitter sitters sitting situate sixes sixteen
+sixth sixths sixties sixty sizable size sized sizer sizes sizing sizzle sizzled sizzles skate
+skated skater skaters skates skating skein skeins skeptic sketch sketchy skew skewed skewer
+skewers skewing skews skid skidded skids skied skies skiing skill skilled skillet skills skim
+skimmed skimp skimped skimps skimpy skims skin skinned skinny skins skip skipped skipper skips
+skirt skirted skirts skis skit skits skulk skulked skulks skull skulls skunk skunked skunks
+skying skyline slab slabbed slabs slack slacked slacken slacker slacks slag slain slake slaked
+slakes slaking slam slammed slams slander slang slant slanted slants slap slapped slaps slash
+slashed slashes slat slate slated slates slating slats slave slaved slavery slaves slaving
+slavish slay slaying slays sleazy sled sledded sleds sleek sleeked sleeker sleeks sleep sleeper
+sleeps sleepy sleet sleeted sleets sleeve sleeves sleigh sleighs slender slept slew slewed
+slewing slews slice sliced slices slicing slick slicked slicker slicks slid slide slides sliding
+slier sliest slight slights slim slime slimier slimmed slimmer slims slimy sling slings slink
+slinks slip slipped slipper slips slit slither slits slitter sliver slivers slob slobber slobs
+slog slogan slogans slogged slogs slop slope sloped slopes sloping slopped sloppy slops slosh
+sloshed sloshes slot sloth sloths slots slotted slouch slow slowed slower slowest slowing slowly
+slows sludge slug slugged slugs sluice sluiced sluices slum slumber slummed slummer slump
+slumped slumps slums slung slunk slur slurred slurs slush slut sluts slyly slyness smack smacked
+smacks small smaller smalls smart smarted smarter smartly smarts smash smashed smashes smear
+smeared smears smell smelled smells smelly smelt smelted smelts smidgen smile smiled smiles
+smiling smirk smirked smirks smite smites smith smiths smiting smitten smock smocked smocks smog
+smoke smoked smoker smokers smokes smokier smoking smoky smolder smooth smooths smote smother
+smudge smudged smudges smug smugger smuggle smugly smut smuts snack snacked snacks snag snagged
+snags snail snailed snails snake snaked snakes snaking snap snapped snappy snaps snare snared
+snares snaring snarl snarled snarls snatch sneak sneaked sneaker sneaks sneaky sneer sneered
+sneers sneeze sneezed sneezes snicker snide snider snidest sniff sniffed sniffle sniffs snip
+snipe sniped sniper snipers snipes sniping snipped snippet snips snitch snob snobs snooker snoop
+snooped snoops snooty snooze snoozed snoozes snore snored snores snoring snorkel snort snorted
+snorts snot snots snout snouts snow snowed snowier snowing snows snowy snub snubbed snubs snuff
+snuffed snuffer snuffs snug snugged snugger snuggle snugly snugs soak soaked soaking soaks soap
+soaped soapier soaping soaps soapy soar soared soaring soars sobbed sobbing sober sobered
+soberer sobers sobs soccer social socials society sock socked socket sockets socking socks soda
+sodas sodded sodden sodding sodium sodomy sods sofa sofas soft soften softens softer softest
+softly soggier soggy soil soiled soiling soils sojourn solace solaced solaces solar sold solder
+solders soldier sole soled solely solemn soles solicit solid solider solidly solids soling solo
+soloed soloing soloist solos soluble solve solved solvent solves solving somber some someday
+somehow someone sonata sonatas song songs sonic sonnet sonnets sons soon sooner soonest soot
+soothe soothed soothes sootier sooty sopped sopping soprano sops sorcery sordid sore sorely
+sorer sores sorest sorrier sorrow sorrows sorry sort sorta sorted sorting sorts sought soul
+souls sound sounded sounder soundly sounds soup souped souping soups sour source sourced sources
+soured sourer sourest souring sours south sowed sowing sown sows space spaced spaces spacial
+spacing spade spaded spades spading span spangle spaniel spank spanked spanks spanned spanner
+spans spar spare spared sparer spares sparest sparing spark sparked sparkle sparks sparred
+sparrow spars sparse sparser spas spasm spasms spat spate spatial spats spatted spatter spatula
+spawn spawned spawns spay spayed spaying spays speak speaker speaks spear speared spears special
+species specify speck specked specks specter spectra sped speech speed speeds speedy spell
+spelled speller spells spend spends spent sperm sperms spew spewed spewing spews sphere spheres
+sphinx spice spiced spices spicier spicing spicy spider spiders spied spies spigot spigots spike
+spiked spikes spiking spill spilled spills spin spinach spinal spinals spindly spine spines
+spins spiral spirals spire spires spirit spirits spit spite spited spites spiting spits spitted
+spittle splash splat spleen spleens splice spliced splices splint splints split splits splurge
+spoil spoiled spoils spoke spoken spokes sponge sponged sponges spongy sponsor spoof spoofed
+spoofs spook spooked spooks spooky spool spooled spools spoon spooned spoons spore spores
+sporran sport sported sports spot spots spotted spotty spouse spouses spout spouted spouts
+sprain sprains sprang sprawl sprawls spray sprayed sprays spread spreads spree spreed sprees
+sprier spriest sprig sprigs spring springs springy sprint sprints sprout sprouts spruce spruced
+sprucer spruces sprung spry spud spuds spun spunk spur spurn spurned spurns spurred spurs spurt
+spurted spurts sputter spying squad squads squalid squall squalls squalor square squared squarer
+squares squash squat squats squawk squawks squeak squeaks squeaky squeal squeals squeeze squelch
+squid squids squint squints squire squired squires squirm squirms squirt squirts stab stabbed
+stable stabled stabler stables stabs stack stacked stacks stadium staff staffed staffs stag
+stage staged stages stagger staging stags staid staider stain stained stains stair stairs stake
+staked stakes staking stale staled staler stales stalest staling stalk stalked stalks stall
+stalled stalls stamina stammer stamp stamped stamps stance stances stanch stand standby stands
+stank stanza stanzas staple stapled stapler staples star starch starchy stardom stare stared
+stares staring stark starker starred starry stars start started starter startle starts starve
+starved starves state stated stately stater states static stating station statue statues stature
+status statute staunch stave staved staves staving stay stayed staying stays steady steak steaks
+steal steals stealth steam steamed steams steamy steel steeled steels steep steeped steeper
+steeple steeps steer steered steers stellar stem stemmed stems stench stencil step stepped steps
+stereo stereos sterile stern sterner sternly sterns stew steward stewed stewing stews stick
+sticker sticks sticky stiff stiffed stiffen stiffer stiffly stiffs stifle stifled stifles stigma
+stigmas still stilled stiller stills stilted stimuli sting stinger stings stingy stink stinks
+stint stinted stints stir stirred stirrup stirs stitch stock stocked stocks stocky stodgy
+stoical stoke stoked stokes stoking stole stolen stoles stolid stomach stomp stomped stomps
+stone stoned stones stonier stoning stony stood stool stools stoop stooped stoops stop stopgap
+stopped stopper stops storage store stored stores stories storing stork storks storm stormed
+storms stormy story stout stouter stove stoves stow stowed stowing stows strain strains strait
+straits strand strands strange strap straps strata stratum straw strawed straws stray strayed
+strays streak streaks stream streams street streets stress stretch strew strewed strewn strews
+strict stride strides strife strike striker strikes string strings stringy strip stripe striped
+stripes strips strive striven strives strode stroke stroked strokes stroll strolls strong strove
+struck strum strums strung strut struts stub stubbed stubble stubby stubs stuck stud studded
+student studied studies studio studios studs study stuff stuffed stuffs stuffy stumble stump
+stumped stumps stun stung stunk stunned stuns stunt stunted stunts stupefy stupid stupids stupor
+stupors sturdy stutter style styled styles styling stylish stylus suave suaver suavest subbed
+subbing subdue subdued subdues subject sublet sublets sublime submit submits subs subset subsets
+subside subsidy subsist subtle subtler subtly suburb suburbs subvert subway subways succeed
+success succor succors succumb such suck sucked sucker suckers sucking suckle suckled suckles
+sucks suction sudden suds sued suede sues suffer suffers suffice suffix sugar sugared sugars
+sugary suggest suicide suing suit suite suited suites suiting suitor suitors suits sulfur sulk
+sulked sulkier sulkies sulking sulks sulky sullen sultan sultans sultry summary summed summer
+summers summing summit summits summon summons sums sunburn sundae sundaes sundial sundown sundry
+sung sunk sunken sunlit sunned sunnier sunning sunny sunrise suns sunset sunsets suntan suntans
+sunup super superb supers supper suppers supple suppler supply support suppose supreme sure
+surely surer surest surf surface surfed surfing surfs surge surged surgeon surgery surges
+surging surlier surly surmise surname surpass surplus surreal survey surveys survive suspect
+suspend sustain swab swabbed swabs swagger swallow swam swamp swamped swamps swampy swan swans
+swap swapped swaps swarm swarmed swarms swarthy swat swathe swathed swathes swats swatted sway
+swayed swaying sways swear swears sweat sweater sweats sweaty sweep sweeper sweeps sweet sweeten
+sweeter sweetly sweets swell swelled sweller swells swept swerve swerved swerves swift swifter
+swiftly swifts swig swigged swigs swill swilled swills swim swims swindle swine swines swing
+swings swipe swiped swipes swiping swirl swirled swirls swish swished swisher swishes switch
+swivel swivels swollen swoon swooned swoons swoop swooped swoops sword swords swore sworn swum
+swung symbol symbols symptom synapse synonym syntax syringe syrup syrups system systems tabbed
+tabbies tabbing tabby table tabled tables tablet tablets tabling tabloid taboo tabooed taboos
+tabs tacit tacitly tack tacked tackier tacking tackle tackled tackles tacks tacky taco tacos
+tact tactful tactic tactics tadpole tagged tagging tags tail tailed tailing tailor tailors tails
+taint tainted taints take taken takeoff taker takers takes taking talc tale talent talents tales
+talk talked talker talkers talking talks tall taller tallest tallied tallies tallow tally talon
+talons tame tamed tamely tamer tames tamest taming tamper tampers tandem tandems tang tangent
+tangle tangled tangles tango tangoed tangos tangs tank tankard tanked tanker tankers tanking
+tanks tanned tanner tannest tanning tans tantrum tape taped taper tapered tapers tapes taping
+tapped tapping taps tardier tardy target targets tariff tariffs tarnish tarred tarried tarrier
+tarries tarring tarry tars tart tartan tartans tartar tartars tarter tartest tarts task tasked
+tasking tasks tassel tassels taste tasted tastes tastier tasting tasty tattle tattled tattles
+tattoo tattoos tatty taught taunt taunted taunts taut tauter tautest tavern taverns tawdry
+tawnier tawny taxable taxed taxes taxi taxicab taxied taxiing taxing taxis teach teacher teaches
+teacup teacups teak teaks team teamed teaming teams teapot teapots tear teared tearful tearing
+tears teas tease teased teases teasing teat teats tedious tedium teed teeing teem teemed teeming
+teems teen teenage teens tees teeter teeters teeth teethe teethed teethes tell teller tellers
+telling tells temper tempers tempest temple temples tempo tempos tempt tempted tempts tenable
+tenancy tenant tenants tend tended tender tenders tending tendon tendons tendril tends tenet
+tenets tennis tenor tenors tens tense tensed tenser tenses tensest tensing tension tensors tent
+tented tenth tenths tenting tents tenuous tenure tenured tenures tepee tepees tepid term termed
+terming termini termite termly terms terrace terrain terrier terrify terror terrors terse
+tersely terser tersest test tested tester testers testes testify testing testis tests tetanus
+tether tethers text textile texts textual texture than thank thanked thanks that thatch thaw
+thawed thawing thaws theater thee theft thefts their theirs theist theists them theme themes
+then thence theorem theory therapy there thereby therein thereof thereon thermal these theses
+thesis theta they thick thicken thicker thicket thickly thief thieve thieves thigh thighs
+thimble thin thing things think thinker thinks thinly thinned thinner thins third thirds thirst
+thirsts thirsty thirty this thistle thong thongs thorn thorns thorny those thou though thought
+thous thrash thread threads threat threats three threes thresh threw thrice thrift thrifts
+thrifty thrill thrills thrive thrived thrives throat throats throb throbs throne thrones throng
+throngs through throw thrown throws thrust thrusts thud thudded thuds thug thugs thumb thumbed
+thumbs thump thumped thumps thunder thus thwart thwarts thyme thyroid tiara tiaras tick ticked
+ticket tickets ticking tickle tickled tickles ticks tidal tidbit tidbits tide tided tides tidied
+tidier tidies tidiest tiding tidy tidying tied tier tiers ties tiff tiffed tiffing tiffs tiger
+tigers tight tighten tighter tightly tights tilde tile tiled tiles tiling till tilled tilling
+tills tilt tilted tilting tilts timber timbers time timed timely timer timers times timid
+timider timidly timing timings tinder ting tinge tinged tinges tinging tingle tingled tingles
+tings tinier tiniest tinker tinkers tinkle tinkled tinkles tinned tinnier tinning tinny tins
+tinsel tinsels tint tinted tinting tints tiny tipped tipping tips tipsier tipsy tiptoe tiptoed
+tiptoes tirade tirades tire tired tireder tires tiring tissue tissues title titled titles
+titling tits titter titters toad toads toast toasted toaster toasts tobacco today toddle toddled
+toddler toddles toed toeing toenail toes toffee toffees toga togas toggle toil toiled toilet
+toilets toiling toils token tokens told toll tolled tolling tolls tomato tomb tombed tombing
+tomboy tomboys tombs tomcat tomcats tome tomes tonal tone toned tones tong tongs tongue tongued
+tongues tonic tonics tonight toning tonnage tonne tonnes tons tonsil tonsils took tool tooled
+tooling toolkit tools toot tooted tooth tooting toots topaz topazes topic topical topics topped
+topping topple toppled topples tops torch torched torches tore torment torn tornado torpedo
+torque torrent torrid torso torsos torture toss tossed tosses tossing total totaled totally
+totals tote toted totem totems totes toting tots totted totter totters totting toucan toucans
+touch touched touches touchy tough toughen tougher toughs toupee toupees tour toured touring
+tourist tours tousle tousled tousles tout touted touting touts toward towards towed towel
+toweled towels tower towered towers towing town towns tows toxic toxin toxins toyed toying toys
+trace traced traces tracing track tracked tracks tract tractor tracts trade traded trader
+traders trades trading traffic tragedy tragic trail trailed trailer trails train trained trainee
+trainer trains trait traitor traits tramp tramped trample tramps trance trances transit trap
+trapeze trapped trapper traps trash trashed trashes trashy trauma traumas travel travels trawl
+trawled trawler trawls tray trays treacle tread treads treason treat treated treats treaty
+treble trebled trebles tree treed treeing trees trek trekked treks trellis tremble tremor
+tremors trench trend trended trends trendy trestle trial trialed trials tribal tribe tribes
+tribute trick tricked trickle tricks tricky tried tries trifle trifled trifles trigger trill
+trilled trills trilogy trim trimmed trimmer trims trinity trinket trio trios trip tripe triple
+tripled triples triplet tripod tripods tripos tripped trips trite triter tritest triumph trivia
+trivial trod trodden troll trolled trolley trolls troop trooped trooper troops trophy trot trots
+trotted trouble trough troughs trounce troupe trouped troupes trouser trout trouts trowel
+trowels truancy truant truants truce truces truck trucked trucks trudge trudged trudges true
+trued truer trues truest truffle truing truism truisms truly trump trumped trumpet trumps trunk
+trunks trust trusted trustee trusts trusty truth truths trying tryout tryouts tuba tubas tube
+tubed tubes tubing tubs tubular tuck tucked tucking tucks tuft tufted tufting tufts tugged
+tugging tugs tuition tulip tulips tumble tumbled tumbler tumbles tummies tummy tumor tumors
+tumult tumults tuna tunas tundra tundras tune tuned tuneful tuner tuners tunes tunic tunics
+tuning tunnel tunnels turban turbans turbine tureen tureens turf turfed turfing turfs turgid
+turkey turkeys turmoil turn turned turner turning turnip turnips turnout turns turret turrets
+turtle turtles tusk tusks tussle tussled tussles tutor tutored tutors tuxedo tuxedos twang
+twanged twangs tweak tweaked tweaks twee tweed tweet tweeted tweets twelfth twelve twelves
+twenty twice twiddle twig twigged twigs twin twine twined twines twinge twinged twinges twining
+twinkle twinned twins twirl twirled twirls twist twisted twister twists twitch twitter twos
+tycoon tycoons tying type typed types typeset typhoid typhoon typhus typical typify typing
+typist typists tyranny tyrant tyrants udder udders uglier ugliest ugly ulcer ulcers ultra umpire
+umpired umpires umpteen unable unarmed unaware unblock unborn uncanny uncle unclean unclear
+uncles uncouth uncover uncut under undergo undid undo undoes undoing undone undress undue unduly
+undying unearth uneasy unequal uneven unfair unfit unfits unfold unfolds unfunny unfurl unfurls
+ungodly unhappy unheard unhook unhooks unicorn unified unifies uniform unify union unions unique
+uniquer unison unit unite united unites unities uniting units unity unjust unkempt unkind
+unknown unleash unless unlike unload unloads unlock unlocks unlucky unman unmans unmask unmasks
+unmoved unnamed unnerve unpack unpacks unpaid unpick unravel unread unreal unrest unruly unsafe
+unsafer unsaid unsay unsays unscrew unseat unseats unseen unset unsound unstuck unsung unsure
+untidy untie untied unties until unto untold untrue untruer untying unused unusual unveil
+unveils unwary unwell unwind unwinds unwise unwiser unwound unwrap unwraps upbeat upbeats update
+updated updates upend upended upends upgrade upheld uphill uphills uphold upholds upkeep uplift
+uplifts upload upon upped upper uppers upping upright uproar uproars uproot uproots upset upsets
+upshot upshots upside upstart uptake uptight uptown upturn upturns upward upwards uranium urban
+urbane urbaner urchin urchins urge urged urgency urgent urges urging urinate urine urns usable
+usage usages used useful useless user users uses usher ushered ushers using usual usually usurp
+usurped usurps utensil uteri uterus utility utilize utmost utter uttered utterly utters vacancy
+vacant vacate vacated vacates vaccine vacuous vacuum vacuums vagary vagina vaginae vaginal
+vagrant vague vaguely vaguer vaguest vain vainer vainest valet valeted valets valiant valid
+validly valise valises valley valleys valor value valued values valuing valve valved valves
+valving vampire vandal vandals vane vanes vanilla vanish vanity vanned vanning vans vapor vapors
+variant varied varies variety various varnish varsity vary varying vase vases vast vaster
+vastest vastly vasts vats vatted vatting vault vaulted vaults veal vector vectors veer veered
+veering veers vehicle veil veiled veiling veils vein veined veining veins velour velvet velvety
+vend vended vending vendor vendors vends veneer veneers venison venom vent vented venting vents
+venture venue venues veranda verb verbal verbals verbose verbs verdict verge verged verges
+verging verier veriest verify vermin verse versed verses versing version versus vertigo verve
+very vessel vessels vest vested vestige vesting vests veteran veto vetoed vetoes vetoing vets
+vetted vetting vexed vexes vexing viable viaduct vial vials vibrant vibrate vicar vicars vice
+viced vices vicing vicious victim victims victor victors victory video videos vied vies view
+viewed viewer viewers viewing views vigil vigils vigor vile viler vilest vilify villa village
+villain villas vine vinegar vines vintage vinyl vinyls viola violas violate violent violet
+violets violin violins viper vipers viral virgin virgins virile virtual virtue virtues virus
+viruses visa visaed visaing visas vise vised vises visible visibly vising vision visions visit
+visited visitor visits visor visors vista vistas visual visuals vital vitally vitamin vivid
+vivider vividly vocal vocals vodka vogue vogues voice voiced voices voicing void voided voiding
+voids volcano volley volleys volt voltage volts volume volumes vomit vomited vomits voodoo
+voodoos vortex vote voted voter voters votes voting vouch vouched voucher vouches vowed vowel
+vowels vowing vows voyage voyaged voyager voyages vulgar vulture vying wadded wadding waddle
+waddled waddles wade waded wades wading wads wafer wafers waffle waffled waffles waft wafted
+wafting wafts wage waged wager wagered wagers wages wagged wagging waging wagon wagons wags waif
+waifs wail wailed wailing wails waist waists wait waited waiter waiters waiting waits waive
+waived waiver waivers waives waiving wake waked waken wakened wakens wakes waking walk walked
+walker walkers walking walkout walks wall walled wallet wallets walling wallop wallops wallow
+wallows walls walnut walnuts walrus waltz waltzed waltzes wand wander wanders wands wane waned
+wanes waning wanna wanner wannest want wanted wanting wanton wantons wants warble warbled
+warbles ward warded warden wardens warding wards warfare warhead warier wariest warlike warm
+warmed warmer warmest warming warmly warms warmth warn warned warning warns warp warpath warped
+warping warps warrant warred warren warrens warring warrior wars wart wartime warts wary wash
+washed washer washers washes washing washout wasp wasps wastage waste wasted wastes wasting
+watch watched watches water watered waters watery watt watts wave waved waver wavered wavers
+waves wavier waviest waving wavy waxed waxes waxier waxiest waxing waxy waylaid waylay waylays
+ways wayside wayward weak weaken weakens weaker weakest weakly wealth wealthy wean weaned
+weaning weans weapon weapons wear wearied wearier wearies wearily wearing wears weary weasel
+weasels weather weave weaved weaver weavers weaves weaving webbed webbing webs wedded wedder
+wedding wedge wedged wedges wedging wedlock weds weed weeded weedier weeding weeds weedy weeing
+week weekday weekend weekly weeks weep weeping weeps weer wees weest weigh weighed weighs weight
+weights weighty weird weirder weirdo weirdos welcome weld welded welder welders welding welds
+welfare well welled welling wells welt welted welter welters welting welts went wept were west
+western wets wetter wettest wetting whack whacked whacks whale whaled whaler whalers whales
+whaling wharf wharves what whats wheat wheedle wheel wheeled wheels wheeze wheezed wheezes when
+whence whens where whereas whereby wherein wheres whet whether whets whetted whew which whiff
+whiffed whiffs while whiled whiles whiling whilst whim whimper whims whine whined whines whining
+whinny whip whipped whips whir whirl whirled whirls whirred whirs whisk whisked whisker whiskey
+whisks whiskys whisper whistle white whiten whitens whiter whites whitest whittle whiz whizzed
+whizzes whoa whoever whole wholes wholly whom whoop whooped whoops whopper whore whores whose
+whys wick wicked wicker wickers wicket wickets wicks wide widely widen widened widens wider
+widest widow widowed widower widows width widths wield wielded wields wife wigged wigging wiggle
+wiggled wiggles wigs wigwam wigwams wild wildcat wilder wildest wildly wilds wilier wiliest will
+willed willful willing willow willows wills wilt wilted wilting wilts wily wince winced winces
+winch winched winches wincing wind winded windier winding window windows winds windy wine wined
+wines wing winged wingers winging wings wining wink winked winking winks winner winners winning
+wins winsome winter winters wintry wipe wiped wiper wipers wipes wiping wire wired wires wirier
+wiriest wiring wiry wisdom wise wisely wiser wises wisest wish wished wishes wishful wishing
+wisp wispier wisps wispy wist wistful witch witched witches with wither withers within without
+witless witness wits wittier witting witty wive wives wizard wizards wizened wobble wobbled
+wobbles wobbly woes woke woken woks wolf wolfed wolfing wolfs wolves woman womb wombat wombats
+wombs women wonder wonders wont wood wooded wooden woodier woodies wooding woods woody wooed
+woof woofed woofing woofs wooing wool woolen woolens woolly woos word worded wordier wording
+words wordy wore work worked worker workers working workman workmen workout works world worldly
+worlds worm wormed worming worms worn worried worries worry worse worsen worsens worship worst
+worsted worsts worth worthy would woulds wound wounded wounder wounds wove woven wowed wowing
+wows wrangle wrap wrapped wrapper wraps wrath wreak wreaked wreaks wreath wreathe wreaths wreck
+wrecked wrecker wrecks wren wrench wrens wrest wrested wrestle wrests wretch wriggle wright
+wring wringer wrings wrinkle wrist wrists writ write writer writers writes writhe writhed
+writhes writing writs written wrong wronged wronger wrongly wrongs wrote wrought wrung wryer
+wryest yacht yachted yachts yakked yakking yaks yams yank yanked yanking yanks yapped yapping
+yaps yard yards yarn yarns yawn yawned yawning yawns year yearly yearn yearned yearns years
+yeast yeasts yell yelled yelling yellow yellows yells yelp yelped yelping yelps yens yeses
+yessed yessing yeti yews yield yielded yields yodel yodeled yodels yoga yogurt yogurts yoke
+yoked yokel yokels yokes yoking yolk yolks yonder young younger your yours yous youth youths
+yowl yowled yowling yowls yuck zanier zanies zaniest zany zeal zealous zebra zebras zenith
+zeniths zero zeroed zeroing zeros zest zests zeta zigzag zigzags zillion zinc zincked zincs
+zipped zipper zippers zipping zips zodiac zodiacs zombie zombies zone zoned zones zoning zoology
+zoom zoomed zooming zooms zoos
+`
+
+// Less common words (SCOWL sizes 40 and 50), still accepted as guesses
+export const EXTRA_WORDS = `
+abaft abalone abase abased abases abash abashed abashes abasing abbess abeam abed abettor abjure
+abjured abjures abloom abrade abraded abrades abut abuts abutted abuzz acacia acacias accrual
+acerbic acetate acetic acetone achier achiest achoo achy acidic acidify acidly acme acmes
+acolyte aconite actuate acuity adagio adagios addend addenda addends adder adders addle addled
+addles addling adduce adduced adduces adenoid adeptly adieu adieus adipose adjudge adjure
+adjured adjures adman admen adrenal adulate advents adware adze adzes aegis aerate aerated
+aerates aerator aerie aeries aerobic affray affrays afghan afghans afire afoul agape agar agate
+agates agave ageism ageless agilely agings agleam agog ague ahem aileron airdrop airfare airfoil
+airhead airily airings airless airlift airman airmen airship airsick airway airways akimbo albs
+albumen albumin alchemy alder alders alertly alfalfa allegro allover aloe aloes aloha alohas
+alpaca alpacas alphas alpine alright alum alumna alumnae alumni alumnus alums amalgam amatory
+amazon amazons amigo amigos amino amity ammeter ammo amoebic amour amours ampule ampules amputee
+analogs anapest andante andiron anemone angina angora angoras anime animism animist animus anion
+anions anise aniseed ankh ankhs anklet anklets anneal anneals annular anode anodes anodyne anons
+antacid ante anted anteing antes anther anthers anti antigen antis antiwar anymore anytime apace
+aphasia aphasic aphelia aphid aphids apiary aplenty apogee apogees apprise apps apropos apse
+apses aptness aqua aquas aquavit aqueous aquifer arbutus archly arctic arctics argon argosy
+argot argots argyle argyles aridity aright armada armadas armband armful armfuls armhole armlet
+armlets armorer armrest arousal arrant arroyo arroyos artier artiest artiste artless artsier
+artsy arty ascot ascots aseptic ashcans ashier ashiest ashram ashrams ashy asinine aslant
+asocial aspic aspics asps assay assayed assays asshole assize assizes assuage aster astern
+asters astir astral asunder atavism atelier atoll atolls atonal atop atria atrium atrophy attar
+attune attuned attunes auger augers aught aughts augur augured augurs augury auks aurally
+aureole auricle auspice autism avast avatar avatars avenger aver averred avers avian aviary
+avidity avidly awash aweigh awls axial axon axons azimuth baaed baaing baas babbler babel babels
+babysat babysit bacilli backbit backhoe backup backups bagpipe bailiff bailout baize baldly
+baleen baleful balkier balky ballsy balsa balsam balsams balsas bane baneful banes bangle
+bangles banns banshee bantam bantams banyan banyans baobab baobabs baptist barbell barf barfed
+barfing barfs barista barium barker barkers barmaid baronet barrack barrio barrios barroom
+barrow barrows basal basalt basely baseman basemen bassist basso bassos bast bastion bate bated
+bates bather bathers bathmat bathos batik batiks bating batsmen batten battens battier batty
+bauble baubles bauxite bawdily bazooka beanbag bearish beastly beatify beatnik beau beaus bebop
+bebops becalm becalms beck becks bedeck bedecks bedevil bedpan bedpans bedroll bedsore beeline
+beep beeped beepers beeping beeps befog befogs befoul befouls begat beget begets begone begonia
+begot behest behests behoove belay belayed belays belle belles beltway benumb benumbs benzene
+berate berated berates berg bergs berm berms beryl beryls besom besoms besot besots bespeak
+bespoke bestir bestirs betake betaken betakes betas bethink betide betided betides betoken
+betook betroth betwixt bevel beveled bevels bevies bevy bewail bewails bibles bicep biceps
+bidder bidders biddies biddy bidet bidets bier biers bifocal biggie biggies bighorn bight bights
+bigness bigwig bigwigs biker bikers bilge bilges bilious bilk bilked bilking bilks billet
+billets billies billowy billy bimbo bimbos bindery binge binged binges bionic biopsy bipedal
+bipolar birdie birdied birdies biretta birther bismuth bisque bistro bistros bitchy bitcoin
+bittern bitters bitumen bivalve bivouac blah blandly blarney blazon blazons bleakly bleeder
+bleep bleeped bleeps blench blender bling blintz blintze bloat bloated bloats bloomer blooper
+blotchy blower blowers blowgun blowup blowups blowzy bluish blurbs blurry blusher boaster boater
+boaters boatman boatmen bobbies bobble bobbled bobbles bobby bobtail bodega bodegas bodkin
+bodkins bogey bogeyed bogeys boggier boggy bogie bogies bola bolas bole bolero boleros boles
+boll bolls bombast bonanza bonbon bonbons boner boners bong bonged bonging bongo bongos bongs
+bonito bonitos bonkers bonnier bonny bonsai boob boobed boobies boobing boobs boodle boodles
+boogie boogied boogies bookie bookies bookish boozed boozer boozers boozes boozier boozing boozy
+bopped bopping bops borax borer borers boron borscht bosh bossily botnet botnets boudoir bouncer
+bouncy bounden bounder bower bowers bowlers bowman bowmen boxwood bozo bozos bracken bract
+bracts brad brads bragger braille bramble brashly bratty bravura brawler breaker breakup breathy
+breech brewer brewers brier briers brig brigand brigs brimful brisket bristly brogan brogans
+brogue brogues bromide bromine bronchi brooder brothel browser bruin bruins bruiser brunet
+brunets buckeye buckler buckram bucksaw bucolic budgie budgies bugaboo bugbear buildup builtin
+bulgier bulgy bulimia bulimic bullish bullock bullpen bulrush bulwark bumble bumbled bumbler
+bumbles bummers bumpkin bunged bunging bungs bunkum bunt bunted bunting bunts burdock burg
+burgeon burgher burgled burgles burgs burka burkas burnout burrito burs bursars busbies busboy
+busboys busby bushman bushmen buster busters butane butch butches buyout buyouts bylaw bylaws
+byline bylines byplay byword bywords cabal cabals cabana cabanas cabbies cabby cachet cachets
+cadaver caddish cadenza cadge cadged cadger cadgers cadges cadging cadmium cadre cadres cads
+caducei caesura caftan caftans cagily cahoot cahoots cairn cairns caisson calcify calcine
+calcite caliper caliph caliphs caloric calumny calved calving calypso calyx calyxes camber
+cambers cambium cambric camphor campier campy cams canard canards canasta cancan cancans cannily
+cantata canted canting canto canton cantons cantor cantors cantos cants capitol caplet caplets
+capon capons capstan carafe carafes caraway carbide carbine carboy carboys carbs cardio careen
+careens caret carets carfare caries carjack carmine caroler carom caromed caroms carotid carpal
+carpals carpel carpels carpi carport carpus carrel carrels carsick carver carvers casein cassava
+cassia cassias cassock castor castors casuist catalpa catarrh catbird catboat catcher catgut
+cathode cation cations catkin catkins cattail cattier cattily catty caudal caveman cavemen cavil
+caviled cavils cayenne cedilla celesta censer censers centaur centime cerebra cerise cervix
+cesium cession chaise chaises chamois chancel chancy chanter chantey chaplet charade charier
+charily charmer chary chaser chasers chattel cheater cheddar cheeky cheesy chemise cheroot
+chervil chevron chewer chewers chichi chichis chicle chicory chiffon chigger chignon chimera
+chino chinos chintzy chirrup chit chitin chits chive chives chock chocked chocks choker chokers
+choler chomp chomped chomps chorale chump chumps churl churls chutney cicada cicadas cilia
+cilium circlet cirrus citadel citron citrons civet civets civilly civvies clangor clarets
+clarion clayey clayier cleanup clement clew clewed clewing clews clingy clinker clipper clit
+clits clobber cloche cloches clomp clomped clomps cloned cloning clop clopped clops cloture cloy
+cloyed cloying cloys clunk clunked clunker clunks clunky cobbled cobbles cocci coccis coccus
+coccyx cochlea cockade cockily cockle cockles cockney coda codas coddle coddled coddles codeine
+codex codfish codger codgers codices codicil codify coed coeds coequal coeval coevals cognate
+cohabit cohere cohered coheres cohort cohorts coif coiffed coifs coital coitus cola colas
+colicky colitis colleen collier colloid collude cologne colossi cols coltish combo combos
+comedic comer comers comfier comfy comity commode comport compote conch conchs condo condole
+condos conduce conduit confab confabs confute conga congaed congas conic conics conjoin conk
+conked conking conks connive contuse convoke cookers cookery cookout coolant coolie coolies coon
+coons coopers coot cootie cooties coots copilot copings coppery copra copse copses copter
+copters copula copulas copycat cordite corm corms corncob corneal cornice cornrow corolla corona
+coronas coronet corpora corsair cosign cosigns cosine cosplay costar costars cote coterie cotes
+cotter cotters coupe coupes couplet courtly coven covens covey coveys cowbird cowhand cowl
+cowlick cowling cowls cowpoke cowpox cowslip coxcomb coyly coyness cozen cozened cozens crackly
+crackup cranial cranny crape crapes crapped crappy craps crassly cravat cravats craven cravens
+craw craws creamer credo credos creel creels creeper creole creoles cress crewman crewmen crick
+cricked cricks crier criers crimp crimped crimps crinkly critter crocked crone crones crooner
+cropper crosier crossly croup croupy crud cruddy cruet cruets cruller crumby crumpet cryings
+cubical cubism cubist cubists cubit cubits cuckold cudgel cudgels cuds culotte culvert cumin
+cumuli cumulus cunt cunts cupcake cupid cupids cupola cupolas curacy curate curates curer curie
+curies curler curlers curlew curlews curlier curs cursive cursors curtly curvier curvy cushier
+cushy cusp cuspid cuspids cusps cuss cussed cusses cussing cutely cutesy cutlass cutoff cutoffs
+cutout cutouts cutup cutups cygnet cygnets cystic czarina dabbler dacha dachas dactyl dactyls
+dado dadoes daemons daffier daffy dafter daftest dahlia dahlias dale dales damask damasks
+dampers damply damson damsons dander dandle dandled dandles dankly dapple dappled dapples
+dashiki dative datives dauber daubers dauphin davit davits dawdler daybed daybeds deadpan deafen
+deafens deathly debacle debar debark debarks debars debater debauch debs decaf decal decals
+decamp decamps decant decants declaim decor decors deejay deejays definer defray defrays defuse
+defused defuses deice deiced deicer deicers deices deicing deism dell dells demesne demigod demo
+demoed demoing demonic demos demur demurs denier deniers denizen dentin denture denude denuded
+denudes deplane deploy deploys depute deputed deputes derbies derby dermis dervish descant
+descry despoil detox detoxed detoxes deuce deuces devilry dewdrop dewier dewiest dewlap dewlaps
+dewy dharma dhoti dhotis diadem diadems diarist diatom diatoms dibble dibbled dibbles dicey
+dicier diciest dick dicker dickers dickey dickeys dicks dicta dictum diddle diddled diddles
+dieter dieters digger diggers digraph dillies dilly dimmers dimness dimwit dimwits dinette ding
+dinged dinging dingo dingoes dings dinkier dinkies dinky dint diode diodes diorama dioxin
+dioxins dipole dipper dippers dirk dirks disbar disbars discoed dishpan dishrag disport disrobe
+dissed dissing distaff diurnal diva divan divans divas divider divot divots divvied divvies
+divvy dizzily doable docent docents docket dockets docs dodder dodders dodger dodgers dodos doff
+doffed doffing doffs dogfish doggier doggies doggone doggy dogie dogies dogtrot doings dollop
+dollops dolmen dolmens dolt doltish dolts donned donning doodad doodads doodler doormat dories
+dork dorkier dorks dorky dorm dormer dormers dormice dorms dory dosage dosages dossier dotage
+dotcom dotcoms doth dotty doublet doubter douche douched douches doughty doughy dourly dowager
+dowdily dowel doweled dowels downer downers dowse dowsed dowses dowsing doyen doyens drably
+drachma draftee dragnet dragoon drainer drake drakes dram drams dray drays dredger driblet
+drifter drizzly drolly droopy droplet dropper dropsy drover drovers drub drubbed drubs druid
+druids dryad dryads drywall duality dubiety ducal ducat ducats duchies duchy ductile ducting
+dudgeon duelist duffer duffers dukedom dulcet dullard dumbly dunned dunner dunnest dunning duns
+duodena duos durably duster dusters dustman duteous dweeb dweebs dyadic dyer dyers dyke dykes
+eaglet eaglets earbud earbuds earful earfuls earldom earlobe earmuff earplug earthen earwax
+earwig earwigs eatable eaters eatery echelon ecru edamame edema edgings edified edifies edify
+eerily efface effaced effaces effete egghead eggnog egoist egoists egress egret egrets eider
+eiders elate elated elates elating elegiac elfin elfish elide elided elides eliding elision
+elixir elixirs ells embroil emcee emceed emcees emend emended emends emery emetic emetics
+emirate emoji emojis emos emote emoted emotes emoting emptily emus enamor enamors encamp encamps
+enclave encoder encrust encrypt endue endued endues enduing enfold enfolds engorge enjoin
+enjoins enmesh ennoble ennui ensnare entente enthuse entomb entombs epicure epigram epistle
+epochal epoxied epoxies epoxy equable equably erectly ergs ermine ermines erosive erotica errata
+erratas erratum ersatz escapee eschew eschews escrow escrows espied espies espouse espy espying
+esquire ester esters estuary etcher etchers eunuch eunuchs euphony euro euros evacuee evilly
+evince evinced evinces ewer ewers excreta exec execs exes exigent expiate expo expos expunge
+extrude eyeful eyefuls eyelet eyelets fabled facings faddish fagged fagging fags fain fainer
+fainest fairway faker fakers fakir fakirs falloff fallow fallows famish fanboy fanboys fancily
+fandom fannies fanny fanzine farina farrow farrows fart farted farting farts fathead fatness
+faun fauns faxed faxes faxing fealty febrile fecal fecund fedora fedoras feebly feedbag feisty
+femoral femur femurs fencer fencers fennel fens feral ferric ferrous ferrule fervid fest festal
+fests feta fetal fetlock fettle fevered fiat fiats fibroid fibrous fibula fibulae fiches fief
+fiefs fielder fife fifes filbert filial filings fillers fillip fillips finagle finder finders
+finery finis finises fink finked finking finks finny firebug firth firths fishers fishnet
+fistful fitly fitters fixate fixated fixates fixedly fixer fixers fixings fixity fizzier fjord
+fjords flab flaccid flack flacks flagon flagons flambes flan flange flanges flapper flatbed
+flatcar flattop flax flaxen flay flayed flaying flays fleshly flinty floater floe floes floozy
+florin florins flotsam floury flub flubbed flubs fluidly flukier fluky flume flumes flummox
+flyby flybys flyleaf fobbed fobbing fobs folio folios fondant fondue fondues foolery footman
+footmen footsie foppish fops forager foully foxhole foxtrot frack fracked fracks framer framers
+frappes frat frats frazzle freaky freebie freeman freemen fresco freshet friable fridge fridges
+frizz frizzed frizzes frizzle frogman frogmen frowzy frump frumps frumpy fryer fryers fuchsia
+fuck fucked fucker fuckers fucking fucks fuddle fuddled fuddles fugue fugues fulsome fumbler
+fungal fungous funk funked funkier funking funks funky furbish furze fusible fusions fussily
+fustian fustier fusty futon futons futz futzed futzes futzing fuzzily gabbier gabble gabbled
+gabbles gabby gabled gadded gadding gadfly gads gaff gaffe gaffed gaffes gaffing gaffs gaggle
+gaggles gainsay gaiter gaiters galena galleon gallium galosh gambol gambols gamely gamete
+gametes gamier gamiest gamin gamine gamines gamins gammas gamy ganglia gannet gannets gantlet
+gantry garner garners garrote gasohol gassier gassy gauche gaucher gaucho gauchos gaudily
+gauzier gauzy gavotte gawkily gayness gazebo gazebos gazer gazers gearbox gecko geckos geek
+geekier geeks geeky geezer geezers geisha gelid gelled gelling gels genome genomes genteel
+gentian geode geodes germane gerund gerunds gestate getup gewgaw gewgaws gherkin gibbet gibbets
+gibbon gibbons giblet giblets giddily gigabit giggler giggly gigolo gigolos gimlet gimlets gimpy
+ginkgo ginseng gird girded girding girds girt girted girting girts gizmo gizmos glazier gleeful
+glitch glitz glitzy glob globs glop glottis gluey gluier gluiest glumly gluten glyph gnarly
+gneiss gnomish gobbler goddamn godhood godson godsons gofer gofers goggled goings goiter goiters
+gollies golly gonad gonads goober goobers goodly google googled googles gook gooks goop gorse
+gossipy gotta gouger gougers goutier gouty grackle grad graders grads grafter grail grainy
+granary grandee grandma grandpa grange granges grapnel gratis grayish grebe grebes griffin
+gringo gringos grippe grist gristly grog grommet groupie grout grouted grouts grownup grunge
+grungy guano guava guavas guesser guff guilder guineas gulag gulags gumbo gumbos gunboat gunk
+gunnery gunny gunwale gurney gurneys gushier gushy gusset gussets gusto gutless gutsier gutsy
+guzzler gypped gypping gyps gypsies gypsum gypsy gyro gyros hackle hackles hafnium haft hafts
+haggler haiku hairnet hairpin hake hakes halberd halcyon hallow hallows halogen halyard handcar
+handgun handily handset hangdog hangman hangmen hank hankie hankies hanks hansom hansoms hardily
+hardtop harelip harpies harpy hashish hashtag hasp hasps hassock hater haters hath hatter
+hatters hauler haulers haunch hauteur hawed hawing hawker hawkers hawkish haws hawser hawsers
+haycock hayloft haymow haymows hayseed hazily hazings hazmat headset hearer hearers hearken
+heaths heck hectare hector hectors heedful heehaw heehaws heft hefted hefting hefts heiress
+heist heisted heists helical helices helix hellion helot helots hemline hempen henna hennaed
+hennas henpeck hepatic hepper heppest herbage herbal herder herders hereof hereto heroics hertz
+hewer hewers hexed hexes hexing hibachi hickey hickeys hideout hied hieing hies highboy hillock
+hilltop hippo hippos hirsute hitter hitters hoagie hoagies hoarier hoary hoaxer hoaxers hobnail
+hobs hods hoedown hogan hogans hoggish hogwash hokey hokier hokiest hokum holdout homburg
+homeboy homer homered homers homily hominy honcho honchos hooch hoodie hoodies hoodoo hoodoos
+hooey hookah hookahs hooker hookers hookup hookups hooky hoopla hooters hoppers horsey horsier
+hosanna hospice hostler hotcake hotkey hotkeys hotness hotshot howdah howdahs howdy howler
+howlers hubbies hubby hubcap hubcaps hubris huffily hula hulas humbugs humeri humerus humidor
+hummock hummus humus hunker hunkers hurdler hurler hurlers husker huskers hussar hussars hussies
+hussy hydra hydras hydrate hying hymen hymens hype hyped hyper hypes hyping hypo hypos iamb
+iambic iambics iambs ibex ibexes ibis ibises icebox icecap icecaps icily iciness ickier ickiest
+icky ides idlers idyll idylls iffier iffiest iffy igneous ignoble ignobly ilks imam imams imbibe
+imbibed imbibes imbue imbued imbues imbuing immure immured immures impala impalas impanel
+impiety impious implode impugn impugns impute imputed imputes inanely inanity inapt inboard
+inbound inbox inboxes incise incised incises incubus ineptly inertly inflect inflow ingot ingots
+ingrate ingress ingrown inhere inhered inheres inkblot inkwell inline inmost inroad inroads
+inseam inseams inset insets inshore insole insoles intone intoned intones intros intuit intuits
+inure inured inures inuring inveigh iodize iodized iodizes ionize ionized ionizer ionizes ipecac
+ipecacs irately iridium irksome islet islets isms isobar isobars isotope jabot jabots jags japan
+japans jape japed japes japing jasmine jasper jazzier jazzy jeep jeeps jeez jejune jerkily
+jerkin jerkins jetsam jibbed jibbing jibs jigger jiggers jihad jihads jimmied jimmies jimmy jinn
+jinni jitney jitneys jive jived jives jiving jobber jobbers jobless jock jocks jocose jocund
+joggle joggled joggles john johns joiner joiners joist joists jollity jonquil josh joshed joshes
+joshing joule joules jounce jounced jounces joust jousted jousts jowl jowls joyless joyride
+joyrode juicer juicers juicily jujitsu jujube jujubes jukebox julep juleps junco juncos junker
+junkers junkier jurist jurists kaboom kale kaolin kapok kaput karakul karaoke karma katydid
+kazoo kazoos kebab kebabs kenned kenning kens keratin kestrel ketch ketches khan khans kibbutz
+kibitz kibosh kicker kickers kickier kicky kidder kidders kiddie kiddies kiddo kiddos killjoy
+kiloton kilter kinetic kingly kingpin kinsman kinsmen kippers kismet kisser kissers kith kitsch
+kitschy klutz klutzes klutzy knave knavery knaves knavish kneader knell knelled knells knitter
+knobby kook kookier kooks kooky kopeck kopecks krone kroner kronor krypton kudzu kudzus kumquat
+labia labial labials labium lackey lackeys laconic lactate lactic lactose lacuna lacunae laddie
+laddies ladings lagers laity lama lamas lambent lambkin lamely lammed lamming lamprey lams
+lancer lancers lancet lancets lank lanker lankest lanolin lanyard laptop laptops lapwing larch
+larches larder larders largess largo largos lariat lariats larval lasagna lassie lassies lasso
+lassoed lassos latency lats latte lattes laxly laxness layaway layette layoff layoffs layover
+laze lazed lazes lazily lazing leached leaches leakier learner leas leaven leavens lecher
+lechers lechery lees leeward lefties leftism leftist lefty legate legatee legates legato legatos
+leggier leggy legit legless legman legmen legroom legwork leis lemma lemmas lemming lemony lemur
+lemurs lender lenders leonine leprous lessee lessees lessor lessors leveler lewdly liaise
+liaised liaises libeler libido libidos licit lidded lief liefer liefest liege lieges lien liens
+lifer lifers liftoff lignite limbos limeade limier limiest limn limned limning limns limo limos
+limpet limpets limpid limply limy linage linden lindens lineal lineman linemen linens lineup
+lineups lingual linkup linkups linnet linnets linseed lintel lintels lionize lipid lipids
+lipread lira lire lisle lissome litchi litchis lite litmus livery lividly llano llanos loaders
+loamier loamy loaner loaners lobed loci lockjaw lockout lockup lockups loco locus lode lodes
+loftily logbook loge loges loggers login logins logjam logjams logoff logoffs logon logons logos
+logout logouts lolcat lolcats loner loners loofah lookup loopier loopy looter looters lordly
+lorn lotto lout loutish louts louver louvers lowbrow lowish lowland lowness loyally luau luaus
+lubber lubbers lube lubed lubes lubing lucidly lucre lumbago lumbar lummox lumpish lupus luridly
+lustful lustily lyceum lyceums lynx lynxes macadam macaw macaws macro macron macrons macros
+madders madras madrasa maestro magma magneto magnums mahatma mailer mailers majorly makings
+malaise mallow mallows malteds malware mambo mamboed mambos mammary mammon manatee manful manga
+manhunt manics manikin manna mansard manse manses mantes mantis mantra mantras manumit marabou
+maraca maracas maraud marauds marimba markup markups marlin marlins marmot marmots marquis
+marten martens martini martins masher mashers mashup mashups masonic masque masques masseur
+mastiff mastoid matins mattock matzo matzoh matzohs matzos matzot matzoth maunder maven mavens
+mawkish maws maxed maxes maxilla maxing mayday maydays mayfly mayo mayoral maypole mazurka mead
+meanly meatier meaty mecca meccas medial medians medic medics medulla megs melange melanin meld
+melded melding melds meme memes menage menages mender menders menfolk menorah menses merino
+merinos merman mermen mesa mesas mescal mescals messiah messily mestizo methane metrics mewl
+mewled mewling mewls miasma miasmas mica micron microns midair middies middy midge midges
+midland midmost midterm midtown midweek midyear miff miffed miffing miffs milch miler milers
+milf milfs milieu milieus milksop millage millet mils mimetic mimosa mimosas minaret mini
+minicam minim minima minims minis minivan minster mintier minty minuend minutia minx minxes
+miscall miscast miscue miscued miscues misdeal misdid misdo misdoes misdone misfire misplay
+misrule missal missals misstep mister misters mistily mistime miter mitered miters mitosis
+mizzen mizzens mkay mobster mocha mochas mocker mockers modals modem modems modish mods modulus
+mogul moguls moiety moire moires moistly molder molders moll molls mommies mommy moneyed monger
+mongers moniker mono monocle montage mooch mooched moocher mooches moonlit mopeds moppet moppets
+moraine moray morays mordant mores morocco morrow morrows mortise mosey moseyed moseys mote
+motes motile motiles mottle mottled mottles mouser mousers muckier mucky muesli muezzin mufti
+muftis muggle muggles mukluk mukluks mulatto mulish mullah mullahs mullet mullets mullion
+mumbler mummer mummers mummery murk murkily murks muscat musings muskier muskrat musky muslin
+mussier mussy mutable muumuu muumuus myna mynas myopia myrrh myrtle myrtles mythic nabob nabobs
+nacho nachos nacre nadir nadirs naiad naiads nakedly nannies nanny naphtha nappier narc narcs
+nark narwhal nary nasally nascent natal nattily nave naves neath nebular needful nemeses nemesis
+neocon neocons neonate nerd nerdier nerds nerdy nervier nervy netbook newel newels newness
+newsboy newsman newsmen newtons nexus nexuses niacin nibbler nibs nigga niggard niggas niggaz
+nigger niggers niggle niggled niggles nigher nighest nightie nimbi nimbus ninepin ninja ninjas
+nipper nippers nirvana niter nitpick nixed nixes nixing nodal noddy nodular nodule nodules noel
+noels noggin noggins noisome nonce noncom noncoms nonfat nonplus nonskid nonuser nonzero noonday
+nope nosegay nosh noshed noshes noshing nostrum notary notepad nous novae novas novella noway
+nowise nuanced nubile nubs nucleic nudism nudist nudists nuke nuked nukes nuking nullity numbly
+nuncio nuncios nunnery nutmeat nutria nutrias nylons oafish oaken oakum oarlock oarsman oarsmen
+oaten oats obit obits oblate obloquy oboist oboists obsequy obtrude obverse obviate ocarina
+occlude occult ocelot ocelots ocher octane octet octets oculist oddball oddness odium odorous
+odyssey offal offside oilskin oink oinked oinking oinks oldie oldies oleo omegas oneness onetime
+online onshore onyx onyxes oops opacity opiate opiates opine opined opines opining orally orate
+orated orates orating orbs orcs ordinal ordure oregano organdy orgasms origami oriole orioles
+ormolu ornery orotund osier osiers osmotic osprey ospreys ossify otiose ottoman outage outages
+outback outbid outbids outcrop outfox outgo outgoes outplay outrank outsell outsize outsold
+outstay outtake outvote outwear outwore outworn ovarian overact overage overawe overjoy overpay
+overtax oviduct ovoid ovoids ovulate ovule ovules owlet owlets owlish oxbow oxbows oxford
+oxfords oxymora padre padres paean paeans pagers pailful paisley palatal palaver palazzi palazzo
+palings pallet pallets palmier palmist palmy palpate palsied palsies palsy pampas panache
+pannier panoply papery papilla papoose paps parapet parboil parfait pariah pariahs parings
+parkour parlay parlays parley parleys parolee parquet parried parries parry partway parvenu
+paschal pasha pashas passel passels passkey pastern patella patina patinas patine patois patsies
+patsy pavings pawl pawls pawpaw pawpaws payday paydays payee payees paywall peafowl peahen
+peahens pearly pebbly peccary pecs pectin peed peeing peeper peepers peerage pees peewee peewees
+pekoe pelagic pendent penile pennon pennons pent penury peonage peppery peppier peppy pepsin
+peptic peptics percale perfidy perigee periwig perm permed perming perms permute pertly peseta
+pesetas peso pesos pestle pestled pestles petard petards petiole petrel petrels pettily pewee
+pewees peyote phalanx phalli phallic phallus pharaoh pharynx phial phials philter phish phished
+phisher phloem phlox phobic phobics phoebe phoebes phoneme phonic phooey phrasal phyla phylum
+piazza piazzas pica picante picker pickers pidgin pidgins piebald pied pieing piffle piggier
+piggies piggy piglet piglets pigskin pigsty piing piker pikers pilaf pilafs pileup pileups
+pilings pillbox pillion pillory pimento pimp pimped pimping pimps pinball pincer pincers ping
+pinged pinging pings pinhead pinhole pinkeye pinkie pinkies pinkish pinnate pinto pintos pinup
+pinups piously piper pipers pipit pipits pipped pippin pipping pippins pips piquant piss pissed
+pisses pissing pistil pistils pita pith pithily piton pitons pixel pixels pizzazz placebo placer
+placers placket plaint plaints plait plaited plaits platen platens plaudit playact playboy
+playoff pleader plectra plenary plexus pliancy plinth plinths plodder plover plovers plowman
+plowmen plugin plugins plunk plunked plunks plushy pock pocked pocking pocks podcast poesy
+poetess pogrom pogroms pointy pokeys polecat politic polity pols polymer pomade pomaded pomades
+pommel pommels pompom pompoms pone pones poniard pontiff pooch pooched pooches pooh poohed
+poohing poohs popes popgun popguns poplin popover poppa poppas porcine porn porno portage poser
+posers poseur poseurs posh posher poshest posit posited posits posse posses postdoc postwar
+potable potash potful potfuls pothook potluck potpie potpies potshot pottage pottier potties
+potty poxes praline prancer prate prated prates prating preachy precept predate preheat prelate
+prenup prenups prep prepped preppy preps prequel presage preset presets prestos preteen prewar
+pricey pricier prig prigs primacy priory prissy prithee privet privets probate probity proctor
+prof profs prolix promo promos pronged pronto propane prorate prosaic prosier prosody prosy
+protean provost prudery pshaw pshaws psst psycho psychos pubic pubs puckish puerile puffin
+puffins pugs puller pullers pullet pullets pullout pulpier pulpy pulsar pulsars pumper pumpers
+punchy punster pupa pupae pupal purism purist purists puritan purl purled purling purloin purls
+purser pursers pursuer purvey purveys purview pustule putrefy putsch puzzler pwned pwning pwns
+pygmies pygmy pylon pylons pyrite pyxes quad quads quaff quaffed quaffs quahog quahogs quanta
+quarks quarto quartos quasar quasars quasi quavery queerly quiches quickie quid quids quietus
+quilter quince quinces quire quires quoit quoited quoits quondam quoth raceme racemes racers
+raceway racily radon raffia raffish raga ragas raggedy raglan raglans ragout ragouts ragtag
+ragtags ragweed raiment rajah rajahs rakish ramify rampart randier randy rangier rangy ranter
+rapier rapiers rapine rapper rappers rarefy rashers raspier raspy ratchet rattan rattans rattier
+rattrap raunchy ravioli rawhide rawness razz razzed razzes razzing readmit readout reagent
+realign reamer reamers reapply rearm rearmed rearms rebus rebuses recast recasts recheck recopy
+rectory redcap redcaps redcoat reddish redneck redness redoubt redound redrawn redraws redrew
+redskin redwood reedier reedy reefer reefers reenact reenter reentry reeve reeves reeving reffed
+reffing refile refiled refiles refiner refit refits refocus refract refs regally regency reggae
+regroup rehab rehabs reheat reheats rehire rehired rehires reissue relabel relearn remand
+remands remarry rematch remount remover renal rennet renter renters reoccur reorder reorg
+reorged reorgs repaint repast repasts replays reprise reproof reps requite reran rerun reruns
+resales resell resells resend resold respell respire restate restock restudy retake retaken
+retakes retell retells retinal retinue retiree retold retook retool retools retouch retrain
+retread retrial retried retrod retweet retyped retypes reunify revalue reviler rewinds rewire
+rewired rewires reword rewords reworks rewound rhea rheas rheum rheumy rhizome rhodium rhombus
+ribald rick ricked rickets ricking ricks ricotta riff riffed riffing riffle riffled riffles
+riffs rill rills rime rimed rimes riming ringer ringers ripely ripper rippers ripsaw ripsaws
+risible ritzier ritzy riven riveter rivulet roadbed roadway roamer roamers roan roans roaster
+robotic rococo roebuck roger rogered rogers roguery roil roiled roiling roils roister rollick
+romaine romper rompers rood roods roofer roofers rooftop rookery roomer roomers roomful roseate
+rosebud rosette rosily rosin rosined rosins roundly roundup rove roved rover rovers roves roving
+rowel roweled rowels rower rowers rubbery rubdown rube rubella rubes ruble rubles rubrics rugrat
+rugrats rumba rumbaed rumbas rumpus runnel runnels runoff runoffs rupee rupees rusk rusks russet
+russets sable sables sachem sachems sachet sachets sackful sago saguaro sahib sahibs saith
+salaam salaams saline salines sallied sallies salsa salsas saltine salver salvers salvo salvos
+samba sambaed sambas samovar sampan sampans samurai sanctum sandbar sandbox sander sanders
+sandhog sandlot sanely sans sapient sappier sappy sarcoma sarong sarongs sashay sashays sass
+sassed sasses sassing satay sate sated sateen sates satiate satiety sating satiny satrap satraps
+satyr satyrs saucily savanna savant savants savers sawmill sawyer sawyers saxes scabby scabies
+scad scads scalene scalper scam scammed scammer scamp scampi scamps scams scapula scarab scarabs
+scarify scat scats scatted schema scherzo schism schisms schist schlep schleps schlock schmuck
+schuss schwa schwas sciatic scion scions sconce sconces scone scones scorers scow scows scraper
+scrappy scrimp scrimps scrip scrips scrod scrooge scrota scrotum scrubby scrunch scuba scubaed
+scubas scud scudded scuds scull sculled sculls sculpt sculpts scumbag scummy scupper scurf
+scurfy scurvy scuzzy seabed seabeds seabird sealant sealer sealers seamier seamy seaward seaway
+seaways secs sedge seducer seeings seeker seekers seemly seers segue segued segues seismic
+selfie selfies selloff sellout seltzer selvage semi seminal semis senders senna sepal sepals
+sepia sepsis septa septet septets septic septum sequoia serape serapes seraph seraphs sere serer
+serest serf serfdom serfs serge serous serried servo servos sesame sesames settee settees setup
+setups sexier sexiest sexily sexists sexless sexpot sexpots sextant sextet sextets sexting
+sexton sextons shad shads shag shagged shags shah shahs shaker shakers shakeup shakily shale
+shallot shalt shaman shamans shandy shank shanks shard shards sharia shariah shearer shebang
+shekel shekels shellac shill shilled shills shim shimmed shimmy shims shindig shiner shiners
+shinny shipper shires shirker shirr shirred shirrs shit shits shitty shivery shocker shogun
+shoguns shooter showbiz showery showily showoff shrift shrike shrikes shrilly shrive shrived
+shriven shrives shrubby shtick shticks shush shushed shushes shuteye shutout shyly shyster sibyl
+sibyls sickbed sidearm sidebar sidecar sierras sifter sifters signers signet signets silage
+silica silkier silky simian simians simper simpers sims sinker sinkers sinuous sirocco sisal
+sises sitar sitars sitcom sitcoms skeet skier skiers skiff skiffs skitter skivvy skycap skycaps
+skydive skyjack skylark skyward slackly slags slalom slaloms slammer slangy slather slaver
+slavers slaw slayer slayers sleaze sleazes sledge sledged sledges sleekly sleety sleuth sleuths
+slicer slicers slickly slider sliders slinky sloe sloes sloop sloops slouchy slough sloughs
+sloven slovens slue slued slues slugger sluing slumdog slurp slurped slurps slushy smacker
+smarmy smarten smelter smirch smithy smoggy smooch smudgy smutty snaffle snafu snafus snakier
+snaky snapper snarky snazzy snifter snippy snit snits snivel snivels snobby snooper snoopy snoot
+snoots snorer snorers snotty snowman snowmen snuffle soapbox soberly softies softy soggily
+solaria sols solver solvers someway sonar sonars sonnies sonny sooth sophism sophist soppier
+soppy sorbet sorbets sorghum sorrel sorrels sorter sorters sortie sortied sorties sots sottish
+sough soughed soughs soulful soupier soupy sourly souse soused souses sousing soviet soviets
+sower sowers soybean spacey spacier spake spam spammed spammer spams spandex sparely spartan
+spastic spates spec specie speckle specs speeder speedup spender spidery spiel spieled spiels
+spiffy spikier spiky spindle spinet spinets spinier spinner spiny spirea spireas splashy splats
+splay splayed splays splicer spline splines splodge splotch spoiler sponger spoor spoored spoors
+spored sporing sporty spotter sprat sprats sprayer sprite sprites spritz spryly spume spumed
+spumes spuming spumoni spunky sputum spyware squab squabs squashy squaw squaws squirmy squish
+squishy staffer staidly stalker stamen stamens staph starkly starlet starlit startup stash
+stashed stashes stats stead steads steamer steed steeds steely steeply stein steins stent stents
+stepdad stepmom steppe steppes stepson sternum steroid stickup sties stile stiles stilt stilts
+stinker stipend stipple stirrer stoat stoats stoic stoics stoker stokers stoner stoners stonily
+stooge stooges storied stoutly strafe strafed strafes streaky strep strobe strobes strop strophe
+strops strudel stubbly stucco stumpy styli stylist stylize stymie stymied stymies styptic
+suavely suavity subhead subjoin suborn suborns subplot subsoil subsume subteen sucrose sudsier
+sudsy suet suffuse sulfate sulfide sulfurs sulkily sullied sullies sully sultana sumac summery
+sumo sump sumps sunbeam sunder sunders sunfish sunlamp sunless sunroof sunspot supine supped
+supping sups surety surfeit surfer surfers surrey surreys surtax sushi suture sutured sutures
+svelte svelter swaddle swag swagged swags swain swains swami swamis swank swanked swanker swanks
+swanky sward swards swash swashed swashes swatch swath swaths swatter swearer sweetie swelter
+swimmer swinger swinish swirly sylph sylphs sylvan sync synced syncing syncs synergy synod
+synods syrupy tableau tabular tackler tactile tads taffeta taffies taffy takeout takings tallyho
+tamable tamale tamales tamers tamp tamped tamping tampon tampons tamps tams tanager tangelo
+tangier tangy tankful tanners tannery tannin tansy tapioca tapir tapirs taproom taproot tardily
+tare tared tares taring tarmac tarmacs taro taros tarot tarots tarp tarpon tarpons tarps tartly
+taser tasered tasers taster tasters tats tatted tatter tatters tatting tattler taupe tautly
+teabag teal teals teargas tearier tearoom teary teasel teasels teaser teasers teatime techno
+techs teenier teeny telex telexed telexes temblor temp temped tempera temping temps tempter
+tempura tenfold tenon tenoned tenons tenpin tenpins tensely tensile tensor tequila terabit tern
+terns terry testate testier testily testy texted texting thalami thees theism thereto thermos
+thieved thine thirdly thither thorax thorium thrall thralls throaty throe throes thrower thru
+thrum thrums thrush thruway thwack thwacks thymus thyself tibia tibiae ticker tickers tics
+tidily tidings tigress tildes tillage tiller tillers timbre timbres timpani tine tines tinfoil
+tingly tipper tippers tipple tippled tippler tipples tipsily tipster tiptop tiptops titan
+titanic titans tithe tithed tithes tithing titmice tittle tittles titular tizzies tizzy toadied
+toadies toady toasty tocsin tocsins toddies toddy toehold tofu toggled toggles togs toiler
+toilers toke toked tokes toking toms toner tonier toniest tonsure tony toolbar toolbox toothed
+toothy topcoat topknot topless topmast topmost topsail topside topsoil toque toques torpid
+torpor torqued torques tors torsion tort torte tortes torts torus tossup tossups totemic toughly
+tourism tourney towhead towpath toxemia tracer tracers tracery trachea tracker traduce traipse
+tram trammed trammel trams transom travail treadle treetop trefoil tremolo tress tresses triad
+triads triage tribune trice triceps trident trifler trig trike trikes trimly triply trisect
+tritely trivet trivets trochee troika troikas trollop tromp tromped tromps trope tropes tropic
+tropics tropism troth trotter trouper troy troys trucker truckle trundle truss trussed trusses
+truther tryst trysted trysts tsunami tubbier tubby tuber tubers tucker tuckers tugboat tulle
+tumbrel tumid tunnies tunny tuns turbid turbot turbots turd turds turners turnkey turnoff tush
+tushes tusked tussock tutu tutus tuxes twaddle twain tweeds tweedy tweeter twerk twerked twerks
+twerp twerps twiggy twill twilled twirler twit twits twitted twofer twofers twofold twosome tyke
+tykes typo typos tyro tyros ukulele ulna ulnae ultras ululate umbel umbels umber umbrage umiak
+umiaks umlaut umlauts umped umping umps unaided unasked unbar unbars unbend unbends unbent
+unbind unbinds unbolt unbolts unbosom unbound uncased uncivil unclasp uncoil uncoils uncork
+uncorks unction undated undies unease uneaten unfrock unguent unhand unhands unhinge unhitch
+unholy unhorse unhurt unisex unitary unlace unlaced unlaces unlatch unlearn unloose unloved
+unmade unmake unmakes unmanly unmoral unpaved unpin unpins unplug unplugs unquote unready unripe
+unriper unroll unrolls unseal unseals unsent unsnap unsnaps unsnarl unsold unstop unstops
+untamed untried untruth untwist unwed unzip unzips upbraid upchuck updater updraft upfront
+upland uplands uppity upraise upscale upsides upstage upstate upsurge upswing uptakes urea
+urethra uric urinal urinals urinary urology usurer usurers usurper usury uterine utopia utopias
+uvula uvular uvulars uvulas vacuity vainly valance vale valence vales vamoose vamp vamped
+vamping vamps vantage vape vaped vapes vapid vaping variate varlet varlets varmint vassal
+vassals vaulter vaunt vaunted vaunts veep veeps vegan vegans veggie veggies veld velds vellum
+velours venal venally venial venous ventral verbena verdant verdure verily verity vernal versify
+vertex vesicle vesper vespers vestry vetch vetches viand viands vibe vibes vibrato viceroy
+victual vilely villein vintner viol violist viols virago vireo vireos virgule visage visages
+viscera viscid viscous viscus vitals vitiate vitriol viva vivace vivas vivify vixen vixens
+vizier viziers vocalic vocally voguish voile vole voles voltaic voluble volubly votary votive
+voyeur voyeurs vulva vulvae wack wacker wackest wackier wacko wackos wacks wacky wader waders
+wadi wadis waggish waggle waggled waggles wagoner wakeful wale waled wales waling walkway
+wallaby walleye wampum wangle wangled wangles wanly wannabe wapiti wapitis warbler warder
+warders ware wares warily warlock warlord warmers warship warthog wartier warty washtub waspish
+wassail waster wasters wastrel watcher wattage wattle wattled wattles wavelet waxen waxwing
+waxwork weal weals wearer wearers webcam webcams webcast webinar website weeder weeders weeper
+weepers weepier weepies weepy weevil weevils weft wefts weir weirdly weirs welkin welsh welshed
+welshes wench wenches wend wended wending wends wens wetback wetland wetly wetness wham whammed
+whammy whams whatnot wheal wheals wheaten wheeler wheezy whelk whelked whelks whelp whelped
+whelps whereat whereof whereon whey whimsy whiner whiners whinier whiny whippet whist whit
+whither whiting whitish whits whoopee whoosh whorl whorled whorls wiener wieners wifely wigeon
+wiggler wiggly wight wights wigwag wigwags wiki wikis wile wiled wiles wiling willies willowy
+wimp wimpier wimple wimpled wimples wimps wimpy windbag windup windups winery winger wingnut
+wingtip winnow winnows wino winos wiretap wisher wishers withal wittily woeful wolfish wolfram
+womanly wonted woodcut woodman woodmen woodsy wooer wooers woofer woofers woozier woozy workday
+wormier wormy worrier wrack wraith wraiths wriggly wrinkly wroth wryly wryness wuss wusses xenon
+xylem yahoo yahoos yammer yammers yardage yardarm yawed yawing yawl yawls yaws yeah yeahs yeas
+yeasty yeoman yeomen yeps yeshiva yest yipped yippee yipping yips yodeler yogi yogis yore
+yttrium yucca yuccas yuckier yucky yukked yukking yuks yule yummier yummy yuppie yuppies yups
+zapped zapper zappers zapping zaps zealot zealots zebu zebus zeds zephyr zephyrs zestful zilch
+zing zinged zinger zingers zinging zings zinnia zinnias zippier zippy zircon zircons zither
+zithers zits zonal zonked zygote zygotes
+`